@@ -12,6 +12,8 @@ export interface CompileOptions {
   compilerArgs?: string[];
   /** Expected output path. If omitted, tries to infer from args or uses internal temp output. */
   outputPath?: string;
+  /** Compile with the purifier (adds --purifier when missing). */
+  purifier?: boolean;
 }
 
 export class CompilerLauncher {
@@ -340,6 +342,9 @@ export class CompilerLauncher {
     } else {
       argv = this.getCompileArgs(resolvedSource, executablePath);
     }
+    if (opt.purifier && !argv.includes('--purifier')) {
+      argv = [...argv, '--purifier'];
+    }
 
     return new Promise((resolve, reject) => {
       this.log(`Compile: ${this.compiler} ${argv.join(' ')}`);
@@ -402,6 +407,7 @@ export class CompilerLauncher {
     executablePath: string,
     communicationString: string,
     stopOnEntry = true,
+    callOnEnd = false,
     runCwd?: string,
     runArgs?: string[],
   ): cp.ChildProcess {
@@ -418,11 +424,12 @@ export class CompilerLauncher {
     // Prepare environment with required variables
     // PB_DEBUGGER_Options format: <unicode>;<callOnStart>;<callOnEnd>;<bigEndian>
     // callOnStart: 1 = stop at entry, 0 = run until breakpoint
+    // callOnEnd:   1 = stop before the program ends
     const callOnStart = stopOnEntry ? '1' : '0';
     const env: NodeJS.ProcessEnv = {
       ...process.env,
       PB_DEBUGGER_Communication: communicationString,
-      PB_DEBUGGER_Options: `1;${callOnStart};0;0`,
+      PB_DEBUGGER_Options: `1;${callOnStart};${callOnEnd ? '1' : '0'};0`,
     };
 
     if (!env.PUREBASIC_HOME) {
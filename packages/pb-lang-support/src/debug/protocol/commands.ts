@@ -41,6 +41,9 @@ export const enum PBEvent {
   Expression  = 36,  // Response to EvaluateExpression
 }
 
+/** Scope of global variables, where a procedure index would be. */
+export const GLOBAL_SCOPE = 0xFFFFFFFF;
+
 /** Protocol version in COMMAND_Init.Value2. */
 export const PB_PROTOCOL_VERSION = 12;
 
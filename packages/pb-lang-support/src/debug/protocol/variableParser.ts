@@ -20,6 +20,33 @@ export interface ParsedVariable {
   value:    string;
 }
 
+/** Flag and mask of the raw type byte in Globals / Locals / element payloads. */
+export const PB_POINTER_MASK = 0x80;
+export const PB_TYPE_MASK    = 0x3F;
+
+/** Raw base types (type byte & PB_TYPE_MASK) of variables that have children. */
+export const enum PBRawType {
+  Structure = 7,
+  List      = 14,
+  Array     = 15,
+  Map       = 22,
+}
+
+export interface DecodedValue {
+  value:     string;
+  typeName:  string;
+  bytesRead: number;
+}
+
+/** A structure member. */
+export interface ParsedElement {
+  /** Member name. */
+  label:    string;
+  rawType:  number;
+  value:    string;
+  typeName: string;
+}
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -82,6 +109,172 @@ function toHex64(value: bigint): string {
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * Read a string in the executable's string format (UTF-16LE in Unicode mode,
+ * UTF-8 otherwise), null-terminated.
+ */
+export function readPBString(data: Buffer, offset: number, isUnicode: boolean): { value: string; nextOffset: number } {
+  if (offset >= data.length) {
+    return { value: '', nextOffset: offset };
+  }
+
+  if (isUnicode) {
+    let end = offset;
+    while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) {
+      end += 2;
+    }
+    const value = data.slice(offset, end).toString('utf16le');
+    const nextOffset = end + 2 <= data.length ? end + 2 : data.length;
+    return { value, nextOffset };
+  }
+
+  const end = data.indexOf(0, offset);
+  if (end === -1) {
+    return { value: data.slice(offset).toString('utf8'), nextOffset: data.length };
+  }
+  return {
+    value: data.slice(offset, end).toString('utf8'),
+    nextOffset: end + 1,
+  };
+}
+
+/**
+ * Decode one value of a Globals / Locals / element payload, given its raw
+ * type byte. `bytesRead` is 0 when the data is truncated, and for structures,
+ * whose members are not part of the payload.
+ */
+export function decodePBValue(rawType: number, data: Buffer, offset: number, is64bit: boolean): DecodedValue {
+  const baseType = rawType & PB_TYPE_MASK;
+  const isPointer = (rawType & PB_POINTER_MASK) !== 0;
+  const intSize = is64bit ? 8 : 4;
+
+  const readUtf16Z = (): { text: string; bytes: number } => {
+    let end = offset;
+    while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) end += 2;
+    const bytes = Math.min(data.length - offset, end + 2 - offset);
+    return { text: data.slice(offset, end).toString('utf16le'), bytes };
+  };
+
+  const readAsciiZ = (): { text: string; bytes: number } => {
+    const end = data.indexOf(0, offset);
+    if (end === -1) {
+      return { text: data.slice(offset).toString('ascii'), bytes: data.length - offset };
+    }
+    return { text: data.slice(offset, end).toString('ascii'), bytes: end + 1 - offset };
+  };
+
+  if (isPointer) {
+    if (offset + intSize > data.length) return { value: '<invalid>', typeName: 'Pointer', bytesRead: 0 };
+    const value = is64bit
+      ? '0x' + data.readBigUInt64LE(offset).toString(16).toUpperCase()
+      : '0x' + data.readUInt32LE(offset).toString(16).toUpperCase();
+    return { value, typeName: 'Pointer', bytesRead: intSize };
+  }
+
+  if (baseType === 21) {
+    if (offset + intSize > data.length) return { value: '<invalid>', typeName: 'Integer', bytesRead: 0 };
+    const value = is64bit
+      ? data.readBigInt64LE(offset).toString()
+      : data.readInt32LE(offset).toString();
+    return { value, typeName: 'Integer', bytesRead: intSize };
+  }
+
+  switch (baseType) {
+    case 1:
+      if (offset + 1 > data.length) return { value: '<invalid>', typeName: 'Byte', bytesRead: 0 };
+      return { value: String(data.readInt8(offset)), typeName: 'Byte', bytesRead: 1 };
+    case 3:
+      if (offset + 2 > data.length) return { value: '<invalid>', typeName: 'Word', bytesRead: 0 };
+      return { value: String(data.readInt16LE(offset)), typeName: 'Word', bytesRead: 2 };
+    case 5:
+      if (offset + 4 > data.length) return { value: '<invalid>', typeName: 'Long', bytesRead: 0 };
+      return { value: String(data.readInt32LE(offset)), typeName: 'Long', bytesRead: 4 };
+    case PBRawType.Structure:
+      return { value: '<structure>', typeName: 'Structure', bytesRead: 0 };
+    case 8:
+    case 10: {
+      const s = readUtf16Z();
+      return { value: s.text, typeName: baseType === 8 ? 'String' : 'FixedString', bytesRead: s.bytes };
+    }
+    case 9:
+      if (offset + 4 > data.length) return { value: '<invalid>', typeName: 'Float', bytesRead: 0 };
+      return { value: data.readFloatLE(offset).toString(), typeName: 'Float', bytesRead: 4 };
+    case 11:
+      // .c is an unsigned 2-byte character (Unicode executables)
+      if (offset + 2 > data.length) return { value: '<invalid>', typeName: 'Character', bytesRead: 0 };
+      return { value: String(data.readUInt16LE(offset)), typeName: 'Character', bytesRead: 2 };
+    case 12:
+      if (offset + 8 > data.length) return { value: '<invalid>', typeName: 'Double', bytesRead: 0 };
+      return { value: data.readDoubleLE(offset).toString(), typeName: 'Double', bytesRead: 8 };
+    case 13:
+      if (offset + 8 > data.length) return { value: '<invalid>', typeName: 'Quad', bytesRead: 0 };
+      return { value: data.readBigInt64LE(offset).toString(), typeName: 'Quad', bytesRead: 8 };
+    case PBRawType.List: {
+      if (offset + intSize * 2 > data.length) return { value: '<invalid>', typeName: 'List', bytesRead: 0 };
+      const size = is64bit ? data.readBigInt64LE(offset) : BigInt(data.readInt32LE(offset));
+      const current = is64bit ? data.readBigInt64LE(offset + intSize) : BigInt(data.readInt32LE(offset + intSize));
+      return { value: `size=${size} current=${current}`, typeName: 'List', bytesRead: intSize * 2 };
+    }
+    case PBRawType.Array: {
+      const dims = readAsciiZ();
+      return { value: dims.text, typeName: 'Array', bytesRead: dims.bytes };
+    }
+    case PBRawType.Map: {
+      if (offset + intSize + 1 > data.length) return { value: '<invalid>', typeName: 'Map', bytesRead: 0 };
+      const size = is64bit ? data.readBigInt64LE(offset) : BigInt(data.readInt32LE(offset));
+      const isCurrent = data.readUInt8(offset + intSize) !== 0;
+      if (!isCurrent) {
+        return { value: `size=${size}`, typeName: 'Map', bytesRead: intSize + 1 };
+      }
+      const current = (() => {
+        const start = offset + intSize + 1;
+        let end = start;
+        while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) end += 2;
+        return { text: data.slice(start, end).toString('utf16le'), bytes: end + 2 - start };
+      })();
+      return { value: `size=${size} current=${current.text}`, typeName: 'Map', bytesRead: intSize + 1 + current.bytes };
+    }
+    case 24:
+      if (offset + 1 > data.length) return { value: '<invalid>', typeName: 'Ascii', bytesRead: 0 };
+      return { value: String(data.readUInt8(offset)), typeName: 'Ascii', bytesRead: 1 };
+    case 25:
+      if (offset + 2 > data.length) return { value: '<invalid>', typeName: 'Unicode', bytesRead: 0 };
+      return { value: String(data.readUInt16LE(offset)), typeName: 'Unicode', bytesRead: 2 };
+    default:
+      return { value: `<type ${baseType}>`, typeName: `Type${baseType}`, bytesRead: 0 };
+  }
+}
+
+/**
+ * Parse the members of a structure, as returned by EvaluateExpressionWithStruct
+ * (result type 5): repeated [member name, PB string] [1B type] [value].
+ */
+export function parseStructureMembers(data: Buffer, is64bit: boolean, isUnicode: boolean): ParsedElement[] {
+  return parseLabeledValues(data, Number.MAX_SAFE_INTEGER, is64bit, isUnicode);
+}
+
+function parseLabeledValues(data: Buffer, count: number, is64bit: boolean, isUnicode: boolean): ParsedElement[] {
+  const result: ParsedElement[] = [];
+  let offset = 0;
+
+  while (result.length < count && offset < data.length) {
+    const label = readPBString(data, offset, isUnicode);
+    offset = label.nextOffset;
+    if (offset >= data.length) break;
+
+    const rawType = data.readUInt8(offset);
+    offset += 1;
+
+    const decoded = decodePBValue(rawType, data, offset, is64bit);
+    if (decoded.bytesRead === 0 && (rawType & PB_TYPE_MASK) !== PBRawType.Structure) break;
+    offset += decoded.bytesRead;
+
+    result.push({ label: label.value, rawType, value: decoded.value, typeName: decoded.typeName });
+  }
+
+  return result;
+}
+
 /**
  * Parse a GlobalNames / LocalNames response payload.
  *
@@ -9,13 +9,16 @@ import {
   StackFrame,
   Source,
   Breakpoint,
+  BreakpointEvent,
+  LoadedSourceEvent,
+  Handles,
 } from '@vscode/debugadapter';
 import { DebugProtocol } from '@vscode/debugprotocol';
 import * as path from 'path';
 import * as cp from 'child_process';
 import * as fs from 'fs';
 
-import { LaunchRequestArguments, CommandInfo, CompileResult } from '../types/debugTypes';
+import { LaunchRequestArguments, AttachRequestArguments, CommandInfo, CompileResult } from '../types/debugTypes';
 import {
   PBCommand,
   PBEvent,
@@ -25,21 +28,102 @@ import {
   makeDebuggerLine,
   debuggerLineFile,
   debuggerLineRow0,
+  GLOBAL_SCOPE,
 } from '../protocol/commands';
 import { CompilerLauncher } from '../compiler/CompilerLauncher';
 import { SessionStateMachine } from './sessionState';
-import { parseNames, parseValues } from '../protocol/variableParser';
+import {
+  parseNames,
+  decodePBValue,
+  readPBString,
+  parseStructureMembers,
+  DecodedValue,
+  ParsedElement,
+  PBRawType,
+  PB_POINTER_MASK,
+  PB_TYPE_MASK,
+} from '../protocol/variableParser';
 import { createTransport } from '../transport/createTransport';
+import { allBuiltinNames, findBuiltin } from '../../shared/builtin-functions';
+import { ApiFunctionListing } from '../../shared/api-function-listing';
 import { IDebugTransport, DebugTransportKind } from '../transport/IDebugTransport';
 
 const THREAD_ID         = 1;
+/** Port an attach session listens on when none is configured. */
+const DEFAULT_ATTACH_PORT    = 10000;
+const DEFAULT_ATTACH_TIMEOUT = 300_000;
 const SCOPE_GLOBALS_REF = 1000;
 const SCOPE_LOCALS_REF  = 1001;
+/** First handle for expandable variables; below are the fixed scope references. */
+const VARIABLE_HANDLES_START = 2000;
+/** Most Debug Console completions returned for one request. */
+const MAX_COMPLETIONS = 200;
+
+/** Exception filters shown in the Breakpoints view. */
+const FILTER_RUNTIME_ERRORS       = 'runtimeErrors';
+const FILTER_CALL_DEBUGGER        = 'callDebugger';
+const FILTER_CALL_DEBUGGER_ON_END = 'callDebuggerOnEnd';
+const FILTER_PURIFIER             = 'purifier';
+
+/**
+ * Runtime errors raised by the purifier checks, e.g. "Overflow in a string
+ * memory block" or "The memory block has been overwritten".
+ */
+const PURIFIER_ERROR = /overflow in (?:a|the)\b|has been overwritten|purifier/i;
+
+/**
+ * Evaluation errors for a name the frame does not know, e.g. "Variable not
+ * found" or "Unknown variable"; the expression is then not in scope.
+ */
+const UNKNOWN_NAME_ERROR = /not found|unknown|not declared|not defined/i;
 
-const PB_POINTER_MASK = 0x80;
-const PB_TYPE_MASK    = 0x3F;
 const SCIN_REQUESTOR  = asciiConst('S', 'C', 'I', 'N');
 
+/**
+ * A structured variable whose members are shown on demand by evaluating
+ * `expression`. `scope` is the frame id the variable belongs to, or GLOBAL_SCOPE.
+ */
+interface VariableContainer {
+  expression: string;
+  scope: number;
+}
+
+type WatchResult = NonNullable<DebugProtocol.EvaluateResponse['body']>;
+
+/** Adapter-side options of a source breakpoint; the debuggee only knows the line. */
+interface BreakpointOptions {
+  condition?: string;
+  hitCondition?: string;
+  logMessage?: string;
+  /** Number of hits with a true (or no) condition. */
+  hits: number;
+}
+
+/** A breakpoint on the first executable line of a procedure. */
+interface FunctionBreakpoint {
+  id: number;
+  /** `Proc` or `Module::Proc`, as entered by the user. */
+  name: string;
+  /** Resolved location; unset until a loaded source file defines the procedure. */
+  path?: string;
+  line?: number;
+}
+
+/** Arguments of the custom `runToLine` request. */
+interface RunToLineArguments {
+  source: DebugProtocol.Source;
+  /** 1-based line to run to. */
+  line: number;
+}
+
+/** The exception shown for the current stop, see exceptionInfoRequest. */
+interface ExceptionStop {
+  exceptionId: string;
+  description: string;
+  fileNum: number;
+  line: number;
+}
+
 interface ProcedureRange {
   start: number;
   end: number;
@@ -47,6 +131,27 @@ interface ProcedureRange {
   moduleName?: string;
 }
 
+/**
+ * Check a hit count against a hit condition: `n` / `>=n` (from the n-th hit
+ * on), `==n`, `>n`, `<n`, `<=n` or `%n` (every n-th hit).
+ * Returns undefined when the condition cannot be parsed.
+ */
+function matchesHitCondition(hitCondition: string, hits: number): boolean | undefined {
+  const match = /^\s*(>=|<=|==|=|>|<|%)?\s*(\d+)\s*$/.exec(hitCondition);
+  if (!match) return undefined;
+  const n = Number(match[2]);
+  if (match[1] === '%' && n === 0) return undefined;
+  switch (match[1]) {
+    case '==':
+    case '=':  return hits === n;
+    case '>':  return hits > n;
+    case '<':  return hits < n;
+    case '<=': return hits <= n;
+    case '%':  return n > 0 && hits % n === 0;
+    default:   return hits >= n;
+  }
+}
+
 function asciiConst(a: string, b: string, c: string, d: string): number {
   return (a.charCodeAt(0) & 0xFF)
     | ((b.charCodeAt(0) & 0xFF) << 8)
@@ -70,6 +175,23 @@ export class PBDebugSession extends DebugSession {
   private is64bit = false;
   private isUnicode = true;
   private procedureRangesCache = new Map<string, ProcedureRange[]>();
+  /** Expandable variables of the current stop; reset on every stop. */
+  private variableHandles = new Handles<VariableContainer>(VARIABLE_HANDLES_START);
+  /**
+   * Raw type byte of the variables shown at the current stop, per
+   * `${scope}:${expression}` (scope: frame id or GLOBAL_SCOPE).
+   */
+  private variableTypes = new Map<string, number>();
+  /** Packed line of each stack frame of the current stop, by frame id. */
+  private frameLines: number[] = [];
+  /** Watch results of the current stop, per `${frameId}:${expression}`. */
+  private watchResults = new Map<string, Promise<WatchResult>>();
+  /** Locals and globals of the current stop, for Debug Console completions. */
+  private completionVariables: Promise<DebugProtocol.Variable[]> | null = null;
+  /** Structure fields of the current stop per `${scope}:${expression}`, for Debug Console completions. */
+  private completionFields = new Map<string, Promise<DebugProtocol.Variable[]>>();
+  /** Native API functions (APIFunctionListing.txt), for Debug Console completions. */
+  private readonly apiFunctions = new ApiFunctionListing();
 
   /**
    * Maps protocol file index (0 = main file) → absolute file path.
@@ -77,16 +199,20 @@ export class PBDebugSession extends DebugSession {
    */
   private fileNumToPath = new Map<number, string>();
 
+  /** Normalized paths already reported to the client with a LoadedSourceEvent. */
+  private announcedSources = new Set<string>();
+
   /** Last known stopped position (1-based line, protocol file index). */
   private stoppedFileNum = 0;
   private stoppedLine    = 1;
   private activeFrameId  = 0;
 
   /**
-   * Whether the first entry stop (CallDebuggerOnStart) has been processed.
-   * Used to auto-skip the entry stop when stopOnEntry=false.
+   * Whether the adapter started the program with CallDebuggerOnStart, so its
+   * first CallDebugger stop is the entry stop. Attached programs are started
+   * by someone else and only stop on CallDebugger statements and breakpoints.
    */
-  private firstStopSeen = false;
+  private expectEntryStop = false;
 
   /**
    * Breakpoints stored per source-file path while program is not yet running.
@@ -94,14 +220,31 @@ export class PBDebugSession extends DebugSession {
    */
   private pendingBreakpoints = new Map<string, number[]>();
 
+  /**
+   * Condition / hit condition / log message per normalized source path and
+   * 1-based line. Evaluated when a Breakpoint stop arrives.
+   */
+  private breakpointOptions = new Map<string, Map<number, BreakpointOptions>>();
+
+  /** Temporary breakpoint of a pending "run to line" (runToLine request). */
+  private runToTarget: { filePath: string; line: number } | null = null;
+  private functionBreakpoints: FunctionBreakpoint[] = [];
+  private nextBreakpointId = 1;
+
+  /** Enabled exception filters; all on until setExceptionBreakPoints arrives. */
+  private exceptionFilters = new Set([FILTER_RUNTIME_ERRORS, FILTER_CALL_DEBUGGER, FILTER_CALL_DEBUGGER_ON_END, FILTER_PURIFIER]);
+  private lastException: ExceptionStop | null = null;
+
   /**
    * Callbacks waiting for a specific PBEvent from PipeA.
    * onMessage delivers matching events here before the switch-case handlers.
    */
   private pendingResponse = new Map<number, Array<(msg: CommandInfo) => void>>();
 
-  // Saved across launchRequest / configurationDoneRequest
+  // Saved across launchRequest / attachRequest / configurationDoneRequest
   private launchArgs:    LaunchRequestArguments | null = null;
+  /** Set for `attach`: the program is started by someone else and connects over the network. */
+  private attachArgs:    AttachRequestArguments | null = null;
   private compileResult: CompileResult | null = null;
   private compilePromise: Promise<CompileResult> | null = null;
   private pipeId: string | null = null;
@@ -129,6 +272,26 @@ export class PBDebugSession extends DebugSession {
     response.body = {
       supportsConfigurationDoneRequest: true,
       supportsEvaluateForHovers:        true,
+      supportsConditionalBreakpoints:    true,
+      supportsHitConditionalBreakpoints: true,
+      supportsLogPoints:                 true,
+      supportsFunctionBreakpoints:       true,
+      supportsLoadedSourcesRequest:      true,
+      supportsExceptionInfoRequest:      true,
+      supportsSteppingGranularity:       true,
+      supportsRestartRequest:            true,
+      supportsCompletionsRequest:        true,
+      completionTriggerCharacters:       ['\\'],
+      exceptionBreakpointFilters: [
+        { filter: FILTER_RUNTIME_ERRORS, label: 'Runtime Errors', default: true,
+          description: 'Break when the program raises a runtime error' },
+        { filter: FILTER_CALL_DEBUGGER, label: 'CallDebugger', default: true,
+          description: 'Break on CallDebugger statements' },
+        { filter: FILTER_CALL_DEBUGGER_ON_END, label: 'Before Program End', default: true,
+          description: 'Break before the program ends (CallDebuggerOnEnd)' },
+        { filter: FILTER_PURIFIER, label: 'Purifier Errors', default: true,
+          description: 'Break when the purifier finds an overwritten string or memory block' },
+      ],
       supportTerminateDebuggee:         true,
       supportsStepBack:                 false,
     };
@@ -146,20 +309,33 @@ export class PBDebugSession extends DebugSession {
     response: DebugProtocol.LaunchResponse,
     args: LaunchRequestArguments,
   ): Promise<void> {
-    this.trace = args.trace ?? false;
-    this.secureTrace = args.secureTrace ?? false;
-    this.launchArgs = args;
-    this.pendingBreakpoints.clear(); // Clear any stale breakpoints from previous sessions
-    this.firstStopSeen = false;
-    this.procedureRangesCache.clear();
-    this.fileNumToPath.clear();
-    this.transportKind = 'pipe';
-    this.communicationString = null;
+    this.resetSession(args);
     this.log('launchRequest started');
 
-    // File 0 = main source file (protocol convention)
-    this.fileNumToPath.set(0, path.resolve(args.program));
+    try {
+      await this.prepareLaunch(args);
+      this.log('Sending launch response...');
+      this.sendResponse(response);
+      this.log('Launch response sent');
+      // VSCode will now send setBreakpoints(…) × N then configurationDone
+    } catch (err) {
+      this.log(`Launch failed with error: ${(err as Error).message}`);
+      this.transport?.close();
+      this.transport = null;
+      this.communicationString = null;
+      this.sendEvent(new OutputEvent(
+        `Launch failed: ${this.safeErrorMessage(err)}\n`, 'stderr',
+      ));
+      response.success = false;
+      response.message = this.safeErrorMessage(err);
+      this.sendResponse(response);
+    }
+  }
 
+  /**
+   * Create the transport and compile the program. Used by launch and restart.
+   */
+  private async prepareLaunch(args: LaunchRequestArguments): Promise<void> {
     // Resolve compiler path: use provided path, or auto-detect
     let compilerPath = args.compiler;
     if (!compilerPath) {
@@ -176,73 +352,131 @@ export class PBDebugSession extends DebugSession {
     this.pipeId   = this.launcher.generatePipeId();
     this.communicationString = null;
 
-    try {
-      if (!this.pipeId) throw new Error('Failed to generate transport identifier');
+    if (!this.pipeId) throw new Error('Failed to generate transport identifier');
 
-      // Create transport (server must be listening before the executable starts)
+    // Create transport (server must be listening before the executable starts)
+    this.transport = createTransport({
+      platform: process.platform,
+      transport: args.transport,
+      pipeId: this.pipeId,
+      debugHost: args.debugHost,
+      debugPort: args.debugPort,
+      debugPassword: args.debugPassword,
+    });
+    this.wireTransport(this.transport);
+
+    this.log(`Creating transport [kind=${this.transportKind}] [id=${this.pipeId}]`);
+    await this.transport.listen();
+    this.communicationString = this.transport.getCommunicationString();
+    this.log(`Transport ready [kind=${this.transportKind}]`);
+
+    this.log(`Compiling: ${args.program}`);
+    this.sendEvent(new OutputEvent(
+      `Compiling ${path.basename(args.program)}...\n`, 'console',
+    ));
+
+    // Store the promise so configurationDoneRequest can wait for it
+    // unified compile inputs coming from host
+    const compileCwd = args.cwd ? path.resolve(args.cwd) : path.dirname(path.resolve(args.program));
+    const outputPath = args.output ? path.resolve(compileCwd, args.output) : undefined;
+
+    this.compilePromise = this.launcher.compile(args.program, {
+      cwd: compileCwd,
+      compilerArgs: args.compilerArgs,
+      outputPath,
+      purifier: args.purifier,
+    });
+    this.compileResult = await this.compilePromise;
+    this.log(`Compiled → ${this.compileResult.executablePath}`);
+    this.sendEvent(new OutputEvent('Compilation successful.\n', 'console'));
+  }
+
+  /**
+   * DAP `attach` request.
+   * Listens for a program that was compiled with the debugger and is started
+   * by someone else with `PB_DEBUGGER_Communication=NetworkClient;host:port`.
+   * The connection is awaited in configurationDoneRequest.
+   */
+  protected async attachRequest(
+    response: DebugProtocol.AttachResponse,
+    args: AttachRequestArguments,
+  ): Promise<void> {
+    this.resetSession({
+      program: args.program ?? '',
+      trace: args.trace,
+      secureTrace: args.secureTrace,
+      apiFunctionListingPath: args.apiFunctionListingPath,
+    });
+    this.attachArgs = args;
+    this.log('attachRequest started');
+
+    try {
       this.transport = createTransport({
-        platform: process.platform,
-        transport: args.transport,
-        pipeId: this.pipeId,
+        transport: 'network',
+        pipeId: '',
         debugHost: args.debugHost,
-        debugPort: args.debugPort,
+        debugPort: args.debugPort ?? DEFAULT_ATTACH_PORT,
         debugPassword: args.debugPassword,
       });
-      this.transportKind = this.transport.kind;
-
-      this.transport.on('message', (msg: CommandInfo) => this.onMessage(msg));
-      this.transport.on('error',   (err: Error) => this.log(`Transport(${this.transportKind}) error: ${err.message}`));
-      this.transport.on('log',     (msg: string) => this.log(`[Transport] ${msg}`));
-      this.transport.on('traceLog', (msg: string) => { if (this.trace) { this.logInternal(`[Transport] ${msg}`); } });
-      this.transport.on('end', () => {
-        if (!this.state.isTerminated()) {
-          this.state.transition('terminated');
-          this.sendEvent(new TerminatedEvent());
-        }
-      });
-
-      this.log(`Creating transport [kind=${this.transportKind}] [id=${this.pipeId}]`);
+      this.wireTransport(this.transport);
       await this.transport.listen();
       this.communicationString = this.transport.getCommunicationString();
-      this.log(`Transport ready [kind=${this.transportKind}]`);
 
-      this.log(`Compiling: ${args.program}`);
       this.sendEvent(new OutputEvent(
-        `Compiling ${path.basename(args.program)}...\n`, 'console',
+        `Waiting for a PureBasic program to connect (PB_DEBUGGER_Communication=${this.communicationString})...\n`,
+        'console',
       ));
-
-      // Store the promise so configurationDoneRequest can wait for it
-      // unified compile inputs coming from host
-      const compileCwd = args.cwd ? path.resolve(args.cwd) : path.dirname(path.resolve(args.program));
-      const outputPath = args.output ? path.resolve(compileCwd, args.output) : undefined;
-
-      this.compilePromise = this.launcher.compile(args.program, {
-        cwd: compileCwd,
-        compilerArgs: args.compilerArgs,
-        outputPath,
-      });
-      this.compileResult = await this.compilePromise;
-      this.log(`Compiled → ${this.compileResult.executablePath}`);
-      this.sendEvent(new OutputEvent('Compilation successful.\n', 'console'));
-
-      this.log('Sending launch response...');
       this.sendResponse(response);
-      this.log('Launch response sent');
-      // VSCode will now send setBreakpoints(…) × N then configurationDone
     } catch (err) {
-      this.log(`Launch failed with error: ${(err as Error).message}`);
+      this.log(`Attach failed with error: ${(err as Error).message}`);
       this.transport?.close();
       this.transport = null;
       this.communicationString = null;
-      this.sendEvent(new OutputEvent(
-        `Launch failed: ${this.safeErrorMessage(err)}\n`, 'stderr',
-      ));
       response.success = false;
       response.message = this.safeErrorMessage(err);
       this.sendResponse(response);
     }
   }
 
+  private resetSession(args: LaunchRequestArguments): void {
+    this.trace = args.trace ?? false;
+    this.secureTrace = args.secureTrace ?? false;
+    this.launchArgs = args;
+    this.attachArgs = null;
+    this.pendingBreakpoints.clear(); // Clear any stale breakpoints from previous sessions
+    this.breakpointOptions.clear();
+    this.functionBreakpoints = [];
+    this.runToTarget = null;
+    this.expectEntryStop = false;
+    this.procedureRangesCache.clear();
+    this.fileNumToPath.clear();
+    this.announcedSources.clear();
+    this.transportKind = 'pipe';
+    this.communicationString = null;
+    this.apiFunctions.load(args.apiFunctionListingPath ?? '');
+
+    // File 0 = main source file (protocol convention)
+    if (args.program) {
+      this.fileNumToPath.set(0, path.resolve(args.program));
+    }
+  }
+
+  private wireTransport(transport: IDebugTransport): void {
+    this.transportKind = transport.kind;
+
+    transport.on('message', (msg: CommandInfo) => this.onMessage(msg));
+    transport.on('error',   (err: Error) => this.log(`Transport(${this.transportKind}) error: ${err.message}`));
+    transport.on('log',     (msg: string) => this.log(`[Transport] ${msg}`));
+    transport.on('traceLog', (msg: string) => { if (this.trace) { this.logInternal(`[Transport] ${msg}`); } });
+    transport.on('end', () => {
+      // A restart replaces the transport; the old one ending is expected
+      if (transport === this.transport && !this.state.isTerminated()) {
+        this.state.transition('terminated');
+        this.sendEvent(new TerminatedEvent());
+      }
+    });
+  }
+
   /**
    * DAP `configurationDone` request.
    * Called after VSCode has sent all setBreakpoints requests.
@@ -255,6 +489,11 @@ export class PBDebugSession extends DebugSession {
     this.log('configurationDoneRequest received');
     this.sendResponse(response);
 
+    if (this.attachArgs) {
+      await this.completeAttach(this.attachArgs);
+      return;
+    }
+
     // launchRequest may still be initializing (compiler auto-detect, pipe setup).
     if (!this.transport || !this.launcher || !this.pipeId) {
       this.log('configurationDoneRequest: launch setup not ready yet, waiting...');
@@ -293,84 +532,126 @@ export class PBDebugSession extends DebugSession {
       return; // launchRequest failed earlier
     }
 
-    try {
-      this.state.transition('launching');
-      this.log(`Launching: ${this.compileResult.executablePath}`);
-      const commString = this.communicationString ?? this.transport.getCommunicationString();
-      this.log(`Communication string: ${commString}`);
-      this.log(`Transport kind: ${this.transportKind}, isConnected: ${this.transport.isConnected}`);
-      
-      const runCwd = this.launchArgs?.runCwd ? path.resolve(this.launchArgs.runCwd) : undefined;
-      const runArgs = this.launchArgs?.runArgs;
-
-      // For FIFO transport, we need to launch first, then connect
-      if (this.transportKind === 'fifo') {
-        this.log('FIFO transport: launching program first, then connecting...');
-        this.debugProc = this.launcher.launch(this.compileResult.executablePath, commString, this.launchArgs?.stopOnEntry, runCwd, runArgs);
-        this.debugProc.on('exit', (code, signal) => this.log(`Debuggee exited (code=${code}, signal=${signal})`));
-        
-        // Log process events
-        this.debugProc.on('error', (err) => this.log(`Debuggee process error: ${err.message}`));
-        if (this.debugProc.stdout) {
-          this.debugProc.stdout.on('data', (data) => this.log(`[Debuggee stdout] ${data.toString().trim()}`));
-        }
-        if (this.debugProc.stderr) {
-          this.debugProc.stderr.on('data', (data) => this.log(`[Debuggee stderr] ${data.toString().trim()}`));
-        }
-        
-        // Wait a bit for program to start and read the connection file
-        this.log('Waiting for program to start...');
-        await new Promise(r => setTimeout(r, 500));
-        
-        // Now connect to FIFOs
-        this.log('Connecting to FIFOs...');
-        await (this.transport as any).connect();
-        this.log('FIFOs connected');
-      } else {
-        // Network/Pipe transport: connect first, then launch
-        this.debugProc = this.launcher.launch(this.compileResult.executablePath, commString, this.launchArgs?.stopOnEntry, runCwd, runArgs);
-        this.debugProc.on('exit', (code, signal) => this.log(`Debuggee exited (code=${code}, signal=${signal})`));
-        
-        // Log process events
-        this.debugProc.on('error', (err) => this.log(`Debuggee process error: ${err.message}`));
-        if (this.debugProc.stdout) {
-          this.debugProc.stdout.on('data', (data) => this.log(`[Debuggee stdout] ${data.toString().trim()}`));
-        }
-        if (this.debugProc.stderr) {
-          this.debugProc.stderr.on('data', (data) => this.log(`[Debuggee stderr] ${data.toString().trim()}`));
-        }
+    await this.runProgram();
+  }
 
-        await this.waitForConnection(15_000);
-      }
-      this.log('Both pipes connected');
+  /**
+   * Start the compiled executable, connect to it and let it run. Ends the
+   * session when that fails.
+   */
+  private async runProgram(): Promise<void> {
+    try {
+      await this.launchProgram();
+    } catch (err) {
+      this.sendEvent(new OutputEvent(
+        `Debugger error: ${(err as Error).message}\n`, 'stderr',
+      ));
+      this.cleanup();
+      this.sendEvent(new TerminatedEvent());
+    }
+  }
 
-      // Consume Init (cmd=0) and ExeMode (cmd=2) — these arrive before any commands
-      await this.performHandshake(5_000);
+  private async launchProgram(): Promise<void> {
+    if (!this.transport || !this.launcher || !this.compileResult) {
+      throw new Error('Program was not compiled');
+    }
 
-      // Send any breakpoints set before the program was ready
-      // Note: On macOS, breakpoints must be sent after handshake but before Run
-      this.flushPendingBreakpoints();
+    this.state.transition('launching');
+    this.log(`Launching: ${this.compileResult.executablePath}`);
+    const commString = this.communicationString ?? this.transport.getCommunicationString();
+    this.log(`Communication string: ${commString}`);
+    this.log(`Transport kind: ${this.transportKind}, isConnected: ${this.transport.isConnected}`);
+    
+    const runCwd = this.launchArgs?.runCwd ? path.resolve(this.launchArgs.runCwd) : undefined;
+    const runArgs = this.launchArgs?.runArgs;
+    const callOnEnd = this.exceptionFilters.has(FILTER_CALL_DEBUGGER_ON_END);
+    // The launcher sets CallDebuggerOnStart unless stopOnEntry is false
+    this.expectEntryStop = this.launchArgs?.stopOnEntry !== false;
+
+    // For FIFO transport, we need to launch first, then connect
+    if (this.transportKind === 'fifo') {
+      this.log('FIFO transport: launching program first, then connecting...');
+      this.debugProc = this.launcher.launch(this.compileResult.executablePath, commString, this.launchArgs?.stopOnEntry, callOnEnd, runCwd, runArgs);
+      this.debugProc.on('exit', (code, signal) => this.log(`Debuggee exited (code=${code}, signal=${signal})`));
       
-      // Wait for breakpoints to be processed
-      this.log('Waiting for breakpoints to be processed...');
+      // Log process events
+      this.debugProc.on('error', (err) => this.log(`Debuggee process error: ${err.message}`));
+      if (this.debugProc.stdout) {
+        this.debugProc.stdout.on('data', (data) => this.log(`[Debuggee stdout] ${data.toString().trim()}`));
+      }
+      if (this.debugProc.stderr) {
+        this.debugProc.stderr.on('data', (data) => this.log(`[Debuggee stderr] ${data.toString().trim()}`));
+      }
+      
+      // Wait a bit for program to start and read the connection file
+      this.log('Waiting for program to start...');
       await new Promise(r => setTimeout(r, 500));
+      
+      // Now connect to FIFOs
+      this.log('Connecting to FIFOs...');
+      await (this.transport as any).connect();
+      this.log('FIFOs connected');
+    } else {
+      // Network/Pipe transport: connect first, then launch
+      this.debugProc = this.launcher.launch(this.compileResult.executablePath, commString, this.launchArgs?.stopOnEntry, callOnEnd, runCwd, runArgs);
+      this.debugProc.on('exit', (code, signal) => this.log(`Debuggee exited (code=${code}, signal=${signal})`));
+      
+      // Log process events
+      this.debugProc.on('error', (err) => this.log(`Debuggee process error: ${err.message}`));
+      if (this.debugProc.stdout) {
+        this.debugProc.stdout.on('data', (data) => this.log(`[Debuggee stdout] ${data.toString().trim()}`));
+      }
+      if (this.debugProc.stderr) {
+        this.debugProc.stderr.on('data', (data) => this.log(`[Debuggee stderr] ${data.toString().trim()}`));
+      }
 
-      // Always send Run; entry stop (Stopped cmd=3, reason=CallDebugger) will
-      // arrive and be handled by onMessage → handleStopped.
-      this.log('Sending Run command...');
-      this.state.transition('running');
-      this.transport.send({ command: PBCommand.Run });
-      this.log('Run command sent');
+      await this.waitForConnection(15_000);
+    }
+    this.log('Both pipes connected');
+    await this.startConnectedProgram();
+  }
 
+  private async completeAttach(args: AttachRequestArguments): Promise<void> {
+    if (!this.transport) return; // attachRequest failed earlier
+
+    try {
+      this.state.transition('launching');
+      await this.waitForConnection(args.timeout ?? DEFAULT_ATTACH_TIMEOUT);
+      this.sendEvent(new OutputEvent('PureBasic program connected.\n', 'console'));
+      await this.startConnectedProgram();
     } catch (err) {
       this.sendEvent(new OutputEvent(
         `Debugger error: ${(err as Error).message}\n`, 'stderr',
       ));
-      this.cleanup();
+      this.cleanup(false);
       this.sendEvent(new TerminatedEvent());
     }
   }
 
+  /**
+   * Handshake with a freshly connected program, send the breakpoints and let
+   * it run.
+   */
+  private async startConnectedProgram(): Promise<void> {
+    // Consume Init (cmd=0) and ExeMode (cmd=2) — these arrive before any commands
+    await this.performHandshake(5_000);
+
+    // Send any breakpoints set before the program was ready
+    // Note: On macOS, breakpoints must be sent after handshake but before Run
+    this.flushPendingBreakpoints();
+
+    // Wait for breakpoints to be processed
+    this.log('Waiting for breakpoints to be processed...');
+    await new Promise(r => setTimeout(r, 500));
+
+    // Always send Run; entry stop (Stopped cmd=3, reason=CallDebugger) will
+    // arrive and be handled by onMessage → handleStopped.
+    this.log('Sending Run command...');
+    this.state.transition('running');
+    this.transport?.send({ command: PBCommand.Run });
+    this.log('Run command sent');
+  }
+
   private async waitForLaunchSetup(timeoutMs: number): Promise<boolean> {
     const deadline = Date.now() + timeoutMs;
     while (Date.now() < deadline) {
@@ -395,11 +676,64 @@ export class PBDebugSession extends DebugSession {
     response: DebugProtocol.DisconnectResponse,
     args: DebugProtocol.DisconnectArguments,
   ): void {
-    const shouldTerminate = args.terminateDebuggee !== false;
+    // Attached programs keep running unless the user asks to terminate them
+    const shouldTerminate = args.terminateDebuggee ?? !this.attachArgs;
+    if (!shouldTerminate && this.state.isStopped()) {
+      try { this.transport?.send({ command: PBCommand.Run }); } catch {}
+    }
     this.cleanup(shouldTerminate);
     this.sendResponse(response);
   }
 
+  /**
+   * DAP `restart` request.
+   * Ends the running program, recompiles and starts it again in the same
+   * session. Breakpoints are kept.
+   */
+  protected async restartRequest(
+    response: DebugProtocol.RestartResponse,
+    args: DebugProtocol.RestartArguments,
+  ): Promise<void> {
+    if (!this.launchArgs || this.attachArgs) {
+      response.success = false;
+      response.message = 'Restart is only supported for launched programs';
+      this.sendResponse(response);
+      return;
+    }
+
+    this.log('restartRequest received');
+    const launchArgs = { ...this.launchArgs, ...(args.arguments as LaunchRequestArguments | undefined) };
+    this.cleanup();
+
+    this.launchArgs = launchArgs;
+    this.compileResult = null;
+    this.compilePromise = null;
+    this.expectEntryStop = false;
+    this.runToTarget = null;
+    this.lastException = null;
+    this.procedureRangesCache.clear();
+    this.fileNumToPath.clear();
+    this.fileNumToPath.set(0, path.resolve(launchArgs.program));
+    for (const options of [...this.breakpointOptions.values()].flatMap((byLine) => [...byLine.values()])) {
+      options.hits = 0;
+    }
+
+    try {
+      await this.prepareLaunch(launchArgs);
+    } catch (err) {
+      this.log(`Restart failed with error: ${(err as Error).message}`);
+      this.cleanup();
+      response.success = false;
+      response.message = this.safeErrorMessage(err);
+      this.sendResponse(response);
+      this.sendEvent(new TerminatedEvent());
+      return;
+    }
+
+    this.sendResponse(response);
+    await this.runProgram();
+  }
+
   // -------------------------------------------------------------------------
   // Breakpoints
   // -------------------------------------------------------------------------
@@ -410,7 +744,12 @@ export class PBDebugSession extends DebugSession {
   ): void {
     this.log(`setBreakPointsRequest received: ${args.source.path}`);
     const filePath = args.source.path ?? '';
-    const lines    = (args.breakpoints ?? []).map((bp) => bp.line);
+    // A breakpoint whose hit condition cannot be parsed is not set at all
+    const isValid = (bp: DebugProtocol.SourceBreakpoint) =>
+      !bp.hitCondition || matchesHitCondition(bp.hitCondition, 0) !== undefined;
+    const valid    = (args.breakpoints ?? []).filter(isValid);
+    const lines    = valid.map((bp) => bp.line);
+    this.storeBreakpointOptions(filePath, valid);
 
     // Always store (for flush after connection)
     this.pendingBreakpoints.set(filePath, lines);
@@ -421,7 +760,173 @@ export class PBDebugSession extends DebugSession {
     }
 
     response.body = {
-      breakpoints: lines.map((line) => new Breakpoint(true, line)),
+      breakpoints: (args.breakpoints ?? []).map((bp) => {
+        const breakpoint: DebugProtocol.Breakpoint = new Breakpoint(isValid(bp), bp.line);
+        if (!breakpoint.verified) {
+          breakpoint.message = `Invalid hit condition '${bp.hitCondition}': use n, >=n, ==n, >n, <n, <=n or %n`;
+        }
+        return breakpoint;
+      }),
+    };
+    this.sendResponse(response);
+  }
+
+  private storeBreakpointOptions(filePath: string, breakpoints: DebugProtocol.SourceBreakpoint[]): void {
+    const key = this.normalizePath(filePath);
+    const previous = this.breakpointOptions.get(key);
+    const options = new Map<number, BreakpointOptions>();
+
+    for (const bp of breakpoints) {
+      if (!bp.condition && !bp.hitCondition && !bp.logMessage) continue;
+      // Keep counting hits of a breakpoint that was re-sent unchanged
+      const old = previous?.get(bp.line);
+      const unchanged = old !== undefined && old.condition === bp.condition && old.hitCondition === bp.hitCondition;
+      options.set(bp.line, {
+        condition: bp.condition,
+        hitCondition: bp.hitCondition,
+        logMessage: bp.logMessage,
+        hits: unchanged ? old.hits : 0,
+      });
+    }
+
+    if (options.size > 0) {
+      this.breakpointOptions.set(key, options);
+    } else {
+      this.breakpointOptions.delete(key);
+    }
+  }
+
+  protected setFunctionBreakPointsRequest(
+    response: DebugProtocol.SetFunctionBreakpointsResponse,
+    args: DebugProtocol.SetFunctionBreakpointsArguments,
+  ): void {
+    const previousPaths = this.functionBreakpoints.map((bp) => bp.path);
+    this.functionBreakpoints = args.breakpoints.map((bp) => ({ id: this.nextBreakpointId++, name: bp.name.trim() }));
+    for (const bp of this.functionBreakpoints) {
+      this.resolveFunctionBreakpoint(bp);
+    }
+
+    if (this.transport?.isConnected && this.state.canSendCommand()) {
+      this.resendBreakpoints([...previousPaths, ...this.functionBreakpoints.map((bp) => bp.path)]);
+    }
+
+    response.body = { breakpoints: this.functionBreakpoints.map((bp) => this.toFunctionBreakpoint(bp)) };
+    this.sendResponse(response);
+  }
+
+  /**
+   * Find the procedure in the files of the program (only the main file until
+   * the Init message listed the included files).
+   */
+  private resolveFunctionBreakpoint(bp: FunctionBreakpoint): void {
+    const match = /^(?:([A-Za-z_]\w*)::)?([A-Za-z_]\w*)\s*(?:\(\s*\))?$/.exec(bp.name);
+    bp.path = undefined;
+    bp.line = undefined;
+    if (!match) return;
+    const moduleName = match[1]?.toLowerCase();
+    const procName = match[2].toLowerCase();
+
+    for (const sourcePath of new Set(this.fileNumToPath.values())) {
+      let ranges: ProcedureRange[];
+      try {
+        ranges = this.getProcedureRanges(sourcePath);
+      } catch (err) {
+        this.log(`resolveFunctionBreakpoint: cannot read ${sourcePath} - ${(err as Error).message}`);
+        continue;
+      }
+      const range = ranges.find((r) => r.name.toLowerCase() === procName
+        && (!moduleName || r.moduleName?.toLowerCase() === moduleName));
+      if (range) {
+        bp.path = sourcePath;
+        bp.line = this.firstExecutableLine(sourcePath, range);
+        return;
+      }
+    }
+  }
+
+  /**
+   * First line of a procedure body that produces code: skips blank lines,
+   * comments and declarations without an assignment. Falls back to the
+   * EndProcedure line for empty procedures.
+   */
+  private firstExecutableLine(sourcePath: string, range: ProcedureRange): number {
+    const lines = fs.readFileSync(path.resolve(sourcePath), 'utf8').split(/\r?\n/);
+    const declaration = /^(?:Protected|Shared|Static|Define|Global|NewList|NewMap|Dim)\b/i;
+    for (let line1 = range.start + 1; line1 < range.end; line1++) {
+      const code = (lines[line1 - 1] ?? '').replace(/;.*$/, '').trim();
+      if (!code) continue;
+      if (declaration.test(code) && !code.includes('=')) continue;
+      return line1;
+    }
+    return range.end;
+  }
+
+  private toFunctionBreakpoint(bp: FunctionBreakpoint): DebugProtocol.Breakpoint {
+    const breakpoint: DebugProtocol.Breakpoint = bp.path
+      ? new Breakpoint(true, bp.line, undefined, new Source(path.basename(bp.path), bp.path))
+      : new Breakpoint(false);
+    breakpoint.id = bp.id;
+    if (!bp.path) {
+      breakpoint.message = `Procedure ${bp.name} not found`;
+    }
+    return breakpoint;
+  }
+
+  private functionBreakpointLines(filePath: string): number[] {
+    const key = this.normalizePath(filePath);
+    return this.functionBreakpoints
+      .filter((bp) => bp.path && bp.line && this.normalizePath(bp.path) === key)
+      .map((bp) => bp.line!);
+  }
+
+  /**
+   * Send the line and function breakpoints of the given files again.
+   */
+  private resendBreakpoints(filePaths: Array<string | undefined>): void {
+    const keys = new Set(filePaths.filter((p): p is string => !!p).map((p) => this.normalizePath(p)));
+    for (const key of keys) {
+      const entry = [...this.pendingBreakpoints].find(([filePath]) => this.normalizePath(filePath) === key);
+      this.sendBreakpointsForFile(entry?.[0] ?? key, entry?.[1] ?? []);
+    }
+  }
+
+  protected loadedSourcesRequest(
+    response: DebugProtocol.LoadedSourcesResponse,
+    _args: DebugProtocol.LoadedSourcesArguments,
+  ): void {
+    response.body = { sources: this.getLoadedSources() };
+    this.sendResponse(response);
+  }
+
+  protected setExceptionBreakPointsRequest(
+    response: DebugProtocol.SetExceptionBreakpointsResponse,
+    args: DebugProtocol.SetExceptionBreakpointsArguments,
+  ): void {
+    this.exceptionFilters = new Set(args.filters);
+    this.sendResponse(response);
+  }
+
+  protected exceptionInfoRequest(
+    response: DebugProtocol.ExceptionInfoResponse,
+    _args: DebugProtocol.ExceptionInfoArguments,
+  ): void {
+    const exception = this.lastException;
+    if (!exception) {
+      response.success = false;
+      response.message = 'No exception at the current stop';
+      this.sendResponse(response);
+      return;
+    }
+
+    const sourcePath = this.fileNumToPath.get(exception.fileNum) ?? '';
+    response.body = {
+      exceptionId: exception.exceptionId,
+      description: exception.description,
+      breakMode: 'always',
+      details: {
+        message: exception.description,
+        stackTrace: sourcePath ? `at ${sourcePath}:${exception.line}` : undefined,
+      },
     };
     this.sendResponse(response);
   }
@@ -451,31 +956,102 @@ export class PBDebugSession extends DebugSession {
 
   protected nextRequest(
     response: DebugProtocol.NextResponse,
-    _args: DebugProtocol.NextArguments,
+    args: DebugProtocol.NextArguments,
   ): void {
-    this.state.transition('running');
-    this.transport?.send({ command: PBCommand.Step, value2: StepType.Over });
-    this.sendResponse(response);
+    this.step(response, StepType.Over, args.granularity);
   }
 
   protected stepInRequest(
     response: DebugProtocol.StepInResponse,
-    _args: DebugProtocol.StepInArguments,
+    args: DebugProtocol.StepInArguments,
   ): void {
-    this.state.transition('running');
-    this.transport?.send({ command: PBCommand.Step, value2: StepType.Into });
-    this.sendResponse(response);
+    this.step(response, StepType.Into, args.granularity);
   }
 
   protected stepOutRequest(
     response: DebugProtocol.StepOutResponse,
-    _args: DebugProtocol.StepOutArguments,
+    args: DebugProtocol.StepOutArguments,
   ): void {
+    this.step(response, StepType.Out, args.granularity);
+  }
+
+  /**
+   * The PureBasic debugger steps by source line; a statement is stepped the
+   * same way. Stepping by instruction is not possible.
+   */
+  private step(
+    response: DebugProtocol.Response,
+    stepType: StepType,
+    granularity: DebugProtocol.SteppingGranularity | undefined,
+  ): void {
+    if (granularity === 'instruction') {
+      response.success = false;
+      response.message = 'The PureBasic debugger cannot step by instruction';
+      this.sendResponse(response);
+      return;
+    }
+
     this.state.transition('running');
-    this.transport?.send({ command: PBCommand.Step, value2: StepType.Out });
+    this.transport?.send({ command: PBCommand.Step, value2: stepType });
     this.sendResponse(response);
   }
 
+  /**
+   * Custom requests of the extension. `runToLine` ({ source, line }) is the
+   * "Run to Cursor" command.
+   */
+  protected customRequest(command: string, response: DebugProtocol.Response, args: any): void {
+    if (command === 'runToLine') {
+      this.runToLine(response, args as RunToLineArguments);
+      return;
+    }
+    super.customRequest(command, response, args);
+  }
+
+  /**
+   * Run to a line: the PureBasic debugger has no command to move the current
+   * statement, so a temporary breakpoint is set there and the program
+   * continues. It is removed again at the next stop.
+   */
+  private runToLine(response: DebugProtocol.Response, args: RunToLineArguments): void {
+    const fileNum = this.resolveFileNum(args.source?.path ?? '');
+    const filePath = fileNum === undefined ? undefined : this.fileNumToPath.get(fileNum);
+    if (!filePath || !(args.line > 0) || !this.transport?.isConnected || !this.state.isStopped()) {
+      response.success = false;
+      response.message = 'Cannot run to this line';
+      this.sendResponse(response);
+      return;
+    }
+
+    this.runToTarget = { filePath, line: args.line };
+    this.resendBreakpoints([filePath]);
+
+    this.state.transition('running');
+    this.transport.send({ command: PBCommand.Run });
+    this.sendResponse(response);
+    this.sendEvent(new ContinuedEvent(THREAD_ID, true));
+  }
+
+  private isRunToTarget(fileNum: number, line1: number): boolean {
+    return !!this.runToTarget
+      && this.runToTarget.line === line1
+      && this.normalizePath(this.runToTarget.filePath) === this.normalizePath(this.fileNumToPath.get(fileNum) ?? '');
+  }
+
+  /**
+   * Remove the temporary breakpoint of a "run to line". Returns true when the
+   * program stopped on it.
+   */
+  private clearRunToTarget(fileNum: number, line1: number): boolean {
+    const target = this.runToTarget;
+    if (!target) return false;
+
+    const reached = this.isRunToTarget(fileNum, line1);
+    this.runToTarget = null;
+    this.resendBreakpoints([target.filePath]);
+    return reached;
+  }
+
   // -------------------------------------------------------------------------
   // Threads
   // -------------------------------------------------------------------------
@@ -515,6 +1091,7 @@ export class PBDebugSession extends DebugSession {
       const currentSourcePath = this.fileNumToPath.get(currentFileNum) ?? sourcePath;
       const currentFrameName = this.inferFrameName(currentSourcePath, currentLine);
 
+      this.frameLines = [makeDebuggerLine(currentFileNum, currentLine - 1)];
       const stackFrames: StackFrame[] = [
         new StackFrame(
           0,
@@ -534,6 +1111,7 @@ export class PBDebugSession extends DebugSession {
         const historyName = this.parseHistoryProcedureName(frame.procedureName);
         const frameName = this.buildStackFrameName(inferredName, historyName);
         this.log(`Frame ${i + 1}: ${frameName} at ${frameSourcePath}:${line1} (${frame.procedureName})`);
+        this.frameLines.push(frame.packedLine);
         stackFrames.push(new StackFrame(
           i + 1,
           frameName,
@@ -607,8 +1185,13 @@ export class PBDebugSession extends DebugSession {
         this.log(`Fetching locals for frame ${this.activeFrameId}...`);
         variables = await this.fetchLocals(this.activeFrameId);
         this.log(`Fetched ${variables.length} locals`);
+      } else {
+        const container = this.variableHandles.get(args.variablesReference);
+        if (container) {
+          variables = await this.fetchStructureMembers(container.expression, container.scope);
+          this.log(`Fetched ${variables.length} members of ${container.expression}`);
+        }
       }
-
       response.body = { variables };
     } catch (err) {
       this.log(`variablesRequest error: ${err}`);
@@ -626,19 +1209,21 @@ export class PBDebugSession extends DebugSession {
     response: DebugProtocol.EvaluateResponse,
     args: DebugProtocol.EvaluateArguments,
   ): Promise<void> {
+    if (args.context === 'watch') {
+      response.body = await this.evaluateWatch(this.normalizeExpression(args.expression), args.frameId);
+      this.sendResponse(response);
+      return;
+    }
+
     try {
       const expression = this.normalizeExpression(args.expression);
-      const exprBuf = this.encodeExpression(expression);
-      const contextLine = makeDebuggerLine(this.stoppedFileNum, Math.max(0, this.stoppedLine - 1));
-      const resultMsg = await this.sendAndWait(
-        PBCommand.EvaluateExpressionWithStruct,
-        PBEvent.Expression,
-        { value1: SCIN_REQUESTOR, value2: contextLine, data: exprBuf },
-        3_000,
-      );
+      const scope = args.frameId ?? 0;
+      const resultMsg = await this.evaluateExpression(expression, scope);
       response.body = {
         result: this.parseExpressionResult(resultMsg),
-        variablesReference: 0,
+        variablesReference: resultMsg.value2 === 5
+          ? this.variableHandles.create({ expression, scope })
+          : 0,
       };
     } catch (err) {
       this.log(`evaluateRequest error: ${err}`);
@@ -647,6 +1232,147 @@ export class PBDebugSession extends DebugSession {
     this.sendResponse(response);
   }
 
+  /**
+   * Evaluate a watch expression. Results are kept until the next stop, so the
+   * Watch view and repeated requests for the same expression cost one round trip.
+   */
+  private evaluateWatch(expression: string, frameId = 0): Promise<WatchResult> {
+    const key = `${frameId}:${expression}`;
+    let result = this.watchResults.get(key);
+    if (!result) {
+      result = this.computeWatch(expression, frameId);
+      this.watchResults.set(key, result);
+    }
+    return result;
+  }
+
+  private async computeWatch(expression: string, frameId: number): Promise<WatchResult> {
+    let msg: CommandInfo;
+    try {
+      msg = await this.evaluateExpression(expression, frameId);
+      if (msg.value2 !== 0) {
+        return this.toWatchResult(expression, frameId, msg);
+      }
+    } catch (err) {
+      this.log(`Watch ${expression} failed: ${(err as Error).message}`);
+      return { result: '<not available>', variablesReference: 0, presentationHint: { attributes: ['failedEvaluation'] } };
+    }
+
+    // Arrays, lists and maps cannot be evaluated as a whole: show the variable instead
+    const variable = await this.findVariable(expression, frameId).catch(() => undefined);
+    if (variable) {
+      return {
+        result: variable.value,
+        type: variable.type,
+        variablesReference: variable.variablesReference,
+      };
+    }
+
+    const message = msg.data.toString('utf8').replace(/\0/g, '').trim();
+    this.log(`Watch ${expression}: ${message}`);
+    return {
+      result: UNKNOWN_NAME_ERROR.test(message)
+        ? '<not in scope>'
+        : `<error: ${message || 'evaluation failed'}>`,
+      variablesReference: 0,
+      presentationHint: { attributes: ['failedEvaluation'] },
+    };
+  }
+
+  private toWatchResult(expression: string, frameId: number, msg: CommandInfo): WatchResult {
+    if (msg.value2 === 5) {
+      return {
+        result: '<structure>',
+        type: 'Structure',
+        variablesReference: this.variableHandles.create({ expression, scope: frameId }),
+      };
+    }
+
+    const { value } = this.readExpressionValue(msg);
+    switch (msg.value2) {
+      case 2:
+        return { result: value, type: 'Integer', variablesReference: 0 };
+      case 3:
+        return { result: value, type: 'Double', variablesReference: 0 };
+      case 4:
+        return { result: `"${value}"`, type: 'String', variablesReference: 0 };
+      default:
+        return { result: value, variablesReference: 0 };
+    }
+  }
+
+  /**
+   * Look up a variable of frame `frameId` or a global by name, as listed in
+   * the Variables view. `Name()` finds the array, list or map `Name`.
+   */
+  private async findVariable(expression: string, frameId = this.activeFrameId): Promise<DebugProtocol.Variable | undefined> {
+    const name = expression.replace(/\(\)$/, '').toLowerCase();
+    const matches = (variable: DebugProtocol.Variable) =>
+      variable.name.replace(/\(\)$/, '').toLowerCase() === name;
+
+    return (await this.fetchLocals(frameId)).find(matches)
+      ?? (await this.fetchGlobals()).find(matches);
+  }
+
+  /**
+   * Evaluate `expression` in `scope`: at the line of that stack frame, or in
+   * main code for GLOBAL_SCOPE. Defaults to the stop position.
+   */
+  private evaluateExpression(expression: string, scope = 0): Promise<CommandInfo> {
+    return this.sendAndWait(
+      PBCommand.EvaluateExpressionWithStruct,
+      PBEvent.Expression,
+      { value1: SCIN_REQUESTOR, value2: this.contextLine(scope), data: this.encodeExpression(expression) },
+      3_000,
+    );
+  }
+
+  /**
+   * Packed line expressions of `scope` are evaluated at: the line of that
+   * stack frame, the outermost frame (main code) for GLOBAL_SCOPE, and the
+   * stop position while the stack trace is not known.
+   */
+  private contextLine(scope: number): number {
+    const stopLine = makeDebuggerLine(this.stoppedFileNum, Math.max(0, this.stoppedLine - 1));
+    if (scope === GLOBAL_SCOPE) {
+      return this.frameLines[this.frameLines.length - 1] ?? stopLine;
+    }
+    return this.frameLines[scope] ?? stopLine;
+  }
+
+  private typeKey(scope: number, expression: string): string {
+    return `${scope}:${expression}`;
+  }
+
+  /**
+   * The bare value of an expression result, without the `name = ` prefix.
+   * Throws with the debuggee's message for errors (result type 0).
+   */
+  private readExpressionValue(msg: CommandInfo): { value: string; truthy: boolean } {
+    switch (msg.value2) {
+      case 0:
+        throw new Error(msg.data.toString('utf8').replace(/\0/g, '').trim() || 'evaluation failed');
+      case 2: {
+        if (msg.data.length < 8) throw new Error('invalid expression result');
+        const value = msg.data.readBigInt64LE(0);
+        return { value: value.toString(), truthy: value !== 0n };
+      }
+      case 3: {
+        if (msg.data.length < 8) throw new Error('invalid expression result');
+        const value = msg.data.readDoubleLE(0);
+        return { value: value.toString(), truthy: value !== 0 };
+      }
+      case 4: {
+        const value = this.readPBString(msg.data, 0).value;
+        return { value, truthy: value !== '' };
+      }
+      default: {
+        const value = this.parseExpressionResult(msg);
+        return { value, truthy: value !== '' };
+      }
+    }
+  }
+
   private normalizeExpression(expression: string): string {
     return (expression ?? '')
       .replace(/^\uFEFF/, '')
@@ -662,28 +1388,7 @@ export class PBDebugSession extends DebugSession {
   }
 
   private readPBString(data: Buffer, offset: number): { value: string; nextOffset: number } {
-    if (offset >= data.length) {
-      return { value: '', nextOffset: offset };
-    }
-
-    if (this.isUnicode) {
-      let end = offset;
-      while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) {
-        end += 2;
-      }
-      const value = data.slice(offset, end).toString('utf16le');
-      const nextOffset = end + 2 <= data.length ? end + 2 : data.length;
-      return { value, nextOffset };
-    }
-
-    const end = data.indexOf(0, offset);
-    if (end === -1) {
-      return { value: data.slice(offset).toString('utf8'), nextOffset: data.length };
-    }
-    return {
-      value: data.slice(offset, end).toString('utf8'),
-      nextOffset: end + 1,
-    };
+    return readPBString(data, offset, this.isUnicode);
   }
 
   private parseExpressionResult(msg: CommandInfo): string {
@@ -716,6 +1421,115 @@ export class PBDebugSession extends DebugSession {
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Debug Console completions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Complete the name before the cursor in the Debug Console: variables of the
+   * current frame and globals (with the fields of structures), built-in
+   * functions and native API functions. After `Name\` the fields of `Name`
+   * are offered. PureBasic names are case-insensitive, so is the matching.
+   */
+  protected async completionsRequest(
+    response: DebugProtocol.CompletionsResponse,
+    args: DebugProtocol.CompletionsArguments,
+  ): Promise<void> {
+    const lines = args.text.split(/\r?\n/);
+    const lineText = lines[args.line !== undefined ? this.convertClientLineToDebugger(args.line) - 1 : 0] ?? '';
+    const column = this.convertClientColumnToDebugger(args.column);
+    const word = /\*?[A-Za-z_]\w*\$?(?:\\\w*\$?)*$/.exec(lineText.slice(0, column - 1))?.[0] ?? '';
+
+    const separator = word.lastIndexOf('\\');
+    const partial = word.slice(separator + 1);
+    let targets: DebugProtocol.CompletionItem[] = [];
+    try {
+      targets = separator >= 0
+        ? await this.completeFields(word.slice(0, separator), partial)
+        : partial ? await this.completeNames(partial) : [];
+    } catch (err) {
+      this.log(`completionsRequest error: ${err}`);
+    }
+
+    // Replace the typed part of the name
+    const start = this.convertDebuggerColumnToClient(column - partial.length);
+    response.body = {
+      targets: targets.slice(0, MAX_COMPLETIONS).map((target) => ({ ...target, start, length: partial.length })),
+    };
+    this.sendResponse(response);
+  }
+
+  private async completeNames(prefix: string): Promise<DebugProtocol.CompletionItem[]> {
+    const matches = (name: string) => name.toLowerCase().startsWith(prefix.toLowerCase());
+    const items: DebugProtocol.CompletionItem[] = [];
+
+    if (this.transport?.isConnected && this.state.isStopped()) {
+      this.completionVariables ??= Promise.all([this.fetchLocals(this.activeFrameId), this.fetchGlobals()])
+        .then(([locals, globals]) => [...locals, ...globals]);
+      const seen = new Set<string>();
+      for (const variable of await this.completionVariables) {
+        // Locals hide globals of the same name
+        const key = variable.name.toLowerCase();
+        if (seen.has(key) || !matches(variable.name)) continue;
+        seen.add(key);
+
+        items.push({ label: variable.name, type: 'variable', detail: variable.type });
+        const scope = this.visibleScope(variable.name);
+        if (this.isStructureVariable(variable.name, scope)) {
+          for (const field of await this.structureFields(variable.name, scope)) {
+            items.push({ label: `${variable.name}\\${field.name}`, type: 'field', detail: field.type });
+          }
+        }
+        if (items.length >= MAX_COMPLETIONS) return items;
+      }
+    }
+
+    for (const name of allBuiltinNames()) {
+      if (matches(name)) {
+        items.push({ label: name, type: 'function', detail: findBuiltin(name)?.signature });
+      }
+    }
+    for (const entry of this.apiFunctions.matchPrefix(prefix, MAX_COMPLETIONS)) {
+      items.push({ label: entry.pbName, type: 'function', detail: entry.signature });
+    }
+    return items;
+  }
+
+  /** Fields of the structure `expression` whose name starts with `prefix`. */
+  private async completeFields(expression: string, prefix: string): Promise<DebugProtocol.CompletionItem[]> {
+    if (!this.transport?.isConnected || !this.state.isStopped()) return [];
+
+    const scope = this.visibleScope(expression.split('\\')[0]);
+    return (await this.structureFields(expression, scope))
+      .filter((field) => field.name.toLowerCase().startsWith(prefix.toLowerCase()))
+      .map((field) => ({ label: field.name, type: 'field', detail: field.type }));
+  }
+
+  /** Fields of a structure, fetched once per stop. */
+  private structureFields(expression: string, scope: number): Promise<DebugProtocol.Variable[]> {
+    const key = this.typeKey(scope, expression);
+    let fields = this.completionFields.get(key);
+    if (!fields) {
+      fields = this.fetchStructureMembers(expression, scope);
+      this.completionFields.set(key, fields);
+      // Try again on the next keystroke
+      fields.catch(() => this.completionFields.delete(key));
+    }
+    return fields;
+  }
+
+  /** The scope `name` refers to in the active frame: its local, else the global. */
+  private visibleScope(name: string): number {
+    return this.variableTypes.has(this.typeKey(this.activeFrameId, name)) ? this.activeFrameId : GLOBAL_SCOPE;
+  }
+
+  private isStructureVariable(name: string, scope: number): boolean {
+    const rawType = this.variableTypes.get(this.typeKey(scope, name));
+    return rawType !== undefined
+      && (rawType & PB_POINTER_MASK) === 0
+      && (rawType & PB_TYPE_MASK) === PBRawType.Structure;
+  }
+
   // -------------------------------------------------------------------------
   // Internal: message dispatch
   // -------------------------------------------------------------------------
@@ -784,29 +1598,64 @@ export class PBDebugSession extends DebugSession {
     this.stoppedFileNum = fileNum;
     this.stoppedLine    = line1;
     this.state.transition('stopped');
+    this.resetVariables();
+    this.lastException = null;
 
     const reason = msg.value2;
 
-    // The very first stop with CallDebugger reason is the entry stop from
-    // CallDebuggerOnStart=1 in PB_DEBUGGER_Options.
-    if (reason === StopReason.CallDebugger && !this.firstStopSeen) {
-      this.firstStopSeen = true;
-      if (this.launchArgs?.stopOnEntry === false) {
-        // User wants to run past entry; auto-continue
-        this.state.transition('running');
-        this.transport?.send({ command: PBCommand.Run });
+    // The first stop with CallDebugger reason is the entry stop from
+    // CallDebuggerOnStart=1 in PB_DEBUGGER_Options, when the adapter set it.
+    if (reason === StopReason.CallDebugger && this.expectEntryStop) {
+      this.expectEntryStop = false;
+      this.sendEvent(new StoppedEvent('entry', THREAD_ID));
+      return;
+    }
+
+    const options = reason === StopReason.Breakpoint
+      ? this.breakpointOptions.get(this.normalizePath(this.fileNumToPath.get(fileNum) ?? ''))?.get(line1)
+      : undefined;
+
+    // A conditional breakpoint may resume right away: keep running to the target then
+    if (!options || this.isRunToTarget(fileNum, line1)) {
+      if (this.clearRunToTarget(fileNum, line1) && reason === StopReason.Breakpoint) {
+        this.sendEvent(new StoppedEvent('step', THREAD_ID));
         return;
       }
-      this.sendEvent(new StoppedEvent('entry', THREAD_ID));
+    }
+
+    if (reason === StopReason.Breakpoint) {
+      if (options) {
+        this.handleBreakpointOptions(options).catch((err) => {
+          this.log(`Breakpoint condition handling failed: ${err}`);
+          this.sendEvent(new StoppedEvent('breakpoint', THREAD_ID));
+        });
+        return;
+      }
+    }
+
+    if (reason === StopReason.CallDebugger || reason === StopReason.BeforeEnd) {
+      const isEnd = reason === StopReason.BeforeEnd;
+      if (!this.exceptionFilters.has(isEnd ? FILTER_CALL_DEBUGGER_ON_END : FILTER_CALL_DEBUGGER)) {
+        this.resumeAfterStop();
+        return;
+      }
+      this.lastException = {
+        exceptionId: isEnd ? 'CallDebuggerOnEnd' : 'CallDebugger',
+        description: isEnd ? 'The program is about to end' : 'CallDebugger statement reached',
+        fileNum,
+        line: line1,
+      };
+      this.sendEvent(new StoppedEvent('exception', THREAD_ID, this.lastException.exceptionId));
       return;
     }
 
     // Map stop reason to DAP reason string
     let dapReason: string;
     switch (reason) {
-      case StopReason.Breakpoint:   dapReason = 'breakpoint'; break;
+      case StopReason.Breakpoint:
+        dapReason = this.isFunctionBreakpointStop(fileNum, line1) ? 'function breakpoint' : 'breakpoint';
+        break;
       case StopReason.UserStop:     dapReason = 'pause';      break;
-      case StopReason.BeforeEnd:    dapReason = 'entry';      break;
       case StopReason.StepComplete: dapReason = 'step';       break;
       default:                      dapReason = 'step';       break;
     }
@@ -814,6 +1663,76 @@ export class PBDebugSession extends DebugSession {
     this.sendEvent(new StoppedEvent(dapReason, THREAD_ID));
   }
 
+  /**
+   * Decide whether a breakpoint stop with a condition, hit condition or log
+   * message is reported to the client or the program is resumed right away.
+   */
+  private async handleBreakpointOptions(options: BreakpointOptions): Promise<void> {
+    if (options.condition) {
+      try {
+        const result = this.readExpressionValue(await this.evaluateExpression(options.condition));
+        if (!result.truthy) {
+          this.resumeAfterStop();
+          return;
+        }
+      } catch (err) {
+        // Stop, so the user notices the broken condition
+        this.sendEvent(new OutputEvent(
+          `Breakpoint condition '${options.condition}' failed: ${(err as Error).message}\n`, 'stderr',
+        ));
+        this.sendEvent(new StoppedEvent('breakpoint', THREAD_ID));
+        return;
+      }
+    }
+
+    options.hits++;
+    if (options.hitCondition && matchesHitCondition(options.hitCondition, options.hits) === false) {
+      this.resumeAfterStop();
+      return;
+    }
+
+    if (options.logMessage !== undefined) {
+      this.sendEvent(new OutputEvent(`${await this.interpolateLogMessage(options.logMessage)}\n`, 'console'));
+      this.resumeAfterStop();
+      return;
+    }
+
+    this.sendEvent(new StoppedEvent('breakpoint', THREAD_ID));
+  }
+
+  /**
+   * Replace each `{expression}` of a logpoint message with its value.
+   */
+  private async interpolateLogMessage(message: string): Promise<string> {
+    let result = '';
+    let last = 0;
+    for (const match of message.matchAll(/\{([^{}]+)\}/g)) {
+      result += message.slice(last, match.index);
+      last = (match.index ?? 0) + match[0].length;
+      try {
+        result += this.readExpressionValue(await this.evaluateExpression(match[1].trim())).value;
+      } catch (err) {
+        result += `<${(err as Error).message}>`;
+      }
+    }
+    return result + message.slice(last);
+  }
+
+  private resumeAfterStop(): void {
+    if (this.state.isTerminated()) return;
+    this.state.transition('running');
+    this.transport?.send({ command: PBCommand.Run });
+  }
+
+  /** True when only a function breakpoint (no line breakpoint) is at the location. */
+  private isFunctionBreakpointStop(fileNum: number, line1: number): boolean {
+    const sourcePath = this.fileNumToPath.get(fileNum);
+    if (!sourcePath || !this.functionBreakpointLines(sourcePath).includes(line1)) return false;
+    const key = this.normalizePath(sourcePath);
+    return ![...this.pendingBreakpoints].some(([filePath, lines]) =>
+      this.normalizePath(filePath) === key && lines.includes(line1));
+  }
+
   private handleEnd(msg: CommandInfo): void {
     const exitCode = msg.value1;
     this.sendEvent(new OutputEvent(`Program exited (code ${exitCode})\n`, 'console'));
@@ -823,13 +1742,36 @@ export class PBDebugSession extends DebugSession {
     this.cleanup(false);
   }
 
+  /**
+   * Runtime error: Value1 holds the faulting line (packed like in Stopped),
+   * Data the UTF-16LE error description.
+   */
   private handlePBError(msg: CommandInfo): void {
     const text = msg.data.length > 0
       ? msg.data.toString('utf16le').replace(/\0/g, '')
       : 'Runtime error';
-    this.sendEvent(new OutputEvent(`Runtime error: ${text}\n`, 'stderr'));
+    const isPurifier = PURIFIER_ERROR.test(text);
+    this.sendEvent(new OutputEvent(`${isPurifier ? 'Purifier' : 'Runtime error'}: ${text}\n`, 'stderr'));
+
+    if (!this.exceptionFilters.has(isPurifier ? FILTER_PURIFIER : FILTER_RUNTIME_ERRORS)) {
+      this.resumeAfterStop();
+      return;
+    }
+
+    const fileNum = debuggerLineFile(msg.value1);
+    const line1 = debuggerLineRow0(msg.value1) + 1;
+    this.stoppedFileNum = fileNum;
+    this.stoppedLine    = line1;
     this.state.transition('stopped');
-    this.sendEvent(new StoppedEvent('exception', THREAD_ID));
+    this.resetVariables();
+    this.clearRunToTarget(fileNum, line1);
+    this.lastException = {
+      exceptionId: isPurifier ? 'PurifierError' : 'RuntimeError',
+      description: text,
+      fileNum,
+      line: line1,
+    };
+    this.sendEvent(new StoppedEvent('exception', THREAD_ID, text));
   }
 
   private handleDebugPrint(msg: CommandInfo): void {
@@ -1035,6 +1977,34 @@ export class PBDebugSession extends DebugSession {
     }
 
     this.log(`File map: ${this.fileNumToPath.size} entries`);
+
+    for (const source of this.getLoadedSources()) {
+      const key = this.normalizePath(source.path!);
+      if (!this.announcedSources.has(key)) {
+        this.announcedSources.add(key);
+        this.sendEvent(new LoadedSourceEvent('new', source));
+      }
+    }
+  }
+
+  /**
+   * All source files compiled into the program: the main file and every
+   * included file, wherever it lives.
+   */
+  private getLoadedSources(): Source[] {
+    const sources = new Map<string, Source>();
+    for (const [, filePath] of [...this.fileNumToPath].sort(([a], [b]) => a - b)) {
+      const key = this.normalizePath(filePath);
+      if (filePath && !sources.has(key)) {
+        sources.set(key, new Source(path.basename(filePath), filePath));
+      }
+    }
+    return [...sources.values()];
+  }
+
+  private isLoadedSource(filePath: string): boolean {
+    const key = this.normalizePath(filePath);
+    return [...this.fileNumToPath.values()].some((p) => this.normalizePath(p) === key);
   }
 
   /**
@@ -1145,12 +2115,7 @@ export class PBDebugSession extends DebugSession {
       offset += decoded.bytesRead;
 
       this.log(`fetchGlobals:   ${name} (${decoded.typeName}) = ${this.secureTrace ? decoded.value : '<redacted>'}`);
-      result.push({
-        name,
-        value: decoded.value,
-        type: decoded.typeName,
-        variablesReference: 0,
-      });
+      result.push(this.toVariable(name, rawType, decoded, GLOBAL_SCOPE));
     }
 
     return result;
@@ -1162,7 +2127,7 @@ export class PBDebugSession extends DebugSession {
       PBCommand.GetLocals, PBEvent.Locals, { value1: procedureIndex }, 3_000,
     );
 
-    let locals = this.parseLocals(localsMsg.data, localsMsg.value2);
+    let locals = this.parseLocals(localsMsg.data, localsMsg.value2, procedureIndex);
     this.log(`fetchLocals: parsed ${locals.length} locals for frame ${procedureIndex}`);
 
     // Frame id from DAP may not always match PB procedure index; fallback to current frame (0).
@@ -1171,14 +2136,14 @@ export class PBDebugSession extends DebugSession {
       const fallbackMsg = await this.sendAndWait(
         PBCommand.GetLocals, PBEvent.Locals, { value1: 0 }, 3_000,
       );
-      locals = this.parseLocals(fallbackMsg.data, fallbackMsg.value2);
+      locals = this.parseLocals(fallbackMsg.data, fallbackMsg.value2, 0);
       this.log(`fetchLocals: fallback parsed ${locals.length} locals`);
     }
 
     return locals;
   }
 
-  private parseLocals(data: Buffer, count: number): DebugProtocol.Variable[] {
+  private parseLocals(data: Buffer, count: number, procedureIndex: number): DebugProtocol.Variable[] {
     const result: DebugProtocol.Variable[] = [];
     let offset = 0;
 
@@ -1205,120 +2170,72 @@ export class PBDebugSession extends DebugSession {
       offset += decoded.bytesRead;
 
       if (!name) continue;
-      result.push({
-        name,
-        type: decoded.typeName,
-        value: decoded.value,
-        variablesReference: 0,
-      });
+      result.push(this.toVariable(name, rawType, decoded, procedureIndex));
     }
 
     return result;
   }
 
-  private decodePBValue(rawType: number, data: Buffer, offset: number): {
-    value: string;
-    typeName: string;
-    bytesRead: number;
-  } {
-    const baseType = rawType & PB_TYPE_MASK;
-    const isPointer = (rawType & PB_POINTER_MASK) !== 0;
-    const intSize = this.is64bit ? 8 : 4;
+  private resetVariables(): void {
+    this.frameLines = [];
+    this.variableHandles.reset();
+    this.variableTypes.clear();
+    this.watchResults.clear();
+    this.completionVariables = null;
+    this.completionFields.clear();
+  }
 
-    const readUtf16Z = (): { text: string; bytes: number } => {
-      let end = offset;
-      while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) end += 2;
-      const bytes = Math.min(data.length - offset, end + 2 - offset);
-      return { text: data.slice(offset, end).toString('utf16le'), bytes };
-    };
+  private decodePBValue(rawType: number, data: Buffer, offset: number): DecodedValue {
+    return decodePBValue(rawType, data, offset, this.is64bit);
+  }
 
-    const readAsciiZ = (): { text: string; bytes: number } => {
-      const end = data.indexOf(0, offset);
-      if (end === -1) {
-        return { text: data.slice(offset).toString('ascii'), bytes: data.length - offset };
-      }
-      return { text: data.slice(offset, end).toString('ascii'), bytes: end + 1 - offset };
+  /**
+   * Build the DAP variable for a Globals / Locals entry. Structures get a
+   * handle so the client can expand them.
+   */
+  private toVariable(name: string, rawType: number, decoded: DecodedValue, scope: number): DebugProtocol.Variable {
+    const variable: DebugProtocol.Variable = {
+      name,
+      type: decoded.typeName,
+      value: decoded.value,
+      evaluateName: name,
+      variablesReference: 0,
     };
-
-    if (isPointer) {
-      if (offset + intSize > data.length) return { value: '<invalid>', typeName: 'Pointer', bytesRead: 0 };
-      const value = this.is64bit
-        ? '0x' + data.readBigUInt64LE(offset).toString(16).toUpperCase()
-        : '0x' + data.readUInt32LE(offset).toString(16).toUpperCase();
-      return { value, typeName: 'Pointer', bytesRead: intSize };
+    this.variableTypes.set(this.typeKey(scope, name), rawType);
+    if ((rawType & PB_POINTER_MASK) === 0 && (rawType & PB_TYPE_MASK) === PBRawType.Structure) {
+      variable.variablesReference = this.variableHandles.create({ expression: name, scope });
     }
+    return variable;
+  }
 
-    if (baseType === 21) {
-      if (offset + intSize > data.length) return { value: '<invalid>', typeName: 'Integer', bytesRead: 0 };
-      const value = this.is64bit
-        ? data.readBigInt64LE(offset).toString()
-        : data.readInt32LE(offset).toString();
-      return { value, typeName: 'Integer', bytesRead: intSize };
-    }
+  private async fetchStructureMembers(expression: string, scope: number): Promise<DebugProtocol.Variable[]> {
+    const msg = await this.evaluateExpression(expression, scope);
+    if (msg.value2 !== 5) return [];
 
-    switch (baseType) {
-      case 1:
-        if (offset + 1 > data.length) return { value: '<invalid>', typeName: 'Byte', bytesRead: 0 };
-        return { value: String(data.readInt8(offset)), typeName: 'Byte', bytesRead: 1 };
-      case 3:
-        if (offset + 2 > data.length) return { value: '<invalid>', typeName: 'Word', bytesRead: 0 };
-        return { value: String(data.readInt16LE(offset)), typeName: 'Word', bytesRead: 2 };
-      case 5:
-        if (offset + 4 > data.length) return { value: '<invalid>', typeName: 'Long', bytesRead: 0 };
-        return { value: String(data.readInt32LE(offset)), typeName: 'Long', bytesRead: 4 };
-      case 7:
-        return { value: '<structure>', typeName: 'Structure', bytesRead: 0 };
-      case 8:
-      case 10: {
-        const s = readUtf16Z();
-        return { value: s.text, typeName: baseType === 8 ? 'String' : 'FixedString', bytesRead: s.bytes };
-      }
-      case 9:
-        if (offset + 4 > data.length) return { value: '<invalid>', typeName: 'Float', bytesRead: 0 };
-        return { value: data.readFloatLE(offset).toString(), typeName: 'Float', bytesRead: 4 };
-      case 11:
-        if (offset + 4 > data.length) return { value: '<invalid>', typeName: 'Character', bytesRead: 0 };
-        return { value: String(data.readInt32LE(offset)), typeName: 'Character', bytesRead: 4 };
-      case 12:
-        if (offset + 8 > data.length) return { value: '<invalid>', typeName: 'Double', bytesRead: 0 };
-        return { value: data.readDoubleLE(offset).toString(), typeName: 'Double', bytesRead: 8 };
-      case 13:
-        if (offset + 8 > data.length) return { value: '<invalid>', typeName: 'Quad', bytesRead: 0 };
-        return { value: data.readBigInt64LE(offset).toString(), typeName: 'Quad', bytesRead: 8 };
-      case 14: {
-        if (offset + intSize * 2 > data.length) return { value: '<invalid>', typeName: 'List', bytesRead: 0 };
-        const size = this.is64bit ? data.readBigInt64LE(offset) : BigInt(data.readInt32LE(offset));
-        const current = this.is64bit ? data.readBigInt64LE(offset + intSize) : BigInt(data.readInt32LE(offset + intSize));
-        return { value: `size=${size} current=${current}`, typeName: 'List', bytesRead: intSize * 2 };
-      }
-      case 15: {
-        const dims = readAsciiZ();
-        return { value: dims.text, typeName: 'Array', bytesRead: dims.bytes };
-      }
-      case 22: {
-        if (offset + intSize + 1 > data.length) return { value: '<invalid>', typeName: 'Map', bytesRead: 0 };
-        const size = this.is64bit ? data.readBigInt64LE(offset) : BigInt(data.readInt32LE(offset));
-        const isCurrent = data.readUInt8(offset + intSize) !== 0;
-        if (!isCurrent) {
-          return { value: `size=${size}`, typeName: 'Map', bytesRead: intSize + 1 };
-        }
-        const current = (() => {
-          const start = offset + intSize + 1;
-          let end = start;
-          while (end + 1 < data.length && !(data[end] === 0 && data[end + 1] === 0)) end += 2;
-          return { text: data.slice(start, end).toString('utf16le'), bytes: end + 2 - start };
-        })();
-        return { value: `size=${size} current=${current.text}`, typeName: 'Map', bytesRead: intSize + 1 + current.bytes };
-      }
-      case 24:
-        if (offset + 1 > data.length) return { value: '<invalid>', typeName: 'Ascii', bytesRead: 0 };
-        return { value: String(data.readInt8(offset)), typeName: 'Ascii', bytesRead: 1 };
-      case 25:
-        if (offset + 2 > data.length) return { value: '<invalid>', typeName: 'Unicode', bytesRead: 0 };
-        return { value: String(data.readInt16LE(offset)), typeName: 'Unicode', bytesRead: 2 };
-      default:
-        return { value: `<type ${baseType}>`, typeName: `Type${baseType}`, bytesRead: 0 };
+    return parseStructureMembers(msg.data, this.is64bit, this.isUnicode)
+      .map((member) => this.toElementVariable(member.label, member, scope, `${expression}\\${member.label}`));
+  }
+
+  private toElementVariable(
+    name: string,
+    element: ParsedElement,
+    scope: number,
+    expression?: string,
+  ): DebugProtocol.Variable {
+    if (expression) {
+      this.variableTypes.set(this.typeKey(scope, expression), element.rawType);
     }
+    const isStructure = (element.rawType & PB_POINTER_MASK) === 0
+      && (element.rawType & PB_TYPE_MASK) === PBRawType.Structure;
+    return {
+      name,
+      type: element.typeName,
+      value: element.value,
+      evaluateName: expression,
+      variablesReference: isStructure && expression
+        ? this.variableHandles.create({ expression, scope })
+        : 0,
+    };
   }
 
   // -------------------------------------------------------------------------
@@ -1331,6 +2248,21 @@ export class PBDebugSession extends DebugSession {
       this.log(`  Sending breakpoints for ${filePath}: lines ${lines.join(', ')}`);
       this.sendBreakpointsForFile(filePath, lines);
     }
+
+    // Included files are known now: look for procedures that were not found before
+    const sentPaths = new Set([...this.pendingBreakpoints.keys()].map((p) => this.normalizePath(p)));
+    for (const bp of this.functionBreakpoints) {
+      const wasResolved = !!bp.path;
+      this.resolveFunctionBreakpoint(bp);
+      if (!wasResolved && bp.path) {
+        this.sendEvent(new BreakpointEvent('changed', this.toFunctionBreakpoint(bp)));
+      }
+    }
+    this.resendBreakpoints(
+      this.functionBreakpoints
+        .map((bp) => bp.path)
+        .filter((p) => p && !sentPaths.has(this.normalizePath(p))),
+    );
   }
 
   private sendBreakpointsForFile(filePath: string, lines: number[]): void {
@@ -1358,6 +2290,10 @@ export class PBDebugSession extends DebugSession {
       this.log(`  Error clearing breakpoints: ${err.message}`);
     }
 
+    lines = [...new Set([...lines, ...this.functionBreakpointLines(filePath)])];
+    if (this.runToTarget && this.normalizePath(this.runToTarget.filePath) === this.normalizePath(filePath)) {
+      lines.push(this.runToTarget.line);
+    }
     this.log(`  Sending ${lines.length} breakpoints`);
 
     // Add the new set
@@ -1466,7 +2402,9 @@ export class PBDebugSession extends DebugSession {
       : process.cwd();
     const absoluteSourcePath = path.resolve(sourcePath);
     const relativeToWorkspace = path.relative(workspaceRoot, absoluteSourcePath);
-    if (relativeToWorkspace.startsWith('..') || path.isAbsolute(relativeToWorkspace)) {
+    const outsideWorkspace = relativeToWorkspace.startsWith('..') || path.isAbsolute(relativeToWorkspace);
+    // Included files outside the workspace are part of the program, too
+    if (outsideWorkspace && !this.isLoadedSource(absoluteSourcePath)) {
       this.log(`Skipping procedure range parse outside workspace: ${absoluteSourcePath}`);
       this.procedureRangesCache.set(key, []);
       return [];
@@ -23,6 +23,8 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
   trace?: boolean;
   /** Enable full-value trace logs (may include debuggee data). Default: false. */
   secureTrace?: boolean;
+  /** Compilers/APIFunctionListing.txt; native API names are offered as Debug Console completions. */
+  apiFunctionListingPath?: string;
   /** Debug transport mode. auto: win32->pipe, macOS/linux->fifo. */
   transport?: LaunchTransportMode;
   /** Network debug host used when transport resolves to network. */
@@ -31,6 +33,27 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
   debugPort?: number;
   /** Optional network debug password for PureBasic NetworkClient mode. */
   debugPassword?: string;
+  /** Compile with the purifier. Default: false (the .pbp target setting still applies). */
+  purifier?: boolean;
+}
+
+export interface AttachRequestArguments extends DebugProtocol.AttachRequestArguments {
+  /** Main .pb source of the program; source paths otherwise come from the program itself. */
+  program?: string;
+  /** Host to listen on for the program's network debugger connection. Default: 127.0.0.1. */
+  debugHost?: string;
+  /** Port to listen on. Default: 10000. */
+  debugPort?: number;
+  /** Optional network debug password for PureBasic NetworkClient mode. */
+  debugPassword?: string;
+  /** How long to wait for the program to connect, in milliseconds. Default: 300000. */
+  timeout?: number;
+  /** Enable verbose trace logging from the adapter. Default: false. */
+  trace?: boolean;
+  /** Enable full-value trace logs (may include debuggee data). Default: false. */
+  secureTrace?: boolean;
+  /** Compilers/APIFunctionListing.txt; native API names are offered as Debug Console completions. */
+  apiFunctionListingPath?: string;
 }
 
 export interface CommandInfo {
@@ -9,6 +9,7 @@ import { resolveUnifiedContext, type PbProjectFilesApi } from './host/unified-co
 import { buildActiveTarget } from './host/pbcompiler/build-active-target';
 import { runActiveTarget } from './host/pbcompiler/run-active-target';
 import { buildPbCompilerArgs } from './host/pbcompiler/pbcompiler-args';
+import { CompilerDiagnostics } from './host/pbcompiler/compiler-diagnostics';
 import {splitPbFile, PbFileSplit} from './host/utils/pb-metadata';
 import { readHostSettings } from './host/config/settings';
 import { LANGUAGE_ID } from './shared/constants';
@@ -112,7 +113,7 @@ export function activate(context: vscode.ExtensionContext) {
         };
 
         // Create file watcher and store reference for cleanup
-        fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{pb,pbi}');
+        fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{pb,pbi,pbf,pbp}');
         context.subscriptions.push(fileWatcher);
 
         const clientOptions: LanguageClientOptions = {
@@ -121,8 +122,12 @@ export function activate(context: vscode.ExtensionContext) {
             ],
             synchronize: {
                 configurationSection: LANGUAGE_ID,
-                // Only PureBasic source files are relevant for the language server.
+                // PureBasic sources, forms and project files are relevant for the language server.
                 fileEvents: fileWatcher
+            },
+            initializationOptions: {
+                // The server persists its workspace symbol index here
+                storagePath: (context.storageUri ?? context.globalStorageUri).fsPath
             }
         };
 
@@ -142,6 +147,12 @@ export function activate(context: vscode.ExtensionContext) {
         // Register folding provider for PureBasic meta section
         registerFoldingProvider(context);
 
+        // pbcompiler --check on save (purebasic.build.checkOnSave)
+        context.subscriptions.push(new CompilerDiagnostics({
+            getProjectFilesApi: () => projectFilesApi,
+            outputChannel: buildChannel,
+        }));
+
         // Start the language server.
         console.log('Starting Language Server...');
         try {
@@ -468,6 +479,17 @@ function registerDebugProvider(context: vscode.ExtensionContext): void {
           }
         }
 
+        // Native API names for Debug Console completions
+        const apiListingSetting = readHostSettings().apiFunctionListingPath;
+        if (apiListingSetting && !config.apiFunctionListingPath) {
+          config.apiFunctionListingPath = apiListingSetting;
+        }
+
+        // Attach: the program is already compiled and started elsewhere
+        if (config.request === 'attach') {
+          return config;
+        }
+
         const editor = vscode.window.activeTextEditor;
         const activeDoc = editor?.document?.languageId === LANGUAGE_ID ? editor.document : undefined;
 
@@ -648,6 +670,23 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // Run to cursor: continue the stopped program up to the cursor line
+    const runToCursor = vscode.commands.registerCommand('purebasic.runToCursor', async () => {
+        const session = vscode.debug.activeDebugSession;
+        const editor = vscode.window.activeTextEditor;
+        if (!session || session.type !== LANGUAGE_ID || !editor) {
+            vscode.window.showWarningMessage('No PureBasic debug session active');
+            return;
+        }
+        try {
+            await session.customRequest('runToLine', {
+                source: { path: editor.document.uri.fsPath },
+                line: editor.selection.active.line + 1,
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Run to cursor failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
 
     // Register all commands
     context.subscriptions.push(
@@ -658,7 +697,8 @@ function registerCommands(context: vscode.ExtensionContext) {
         findSymbols,
         buildTarget, 
         runTarget,
-        buildAndRunTarget
+        buildAndRunTarget,
+        runToCursor
     );
 }
 
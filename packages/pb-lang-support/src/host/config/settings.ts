@@ -17,20 +17,25 @@ export interface PureBasicHostSettings {
     build: {
         compiler:       string;
         fallbackSource: FallbackSource;
+        checkOnSave:    boolean;
     };
     run: {
         mode: RunMode;
     };
+    /** Compilers/APIFunctionListing.txt, also used for Debug Console completions. */
+    apiFunctionListingPath: string;
 }
 
 const defaults: PureBasicHostSettings = {
     build: {
         compiler:       '',
         fallbackSource: 'launchJson',
+        checkOnSave:    false,
     },
     run: {
         mode: 'spawn',
     },
+    apiFunctionListingPath: '',
 };
 
 export function readHostSettings(): PureBasicHostSettings {
@@ -45,9 +50,11 @@ export function readHostSettings(): PureBasicHostSettings {
         build: {
             compiler:       (cfg.get<string>('build.compiler') ?? defaults.build.compiler).trim(),
             fallbackSource,
+            checkOnSave:    cfg.get<boolean>('build.checkOnSave', defaults.build.checkOnSave),
         },
         run: {
             mode: cfg.get<string>('run.mode') === 'terminal' ? 'terminal' : 'spawn',
         },
+        apiFunctionListingPath: (cfg.get<string>('apiFunctionListingPath') ?? defaults.apiFunctionListingPath).trim(),
     };
 }
\ No newline at end of file
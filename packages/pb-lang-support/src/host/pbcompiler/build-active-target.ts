@@ -131,7 +131,7 @@ export async function buildActiveTarget(deps: BuildActiveTargetDeps): Promise<bo
     }
 }
 
-async function resolveCompilerPath(): Promise<string | null> {
+export async function resolveCompilerPath(): Promise<string | null> {
     const configured = readHostSettings().build.compiler ?? '';
     if (configured) {
         return configured;
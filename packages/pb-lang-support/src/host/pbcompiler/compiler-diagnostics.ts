@@ -0,0 +1,154 @@
+/**
+ * PureBasic: compiler-backed diagnostics
+ *
+ * When `purebasic.build.checkOnSave` is enabled, runs `pbcompiler --check` for
+ * the active context after a PureBasic file is saved and publishes the
+ * reported problems in their own diagnostic collection, next to the
+ * language server's heuristic diagnostics.
+ *
+ * Saves in quick succession are debounced; a new run cancels the one in flight.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { FallbackResolver } from '../fallback-resolver';
+import { resolveUnifiedContext, type PbProjectFilesApi } from '../unified-context';
+import { readHostSettings } from '../config/settings';
+import { LANGUAGE_ID } from '../../shared/constants';
+
+import { buildPbCompilerArgs } from './pbcompiler-args';
+import { runPbCompilerCheck, type PbCompilerProblem } from './pbcompiler-check';
+import { resolveCompilerPath } from './build-active-target';
+
+const CHECK_DELAY_MS = 500;
+const DIAGNOSTIC_SOURCE = 'pbcompiler';
+
+export interface CompilerDiagnosticsDeps {
+    /** The pb-project-files API is connected after activation, so it is looked up per run. */
+    getProjectFilesApi(): PbProjectFilesApi | undefined;
+    outputChannel: vscode.OutputChannel;
+}
+
+export class CompilerDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('purebasic-compiler');
+    private readonly fallbackResolver = new FallbackResolver();
+    private readonly subscriptions: vscode.Disposable[] = [];
+    private timer: NodeJS.Timeout | undefined;
+    private running: AbortController | undefined;
+
+    constructor(private readonly deps: CompilerDiagnosticsDeps) {
+        this.subscriptions.push(
+            vscode.workspace.onDidSaveTextDocument(doc => this.onDidSave(doc)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration(`${LANGUAGE_ID}.build.checkOnSave`) && !readHostSettings().build.checkOnSave) {
+                    this.cancel();
+                    this.collection.clear();
+                }
+            }),
+        );
+    }
+
+    dispose(): void {
+        this.cancel();
+        this.collection.dispose();
+        for (const s of this.subscriptions) s.dispose();
+    }
+
+    private onDidSave(doc: vscode.TextDocument): void {
+        if (doc.languageId !== LANGUAGE_ID || doc.uri.scheme !== 'file') return;
+        if (!readHostSettings().build.checkOnSave) return;
+
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            void this.check(doc);
+        }, CHECK_DELAY_MS);
+    }
+
+    private cancel(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.running?.abort();
+        this.running = undefined;
+    }
+
+    private async check(doc: vscode.TextDocument): Promise<void> {
+        this.running?.abort();
+        const controller = new AbortController();
+        this.running = controller;
+
+        try {
+            const uctx = await resolveUnifiedContext({
+                api: this.deps.getProjectFilesApi(),
+                fallbackResolver: this.fallbackResolver,
+                activeDocument: doc,
+            });
+            const inputFile = uctx?.inputFile;
+            if (!uctx || !inputFile) return;
+
+            const compiler = await resolveCompilerPath();
+            if (!compiler || controller.signal.aborted) return;
+
+            const mapped = buildPbCompilerArgs(uctx, {
+                platform: process.platform,
+                purpose: 'check',
+            });
+            if (mapped.args.length === 0) return;
+
+            const result = await runPbCompilerCheck({
+                compiler,
+                args: mapped.args,
+                cwd: uctx.projectDir || path.dirname(inputFile),
+                inputFile,
+                signal: controller.signal,
+            });
+            if (controller.signal.aborted) return;
+
+            this.publish(result.problems);
+        } catch (err: unknown) {
+            if (controller.signal.aborted) return;
+            const msg = err instanceof Error ? err.message : String(err);
+            this.deps.outputChannel.appendLine(`[check] ${msg}`);
+        } finally {
+            if (this.running === controller) this.running = undefined;
+        }
+    }
+
+    private publish(problems: PbCompilerProblem[]): void {
+        const byFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const problem of problems) {
+            const diagnostic = new vscode.Diagnostic(
+                problemRange(problem),
+                problem.message,
+                problem.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error,
+            );
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+
+            const list = byFile.get(problem.file) ?? [];
+            list.push(diagnostic);
+            byFile.set(problem.file, list);
+        }
+
+        this.collection.clear();
+        for (const [file, diagnostics] of byFile) {
+            this.collection.set(vscode.Uri.file(file), diagnostics);
+        }
+    }
+}
+
+/**
+ * pbcompiler reports line numbers only; mark the text of the whole line.
+ */
+function problemRange(problem: PbCompilerProblem): vscode.Range {
+    const line = Math.max(0, problem.line - 1);
+    const doc = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === problem.file);
+    if (doc && line < doc.lineCount) {
+        const textLine = doc.lineAt(line);
+        return new vscode.Range(line, textLine.firstNonWhitespaceCharacterIndex, line, textLine.text.length);
+    }
+    return new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+}
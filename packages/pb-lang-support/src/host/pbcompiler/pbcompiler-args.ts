@@ -23,8 +23,9 @@ export interface PbCompilerArgBuildOptions {
      * Build purpose:
      *  - build: create the target output (no debug-specific enforcement)
      *  - debug: enforce debugger + linenumbering and allow overriding output
+     *  - check: syntax check only (--check), no output file
      */
-    purpose: 'build' | 'debug';
+    purpose: 'build' | 'debug' | 'check';
     outputOverride?: string;
 }
 
@@ -46,7 +47,9 @@ export function buildPbCompilerArgs(ctx: UnifiedContext, opt: PbCompilerArgBuild
     // ---------------------------------------------------------------------
     // Build output
     // ---------------------------------------------------------------------
-    const requestedOutput = (opt.outputOverride ?? ctx.outputFile ?? '').trim();
+    const requestedOutput = opt.purpose === 'check'
+        ? ''
+        : (opt.outputOverride ?? ctx.outputFile ?? '').trim();
     if (opt.purpose === 'debug' && !requestedOutput) {
         warnings.push('Debug build requires outputOverride (missing output path).');
     }
@@ -57,7 +60,7 @@ export function buildPbCompilerArgs(ctx: UnifiedContext, opt: PbCompilerArgBuild
 
     let outputIsConsumedByFormatSwitch = false;
 
-    if (isDllFormat) {
+    if (isDllFormat && opt.purpose !== 'check') {
         if (!requestedOutput) {
             warnings.push('Target format is DLL/shared object, but outputFile is empty.');
         } else if (isWin) {
@@ -105,6 +108,10 @@ export function buildPbCompilerArgs(ctx: UnifiedContext, opt: PbCompilerArgBuild
         }
     }
 
+    if (opt.purpose === 'check') {
+        ensureArg(args, '--check');
+    }
+
     return {
         args,
         outputFile: requestedOutput || undefined,
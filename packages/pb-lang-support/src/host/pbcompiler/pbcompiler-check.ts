@@ -0,0 +1,113 @@
+/**
+ * pbcompiler syntax check (`--check`).
+ *
+ * Runs the compiler without creating an executable and turns its error
+ * output into per-file problems. Kept free of the vscode API so it can be
+ * tested against a fake compiler script.
+ */
+
+import * as path from 'path';
+
+import { runPbCompiler, type PbCompilerRunOptions } from './pbcompiler-runner';
+
+export type PbCompilerProblemSeverity = 'error' | 'warning';
+
+export interface PbCompilerProblem {
+    /** Absolute path of the file the problem was reported for. */
+    file: string;
+    /** 1-based line number as printed by pbcompiler. */
+    line: number;
+    message: string;
+    severity: PbCompilerProblemSeverity;
+}
+
+export interface PbCompilerCheckOptions extends PbCompilerRunOptions {
+    /** Main source file; problems without a file reference belong to it. */
+    inputFile: string;
+}
+
+export interface PbCompilerCheckResult {
+    exitCode: number;
+    problems: PbCompilerProblem[];
+}
+
+/**
+ * Matches a problem line, e.g.
+ *   `Error: Line 12 - Syntax error.`
+ *   `Line 12: Syntax error.`
+ *   `Warning: Line 3 in file "inc.pbi" - Variable already declared.`
+ */
+const PROBLEM_LINE =
+    /^(?:(Error|Warning)\s*:\s*)?Line\s+(\d+)(?:\s+in\s+(?:the\s+)?(?:included\s+)?file\s*:?\s*(?:"([^"]+)"|'([^']+)'|(\S+)))?\s*[-:]\s*(.+)$/i;
+
+/**
+ * Matches a file reference printed on its own line, e.g.
+ *   `Error in included file: "C:\src\inc.pbi"`
+ *   `The error occurred in the file: /src/inc.pbi`
+ */
+const FILE_LINE =
+    /^(?:(?:Error|Warning)\s+in\s+|.*\boccurred\s+in\s+)(?:the\s+)?(?:included\s+)?file\s*:?\s*(?:"([^"]+)"|'([^']+)'|(.+?))\s*$/i;
+
+/**
+ * Parse the output of `pbcompiler --check`.
+ *
+ * A file reference on its own line applies to the problem directly above it
+ * if that problem named no file, otherwise to the next problem.
+ */
+export function parsePbCompilerCheckOutput(output: string, inputFile: string, cwd: string): PbCompilerProblem[] {
+    const problems: PbCompilerProblem[] = [];
+    const resolveFile = (file: string) => (path.isAbsolute(file) ? file : path.resolve(cwd, file));
+
+    let pendingFile: string | undefined;
+    let previous: { problem: PbCompilerProblem; explicitFile: boolean } | undefined;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line) {
+            previous = undefined;
+            continue;
+        }
+
+        const problemMatch = line.match(PROBLEM_LINE);
+        if (problemMatch) {
+            const explicitFile = problemMatch[3] ?? problemMatch[4] ?? problemMatch[5];
+            const problem: PbCompilerProblem = {
+                file: explicitFile ? resolveFile(explicitFile) : pendingFile ?? inputFile,
+                line: Number(problemMatch[2]),
+                message: problemMatch[6].trim(),
+                severity: problemMatch[1]?.toLowerCase() === 'warning' ? 'warning' : 'error'
+            };
+            problems.push(problem);
+            previous = { problem, explicitFile: Boolean(explicitFile || pendingFile) };
+            pendingFile = undefined;
+            continue;
+        }
+
+        const fileMatch = line.match(FILE_LINE);
+        if (fileMatch) {
+            const file = resolveFile(fileMatch[1] ?? fileMatch[2] ?? fileMatch[3]);
+            if (previous && !previous.explicitFile) {
+                previous.problem.file = file;
+                previous.explicitFile = true;
+            } else {
+                pendingFile = file;
+            }
+            continue;
+        }
+
+        previous = undefined;
+    }
+
+    return problems;
+}
+
+/**
+ * Run `pbcompiler --check` and collect the reported problems.
+ * Rejects when the run is cancelled through `signal`.
+ */
+export async function runPbCompilerCheck(opt: PbCompilerCheckOptions): Promise<PbCompilerCheckResult> {
+    const result = await runPbCompiler(opt);
+    const problems = parsePbCompilerCheckOutput(`${result.stdout}\n${result.stderr}`, opt.inputFile, opt.cwd);
+
+    return { exitCode: result.exitCode, problems };
+}
@@ -10,6 +10,8 @@ export interface PbCompilerRunOptions {
     args: string[];
     cwd: string;
     outputChannel?: { appendLine(s: string): void };
+    /** Aborting kills the compiler process and rejects the run. */
+    signal?: AbortSignal;
 }
 
 export interface PbCompilerRunResult {
@@ -32,8 +34,19 @@ export async function runPbCompiler(opt: PbCompilerRunOptions): Promise<PbCompil
     opt.outputChannel?.appendLine(`cmd: ${opt.compiler} ${opt.args.join(' ')}`);
 
     return await new Promise((resolve, reject) => {
+        if (opt.signal?.aborted) {
+            reject(new Error('pbcompiler run cancelled'));
+            return;
+        }
+
         const proc = cp.spawn(opt.compiler, opt.args, { cwd: opt.cwd, env });
 
+        const onAbort = () => {
+            proc.kill();
+            reject(new Error('pbcompiler run cancelled'));
+        };
+        opt.signal?.addEventListener('abort', onAbort, { once: true });
+
         let stdout = '';
         let stderr = '';
 
@@ -50,6 +63,7 @@ export async function runPbCompiler(opt: PbCompilerRunOptions): Promise<PbCompil
         });
 
         proc.on('error', (err: NodeJS.ErrnoException) => {
+            opt.signal?.removeEventListener('abort', onAbort);
             if (err.code === 'ENOENT') {
                 reject(new Error(`PureBasic compiler not found: "${opt.compiler}"`));
                 return;
@@ -58,6 +72,7 @@ export async function runPbCompiler(opt: PbCompilerRunOptions): Promise<PbCompil
         });
 
         proc.on('close', (code) => {
+            opt.signal?.removeEventListener('abort', onAbort);
             resolve({ exitCode: code ?? -1, stdout, stderr });
         });
     });
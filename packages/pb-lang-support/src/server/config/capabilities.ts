@@ -5,8 +5,10 @@
 import {
     TextDocumentSyncKind,
     CompletionOptions,
+    CodeActionKind,
     ServerCapabilities
 } from 'vscode-languageserver/node';
+import { semanticTokensLegend } from '../providers/semantic-tokens-provider';
 
 /**
  * Server capabilities configuration
@@ -30,5 +32,17 @@ export const serverCapabilities: ServerCapabilities = {
         prepareProvider: true
     },
     documentFormattingProvider: true,
-    documentRangeFormattingProvider: true
+    documentRangeFormattingProvider: true,
+    callHierarchyProvider: true,
+    typeHierarchyProvider: true,
+    implementationProvider: true,
+    inlayHintProvider: true,
+    foldingRangeProvider: true,
+    codeActionProvider: {
+        codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.Source]
+    },
+    semanticTokensProvider: {
+        legend: semanticTokensLegend,
+        full: { delta: true }
+    }
 };
@@ -14,6 +14,7 @@ export interface PureBasicSettings {
     formatting?: FormattingSettings;
     completion?: CompletionSettings;
     linting?: LintingSettings;
+    inlayHints?: InlayHintsSettings;
     symbols?: SymbolsSettings;
     performance?: PerformanceSettings;
     apiFunctionListingPath?: string; // Path to APIFunctionListing.txt for OS API signatures
@@ -52,6 +53,17 @@ export interface LintingSettings {
     checkUndefinedSymbols: boolean;
     /** Whether to enable code actions */
     enableCodeActions: boolean;
+    /** Which files are validated: open files only, the active project or the whole workspace */
+    diagnosticsScope?: DiagnosticsScope;
+}
+
+export type DiagnosticsScope = 'openFiles' | 'project' | 'workspace';
+
+export interface InlayHintsSettings {
+    /** Whether to show parameter names in calls */
+    parameterNames: boolean;
+    /** Whether to show the implicit type of untyped variables */
+    variableTypes: boolean;
 }
 
 export interface SymbolsSettings {
@@ -96,7 +108,12 @@ export const defaultSettings: PureBasicSettings = {
         enableSemanticValidation: true,
         checkUnusedVariables: true,
         checkUndefinedSymbols: true,
-        enableCodeActions: true
+        enableCodeActions: true,
+        diagnosticsScope: 'openFiles'
+    },
+    inlayHints: {
+        parameterNames: true,
+        variableTypes: false
     },
     symbols: {
         enableWorkspaceSymbols: true,
@@ -0,0 +1,139 @@
+/**
+ * Persistent symbol index
+ *
+ * Keeps the symbols and includes extracted from workspace files on disk (in
+ * the extension's storage directory) so that a server restart only re-parses
+ * files whose mtime and content hash changed since the last run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PureBasicSymbol } from '../symbols/types';
+
+type LogFn = (message: string, err?: unknown) => void;
+
+/** No-op until initSymbolIndexStore() is called. */
+let internalLog: LogFn = () => { /* uninitialized */ };
+
+/**
+ * Must be called once during server startup to wire up LSP logging.
+ * Until called, errors are silently swallowed.
+ */
+export function initSymbolIndexStore(logFn: LogFn): void {
+    internalLog = logFn;
+}
+
+export interface IndexedFile {
+    mtimeMs: number;
+    /** Content hash (see hash-utils.ts). */
+    hash: string;
+    symbols: PureBasicSymbol[];
+    /** Resolved paths of the source files included by IncludeFile / XIncludeFile. */
+    includes: string[];
+}
+
+interface PersistedIndex {
+    version: number;
+    files: Record<string, IndexedFile>;
+}
+
+/** Bump when the indexed data changes shape, so stale indexes are discarded. */
+const INDEX_VERSION = 2;
+const INDEX_FILE_NAME = 'symbol-index.json';
+
+let indexPath: string | undefined;
+let entries = new Map<string, IndexedFile>();
+let loaded = false;
+let dirty = false;
+
+/**
+ * Set the directory the index is stored in; `undefined` keeps it in memory only.
+ */
+export function setSymbolIndexStorage(storageDir: string | undefined): void {
+    const next = storageDir ? path.join(storageDir, INDEX_FILE_NAME) : undefined;
+    if (next === indexPath) {
+        return;
+    }
+    indexPath = next;
+    loaded = false;
+}
+
+/**
+ * Load the index from disk once. A missing, unreadable or outdated index
+ * starts empty.
+ */
+export function loadSymbolIndex(): void {
+    if (loaded) {
+        return;
+    }
+    loaded = true;
+    if (!indexPath || !fs.existsSync(indexPath)) {
+        return;
+    }
+
+    try {
+        const data = JSON.parse(fs.readFileSync(indexPath, 'utf8')) as PersistedIndex;
+        if (data?.version === INDEX_VERSION && data.files) {
+            entries = new Map(Object.entries(data.files));
+            dirty = false;
+        }
+    } catch (err) {
+        internalLog('[symbol-index] Failed to load symbol index', err);
+    }
+}
+
+/**
+ * Write the index to disk if it changed since the last save.
+ */
+export function saveSymbolIndex(): void {
+    if (!indexPath || !dirty) {
+        return;
+    }
+
+    try {
+        const data: PersistedIndex = { version: INDEX_VERSION, files: Object.fromEntries(entries) };
+        fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+        // Write to a temporary file first so a crash never leaves a truncated index
+        const tmpPath = `${indexPath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(data));
+        fs.renameSync(tmpPath, indexPath);
+        dirty = false;
+    } catch (err) {
+        internalLog('[symbol-index] Failed to save symbol index', err);
+    }
+}
+
+export function getIndexedFile(fsPath: string): IndexedFile | undefined {
+    return entries.get(fsPath);
+}
+
+export function setIndexedFile(fsPath: string, entry: IndexedFile): void {
+    entries.set(fsPath, entry);
+    dirty = true;
+}
+
+export function removeIndexedFile(fsPath: string): void {
+    if (entries.delete(fsPath)) {
+        dirty = true;
+    }
+}
+
+export function getIndexedPaths(): string[] {
+    return Array.from(entries.keys());
+}
+
+/**
+ * Drop all entries, in memory and on disk.
+ */
+export function clearSymbolIndex(): void {
+    entries.clear();
+    dirty = false;
+    if (!indexPath) {
+        return;
+    }
+    try {
+        fs.rmSync(indexPath, { force: true });
+    } catch (err) {
+        internalLog('[symbol-index] Failed to delete symbol index', err);
+    }
+}
@@ -2,14 +2,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { uriToFsPath } from '../utils/fs-utils';
 
-// Simple workspace file index, only maintain .pb/.pbi file list (cache)
+// Simple workspace file index, only maintain .pb/.pbi/.pbf file list (cache)
 
 let roots: string[] = [];
 let cachedFiles: string[] = [];
-let lastBuild = 0;
+let built = false;
 
-const MAX_FILES = 1000; // Prevent scanning too many files
-const REBUILD_INTERVAL_MS = 5000; // Minimum rebuild interval
+const MAX_FILES = 10000; // Prevent scanning too many files
+const SOURCE_EXTENSIONS = ['.pb', '.pbi', '.pbf'];
 
 export function setWorkspaceRoots(uris: string[]) {
   // Canonicalize each root once: resolve to absolute path and strip any trailing
@@ -20,7 +20,7 @@ export function setWorkspaceRoots(uris: string[]) {
     return fsPath ? path.resolve(fsPath) : '';
   }).filter(Boolean);
   // Force trigger rebuild
-  lastBuild = 0;
+  built = false;
 }
 
 /**
@@ -54,17 +54,43 @@ export function getWorkspaceRootForUri(uri: string): string | undefined {
   return undefined;
 }
 
+/**
+ * The source files of all workspace roots. The list is built once per set of
+ * roots and then kept current via addWorkspaceFile() / removeWorkspaceFile().
+ */
 export function getWorkspaceFiles(): string[] {
-  const now = Date.now();
-  if (now - lastBuild > REBUILD_INTERVAL_MS) {
+  if (!built) {
     try {
       cachedFiles = buildFileList(roots);
     } catch {}
-    lastBuild = now;
+    built = true;
   }
   return cachedFiles;
 }
 
+export function isSourceFile(fsPath: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(fsPath).toLowerCase());
+}
+
+/**
+ * Add a file created outside the editor to the workspace file list.
+ */
+export function addWorkspaceFile(fsPath: string): void {
+  if (!built || !isSourceFile(fsPath) || !getWorkspaceRootForUri(fsPath)) return;
+  const resolved = path.resolve(fsPath);
+  if (!cachedFiles.includes(resolved) && cachedFiles.length < MAX_FILES) {
+    cachedFiles.push(resolved);
+  }
+}
+
+/**
+ * Remove a deleted file from the workspace file list.
+ */
+export function removeWorkspaceFile(fsPath: string): void {
+  const resolved = path.resolve(fsPath);
+  cachedFiles = cachedFiles.filter(f => f !== resolved);
+}
+
 function buildFileList(rootPaths: string[]): string[] {
   const files: string[] = [];
   const seen = new Set<string>();
@@ -93,7 +119,7 @@ function walk(dir: string, out: string[], seen: Set<string>) {
       walk(p, out, seen);
       if (out.length >= MAX_FILES) return;
     } else if (e.isFile()) {
-      if (p.endsWith('.pb') || p.endsWith('.pbi')) {
+      if (isSourceFile(p)) {
         out.push(p);
         if (out.length >= MAX_FILES) return;
       }
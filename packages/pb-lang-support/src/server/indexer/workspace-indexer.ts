@@ -0,0 +1,198 @@
+/**
+ * Workspace symbol indexer
+ *
+ * Fills the symbol cache with the symbols of all workspace files, backed by
+ * the persistent symbol index: unchanged files (same mtime, or same content
+ * hash) are taken from the index, only new and modified files are parsed.
+ * The indexed includes form the workspace include graph.
+ */
+
+import * as fs from 'fs';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getWorkspaceFiles, getWorkspaceRootForUri } from './workspace-index';
+import { getIndexedFile, getIndexedPaths, loadSymbolIndex, removeIndexedFile, saveSymbolIndex, setIndexedFile } from './symbol-index-store';
+import { symbolCache } from '../symbols/symbol-cache';
+import { optimizedSymbolParser } from '../symbols/optimized-symbol-parser';
+import { PureBasicSymbol } from '../symbols/types';
+import { generateHash } from '../../shared/hash-utils';
+import { fsPathToUri } from '../utils/fs-utils';
+import { debounce } from '../utils/debounce-utils';
+import { LANGUAGE_ID } from '../utils/constants';
+import { parseIncludeFiles } from '../parsers/include-parser';
+
+type LogFn = (message: string, err?: unknown) => void;
+
+export interface WorkspaceIndexerOptions {
+    logError: LogFn;
+    logInfo(message: string): void;
+    /** Open documents are indexed from their editor content, not from disk. */
+    isDocumentOpen(uri: string): boolean;
+}
+
+let options: WorkspaceIndexerOptions = {
+    logError: () => { /* uninitialized */ },
+    logInfo: () => { /* uninitialized */ },
+    isDocumentOpen: () => false
+};
+
+/**
+ * Must be called once during server startup.
+ */
+export function initWorkspaceIndexer(opts: WorkspaceIndexerOptions): void {
+    options = opts;
+}
+
+/** Files indexed between two yields to the event loop. */
+const BATCH_SIZE = 50;
+const SAVE_DELAY_MS = 2000;
+
+const scheduleSave = debounce(() => saveSymbolIndex(), SAVE_DELAY_MS);
+
+let running: Promise<void> | undefined;
+let rerun = false;
+
+/**
+ * Index all workspace files. A call while indexing is in progress schedules
+ * one more pass once the current one finished.
+ */
+export function indexWorkspace(): Promise<void> {
+    if (running) {
+        rerun = true;
+        return running;
+    }
+
+    running = (async () => {
+        do {
+            rerun = false;
+            await indexAllFiles();
+        } while (rerun);
+    })().finally(() => {
+        running = undefined;
+    });
+    return running;
+}
+
+/**
+ * Re-index a single file from disk (after save, close or an external change).
+ * Files that no longer exist are dropped from the index.
+ */
+export function indexFile(fsPath: string): void {
+    if (updateFile(fsPath) !== 'unchanged') {
+        scheduleSave();
+    }
+}
+
+/**
+ * Bring the index entry and the cached symbols of a file up to date.
+ */
+function updateFile(fsPath: string): 'unchanged' | 'updated' | 'parsed' | 'removed' {
+    const uri = fsPathToUri(fsPath);
+
+    let mtimeMs: number;
+    try {
+        mtimeMs = fs.statSync(fsPath).mtimeMs;
+    } catch {
+        removeIndexedFile(fsPath);
+        if (!options.isDocumentOpen(uri)) {
+            symbolCache.clearSymbols(uri);
+        }
+        return 'removed';
+    }
+
+    const entry = getIndexedFile(fsPath);
+    if (entry && entry.mtimeMs === mtimeMs) {
+        publish(uri, entry.symbols, entry.hash);
+        return 'unchanged';
+    }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(fsPath, 'utf8');
+    } catch (err) {
+        options.logError('[workspace-indexer] Failed to read file', err);
+        return 'unchanged';
+    }
+
+    const hash = generateHash(content);
+    // Touched but unchanged (e.g. after a git checkout)
+    const reused = entry !== undefined && entry.hash === hash;
+    const symbols = reused ? entry.symbols : optimizedSymbolParser.extractSymbols(content);
+    // Re-resolved either way: included files may have appeared or disappeared
+    const includes = resolveIncludes(uri, content);
+
+    setIndexedFile(fsPath, { mtimeMs, hash, symbols, includes });
+    publish(uri, symbols, hash);
+    return reused ? 'updated' : 'parsed';
+}
+
+async function indexAllFiles(): Promise<void> {
+    const startTime = Date.now();
+    loadSymbolIndex();
+
+    const files = getWorkspaceFiles();
+    let parsed = 0;
+    for (let i = 0; i < files.length; i++) {
+        try {
+            if (updateFile(files[i]) === 'parsed') {
+                parsed++;
+            }
+        } catch (err) {
+            options.logError('[workspace-indexer] Failed to index file', err);
+        }
+        if ((i + 1) % BATCH_SIZE === 0) {
+            // Keep the server responsive while indexing large workspaces
+            await new Promise(resolve => setImmediate(resolve));
+        }
+    }
+
+    // Forget files that left the workspace
+    const current = new Set(files);
+    for (const fsPath of getIndexedPaths()) {
+        if (!current.has(fsPath)) {
+            removeIndexedFile(fsPath);
+        }
+    }
+
+    saveSymbolIndex();
+    options.logInfo(`PureBasic: indexed ${files.length} files (${parsed} parsed) in ${Date.now() - startTime} ms`);
+}
+
+/**
+ * All indexed files that include `fsPath`, directly or through other includes.
+ */
+export function getDependentFiles(fsPath: string): string[] {
+    const includedBy = new Map<string, string[]>();
+    for (const file of getIndexedPaths()) {
+        for (const include of getIndexedFile(file)?.includes ?? []) {
+            const list = includedBy.get(include) ?? [];
+            list.push(file);
+            includedBy.set(include, list);
+        }
+    }
+
+    const dependents = new Set<string>();
+    const queue = [fsPath];
+    while (queue.length > 0) {
+        for (const file of includedBy.get(queue.shift()!) ?? []) {
+            if (file === fsPath || dependents.has(file)) continue;
+            dependents.add(file);
+            queue.push(file);
+        }
+    }
+    return Array.from(dependents);
+}
+
+function resolveIncludes(uri: string, content: string): string[] {
+    const document = TextDocument.create(uri, LANGUAGE_ID, 0, content);
+    const analysis = parseIncludeFiles(document, getWorkspaceRootForUri(uri) ?? '');
+    return analysis.includeFiles
+        .filter(include => !include.isBinary && !analysis.missingFiles.includes(include.filePath))
+        .map(include => include.resolvedPath);
+}
+
+function publish(uri: string, symbols: PureBasicSymbol[], hash: string): void {
+    // The symbols of open documents follow the editor content
+    if (!options.isDocumentOpen(uri)) {
+        symbolCache.setSymbols(uri, symbols, hash);
+    }
+}
@@ -179,6 +179,14 @@ export class ProjectManager {
         return ctx ? Array.from(ctx.projectFiles) : [];
     }
 
+    /**
+     * Returns all project files (regardless of scan flag) of the active project.
+     */
+    public getActiveProjectFiles(): string[] {
+        const ctx = this.activeProjectFileUri ? this.projects.get(this.activeProjectFileUri) : undefined;
+        return ctx ? Array.from(ctx.projectFiles) : [];
+    }
+
     /**
      * Returns the full PbpProject model for the project associated with the given document.
      * Available only when pb-project-files is active and has sent the project model.
@@ -0,0 +1,178 @@
+/**
+ * PureBasic syntax tree traversal helpers
+ */
+
+import { Expression, Statement } from './pb-ast';
+
+/**
+ * Callback invoked for every statement. `parents` lists the enclosing block
+ * statements from outermost to innermost. Returning `false` skips the
+ * statement's children.
+ */
+export type StatementVisitor = (statement: Statement, parents: readonly Statement[]) => void | boolean;
+
+/**
+ * Returns the nested statement lists of a statement (block bodies, branches
+ * and case clauses) in source order.
+ */
+export function getChildStatementLists(statement: Statement): Statement[][] {
+    switch (statement.kind) {
+        case 'Procedure':
+        case 'Structure':
+        case 'StructureUnion':
+        case 'Interface':
+        case 'Enumeration':
+        case 'Module':
+        case 'For':
+        case 'While':
+        case 'Repeat':
+        case 'With':
+        case 'DataSection':
+        case 'Import':
+            return [statement.body];
+        case 'If':
+        case 'CompilerIf':
+            return statement.branches.map(branch => branch.body);
+        case 'Select':
+        case 'CompilerSelect':
+            return [statement.body, ...statement.cases.map(clause => clause.body)];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Depth-first, pre-order walk over all statements.
+ */
+export function walkStatements(statements: readonly Statement[], visitor: StatementVisitor): void {
+    const parents: Statement[] = [];
+
+    const visit = (list: readonly Statement[]): void => {
+        for (const statement of list) {
+            if (visitor(statement, parents) === false) {
+                continue;
+            }
+            const children = getChildStatementLists(statement);
+            if (children.length > 0) {
+                parents.push(statement);
+                children.forEach(visit);
+                parents.pop();
+            }
+        }
+    };
+
+    visit(statements);
+}
+
+/**
+ * Name of the innermost Module / DeclareModule block in `parents`.
+ */
+export function getEnclosingModule(parents: readonly Statement[]): string | undefined {
+    for (let i = parents.length - 1; i >= 0; i--) {
+        const parent = parents[i];
+        if (parent.kind === 'Module') return parent.name?.name;
+    }
+    return undefined;
+}
+
+/**
+ * Returns the expressions directly owned by a statement (not those of nested statements).
+ */
+export function getStatementExpressions(statement: Statement): Expression[] {
+    const result: Expression[] = [];
+    const add = (expression: Expression | undefined) => {
+        if (expression) result.push(expression);
+    };
+
+    switch (statement.kind) {
+        case 'Procedure':
+        case 'Declare':
+        case 'Prototype':
+        case 'Method':
+            statement.parameters.forEach(p => add(p.defaultValue));
+            break;
+        case 'Enumeration':
+            add(statement.start);
+            add(statement.step);
+            break;
+        case 'If':
+        case 'CompilerIf':
+            statement.branches.forEach(b => add(b.condition));
+            break;
+        case 'Select':
+        case 'CompilerSelect':
+            add(statement.subject);
+            statement.cases.forEach(c => c.values.forEach(add));
+            break;
+        case 'For':
+            add(statement.variable);
+            add(statement.from);
+            add(statement.to);
+            add(statement.step);
+            break;
+        case 'While':
+            add(statement.condition);
+            break;
+        case 'Repeat':
+            add(statement.until);
+            break;
+        case 'With':
+            add(statement.target);
+            break;
+        case 'Field':
+        case 'VariableDeclaration':
+            for (const declarator of statement.declarators) {
+                declarator.dimensions?.forEach(add);
+                add(declarator.fixedLength);
+                add(declarator.initializer);
+            }
+            break;
+        case 'ConstantDefinition':
+        case 'ProcedureReturn':
+            add(statement.value);
+            break;
+        case 'Command':
+            statement.args.forEach(add);
+            break;
+        case 'Assignment':
+            add(statement.target);
+            add(statement.value);
+            break;
+        case 'Expression':
+            add(statement.expression);
+            break;
+    }
+
+    return result;
+}
+
+/**
+ * Depth-first, pre-order walk over an expression tree.
+ */
+export function walkExpression(expression: Expression, visitor: (expression: Expression) => void): void {
+    visitor(expression);
+    switch (expression.kind) {
+        case 'Call':
+            visitor(expression.callee);
+            expression.args.forEach(arg => walkExpression(arg, visitor));
+            break;
+        case 'Index':
+            walkExpression(expression.object, visitor);
+            expression.indices.forEach(index => walkExpression(index, visitor));
+            break;
+        case 'Member':
+            if (expression.object) walkExpression(expression.object, visitor);
+            expression.args?.forEach(arg => walkExpression(arg, visitor));
+            break;
+        case 'Unary':
+            walkExpression(expression.operand, visitor);
+            break;
+        case 'Binary':
+            walkExpression(expression.left, visitor);
+            walkExpression(expression.right, visitor);
+            break;
+        case 'Parenthesized':
+            walkExpression(expression.expression, visitor);
+            break;
+    }
+}
@@ -0,0 +1,456 @@
+/**
+ * PureBasic syntax tree definitions
+ * Node types produced by the syntax parser (pb-parser.ts).
+ *
+ * Every node carries an LSP range. Block statements additionally record the
+ * range of their opening header and of their closing keyword; a missing
+ * closing keyword is represented by `end === undefined`.
+ */
+
+import { Range } from 'vscode-languageserver/node';
+import { Token } from './pb-lexer';
+
+/* ========================================================================== */
+/* Common                                                                     */
+/* ========================================================================== */
+
+export interface NodeBase {
+    range: Range;
+}
+
+/** An identifier occurrence with its own range (e.g. a declared name). */
+export interface NameNode {
+    name: string;
+    range: Range;
+}
+
+/** A type annotation `.Type` or `.Module::Type`. */
+export interface TypeRef {
+    name: string;
+    module?: string;
+    range: Range;
+}
+
+/** The closing keyword of a block statement. */
+export interface BlockEnd {
+    keyword: string;
+    range: Range;
+}
+
+export type CollectionKind = 'array' | 'list' | 'map';
+
+/* ========================================================================== */
+/* Expressions                                                                */
+/* ========================================================================== */
+
+export interface IdentifierExpression extends NodeBase {
+    kind: 'Identifier';
+    name: string;
+    /** Module qualifier for `Module::Name`. */
+    module?: string;
+    /** Range of the bare name (without module qualifier and pointer star). */
+    nameRange: Range;
+    /** True for pointer names (`*ptr`). */
+    pointer: boolean;
+    /** Inline type annotation (`name.Type`). */
+    type?: TypeRef;
+}
+
+export interface ConstantExpression extends NodeBase {
+    kind: 'Constant';
+    /** Constant name without the leading `#`. */
+    name: string;
+    module?: string;
+    nameRange: Range;
+}
+
+export interface LiteralExpression extends NodeBase {
+    kind: 'Literal';
+    literalKind: 'number' | 'string' | 'char';
+    /** Raw source text of the literal. */
+    value: string;
+}
+
+export interface CallExpression extends NodeBase {
+    kind: 'Call';
+    /** Procedure, built-in, macro or array being called / indexed. */
+    callee: IdentifierExpression;
+    args: Expression[];
+    /** Range between (and including) the parentheses. */
+    argumentsRange: Range;
+}
+
+export interface IndexExpression extends NodeBase {
+    kind: 'Index';
+    object: Expression;
+    indices: Expression[];
+}
+
+export interface MemberExpression extends NodeBase {
+    kind: 'Member';
+    /** Accessed object; undefined for `\member` inside a With block. */
+    object?: Expression;
+    member: NameNode;
+    /** Member call arguments for interface method calls (`obj\Method()`). */
+    args?: Expression[];
+}
+
+export interface UnaryExpression extends NodeBase {
+    kind: 'Unary';
+    operator: string;
+    operand: Expression;
+}
+
+export interface BinaryExpression extends NodeBase {
+    kind: 'Binary';
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+export interface ParenthesizedExpression extends NodeBase {
+    kind: 'Parenthesized';
+    expression: Expression;
+}
+
+/** Placeholder for an expression the parser could not understand. */
+export interface ErrorExpression extends NodeBase {
+    kind: 'Error';
+}
+
+export type Expression =
+    | IdentifierExpression
+    | ConstantExpression
+    | LiteralExpression
+    | CallExpression
+    | IndexExpression
+    | MemberExpression
+    | UnaryExpression
+    | BinaryExpression
+    | ParenthesizedExpression
+    | ErrorExpression;
+
+/* ========================================================================== */
+/* Declarations                                                               */
+/* ========================================================================== */
+
+/** A procedure / prototype / interface method parameter. */
+export interface Parameter extends NodeBase {
+    name?: NameNode;
+    pointer: boolean;
+    type?: TypeRef;
+    collection?: CollectionKind;
+    defaultValue?: Expression;
+    /** True when the parameter text could not be parsed. */
+    invalid: boolean;
+}
+
+/** One declared name in Global / Protected / Define / Dim / structure fields etc. */
+export interface VariableDeclarator extends NodeBase {
+    name: NameNode;
+    pointer: boolean;
+    type?: TypeRef;
+    collection?: CollectionKind;
+    /** Array dimensions (`Dim a(10, 20)`) or static array size (`a.i[10]`). */
+    dimensions?: Expression[];
+    /** Fixed string length (`s.s{20}`). */
+    fixedLength?: Expression;
+    initializer?: Expression;
+}
+
+/* ========================================================================== */
+/* Statements                                                                 */
+/* ========================================================================== */
+
+interface BlockStatementBase extends NodeBase {
+    /** Opening keyword as written canonically (e.g. 'ProcedureC'). */
+    keyword: string;
+    /** Range of the opening statement (keyword through end of header). */
+    headerRange: Range;
+    end?: BlockEnd;
+}
+
+export interface ProcedureStatement extends BlockStatementBase {
+    kind: 'Procedure';
+    name?: NameNode;
+    returnType?: TypeRef;
+    parameters: Parameter[];
+    body: Statement[];
+}
+
+/** Declare / DeclareC / DeclareDLL / DeclareCDLL forward declaration. */
+export interface DeclareStatement extends NodeBase {
+    kind: 'Declare';
+    keyword: string;
+    name?: NameNode;
+    returnType?: TypeRef;
+    parameters: Parameter[];
+}
+
+export interface PrototypeStatement extends NodeBase {
+    kind: 'Prototype';
+    keyword: string;
+    name?: NameNode;
+    returnType?: TypeRef;
+    parameters: Parameter[];
+}
+
+export interface MacroStatement extends BlockStatementBase {
+    kind: 'Macro';
+    name?: NameNode;
+    parameters: NameNode[];
+    /** Raw macro body tokens; macro bodies are not parsed. */
+    bodyTokens: Token[];
+}
+
+export interface StructureStatement extends BlockStatementBase {
+    kind: 'Structure';
+    name?: NameNode;
+    extends?: TypeRef;
+    body: Statement[];
+}
+
+export interface StructureUnionStatement extends BlockStatementBase {
+    kind: 'StructureUnion';
+    body: Statement[];
+}
+
+/** Structure field line (`x.i`, `*next.Node`, `List items.s()`). */
+export interface FieldStatement extends NodeBase {
+    kind: 'Field';
+    declarators: VariableDeclarator[];
+}
+
+export interface InterfaceStatement extends BlockStatementBase {
+    kind: 'Interface';
+    name?: NameNode;
+    extends?: TypeRef;
+    body: Statement[];
+}
+
+/** Interface method line (`Method.i(a.i)`). */
+export interface MethodStatement extends NodeBase {
+    kind: 'Method';
+    name: NameNode;
+    returnType?: TypeRef;
+    parameters: Parameter[];
+}
+
+export interface EnumerationStatement extends BlockStatementBase {
+    kind: 'Enumeration';
+    binary: boolean;
+    name?: NameNode;
+    start?: Expression;
+    step?: Expression;
+    body: Statement[];
+}
+
+export interface ModuleStatement extends BlockStatementBase {
+    kind: 'Module';
+    /** True for DeclareModule blocks. */
+    declare: boolean;
+    name?: NameNode;
+    body: Statement[];
+}
+
+export interface ConditionalBranch extends NodeBase {
+    /** 'If' / 'ElseIf' / 'Else' or 'CompilerIf' / 'CompilerElseIf' / 'CompilerElse'. */
+    keyword: string;
+    keywordRange: Range;
+    condition?: Expression;
+    body: Statement[];
+}
+
+export interface IfStatement extends BlockStatementBase {
+    kind: 'If' | 'CompilerIf';
+    branches: ConditionalBranch[];
+}
+
+export interface CaseClause extends NodeBase {
+    /** 'Case' / 'Default' or 'CompilerCase' / 'CompilerDefault'. */
+    keyword: string;
+    keywordRange: Range;
+    values: Expression[];
+    body: Statement[];
+}
+
+export interface SelectStatement extends BlockStatementBase {
+    kind: 'Select' | 'CompilerSelect';
+    subject?: Expression;
+    /** Statements between the Select header and the first Case. */
+    body: Statement[];
+    cases: CaseClause[];
+}
+
+export interface ForStatement extends BlockStatementBase {
+    kind: 'For';
+    /** Loop variable (For) or iterated list / map / array (ForEach). */
+    variable?: Expression;
+    from?: Expression;
+    to?: Expression;
+    step?: Expression;
+    body: Statement[];
+}
+
+export interface WhileStatement extends BlockStatementBase {
+    kind: 'While';
+    condition?: Expression;
+    body: Statement[];
+}
+
+export interface RepeatStatement extends BlockStatementBase {
+    kind: 'Repeat';
+    body: Statement[];
+    /** Condition of the closing `Until`. */
+    until?: Expression;
+}
+
+export interface WithStatement extends BlockStatementBase {
+    kind: 'With';
+    target?: Expression;
+    body: Statement[];
+}
+
+export interface DataSectionStatement extends BlockStatementBase {
+    kind: 'DataSection';
+    body: Statement[];
+}
+
+export interface ImportStatement extends BlockStatementBase {
+    kind: 'Import';
+    library?: string;
+    body: Statement[];
+}
+
+/** HeaderSection block; its raw C / ASM content is not parsed. */
+export interface HeaderSectionStatement extends BlockStatementBase {
+    kind: 'HeaderSection';
+}
+
+export interface VariableDeclarationStatement extends NodeBase {
+    kind: 'VariableDeclaration';
+    /** Global / Protected / Static / Shared / Threaded / Define / Dim / ReDim / NewList / NewMap. */
+    keyword: string;
+    keywordRange: Range;
+    /** Default type of `Define.Type` / `Global.Type` declarations. */
+    defaultType?: TypeRef;
+    declarators: VariableDeclarator[];
+}
+
+/** `#Name = value` or an Enumeration member `#Name [= value]`. */
+export interface ConstantDefinitionStatement extends NodeBase {
+    kind: 'ConstantDefinition';
+    name: NameNode;
+    value?: Expression;
+    /** True when an `=` was written without a value. */
+    missingValue: boolean;
+}
+
+export interface IncludeStatement extends NodeBase {
+    kind: 'Include';
+    /** IncludeFile / XIncludeFile / IncludeBinary / IncludePath. */
+    keyword: string;
+    /** Unquoted path, when a string literal was given. */
+    path?: string;
+    pathRange?: Range;
+}
+
+export interface UseModuleStatement extends NodeBase {
+    kind: 'UseModule';
+    /** UseModule / UnuseModule. */
+    keyword: string;
+    name?: NameNode;
+}
+
+export interface LabelStatement extends NodeBase {
+    kind: 'Label';
+    name: NameNode;
+}
+
+export interface ProcedureReturnStatement extends NodeBase {
+    kind: 'ProcedureReturn';
+    value?: Expression;
+}
+
+/** Any other keyword statement (Debug, End, Goto, Data, Read, EnableExplicit, …). */
+export interface CommandStatement extends NodeBase {
+    kind: 'Command';
+    keyword: string;
+    keywordRange: Range;
+    /** Type suffix of `Data.l` / `Read.s`. */
+    type?: TypeRef;
+    args: Expression[];
+}
+
+export interface AssignmentStatement extends NodeBase {
+    kind: 'Assignment';
+    target: Expression;
+    value: Expression;
+}
+
+export interface ExpressionStatement extends NodeBase {
+    kind: 'Expression';
+    expression: Expression;
+}
+
+/** A closing / continuation keyword that has no matching opening block. */
+export interface UnmatchedEndStatement extends NodeBase {
+    kind: 'UnmatchedEnd';
+    keyword: string;
+}
+
+/** `! ...` inline assembler / C line. */
+export interface InlineAsmStatement extends NodeBase {
+    kind: 'InlineAsm';
+    text: string;
+}
+
+/** A statement that does not start with anything the parser recognises. */
+export interface InvalidStatement extends NodeBase {
+    kind: 'Invalid';
+}
+
+export type BlockStatement =
+    | ProcedureStatement
+    | MacroStatement
+    | StructureStatement
+    | StructureUnionStatement
+    | InterfaceStatement
+    | EnumerationStatement
+    | ModuleStatement
+    | IfStatement
+    | SelectStatement
+    | ForStatement
+    | WhileStatement
+    | RepeatStatement
+    | WithStatement
+    | DataSectionStatement
+    | ImportStatement
+    | HeaderSectionStatement;
+
+export type Statement =
+    | BlockStatement
+    | DeclareStatement
+    | PrototypeStatement
+    | FieldStatement
+    | MethodStatement
+    | VariableDeclarationStatement
+    | ConstantDefinitionStatement
+    | IncludeStatement
+    | UseModuleStatement
+    | LabelStatement
+    | ProcedureReturnStatement
+    | CommandStatement
+    | AssignmentStatement
+    | ExpressionStatement
+    | UnmatchedEndStatement
+    | InlineAsmStatement
+    | InvalidStatement;
+
+/** Root of a parsed document. */
+export interface SyntaxTree {
+    body: Statement[];
+    tokens: Token[];
+    comments: Token[];
+    lineStarts: number[];
+}
@@ -0,0 +1,347 @@
+/**
+ * PureBasic Lexer
+ * Converts PureBasic source text into a flat token stream with positions.
+ *
+ * The lexer is shared by the syntax parser and every consumer that needs
+ * token-level information (validators, symbol extraction, highlighting).
+ *
+ * Notes on PureBasic lexical rules:
+ *  - Keywords are case-insensitive; keyword tokens carry their canonical spelling.
+ *  - Strings follow the rules documented in utils/pb-lexer-utils.ts
+ *    ("..." has no escapes, ~"..." supports backslash escapes).
+ *  - `$` prefixes a hexadecimal literal, `%` a binary literal (when it is not
+ *    the modulo operator); a trailing `$` belongs to the identifier (`Name$`).
+ *  - A line starting with `!` is inline assembler / C and is kept as one raw token.
+ *  - A logical statement continues on the next line when the line ends with
+ *    a lone `_` or with a binary operator, a comma or an opening parenthesis.
+ */
+
+import { Range } from 'vscode-languageserver/node';
+import { pbKeywordDefinitions } from '../utils/constants';
+
+export enum TokenKind {
+    Identifier = 'identifier',
+    Keyword = 'keyword',
+    Constant = 'constant',
+    Number = 'number',
+    String = 'string',
+    Char = 'char',
+    Operator = 'operator',
+    Colon = 'colon',
+    Newline = 'newline',
+    Comment = 'comment',
+    InlineAsm = 'inlineAsm',
+    Unknown = 'unknown',
+    EndOfFile = 'eof'
+}
+
+export interface Token {
+    kind: TokenKind;
+    /** Raw source text of the token. */
+    text: string;
+    /** Canonical keyword spelling (e.g. 'EndIf') for Keyword tokens. */
+    keyword?: string;
+    /** Start offset in the source text. */
+    offset: number;
+    /** End offset (exclusive) in the source text. */
+    end: number;
+    range: Range;
+}
+
+export interface LexResult {
+    /**
+     * Significant tokens including statement separators (Newline, Colon) and a
+     * trailing EndOfFile token. Newlines of continued lines are removed.
+     */
+    tokens: Token[];
+    /** Comment tokens in source order (`;...` up to the end of the line). */
+    comments: Token[];
+    /** Start offset of every line, used to map offsets to positions. */
+    lineStarts: number[];
+}
+
+/** Lower-case keyword → canonical spelling. */
+const keywordMap: ReadonlyMap<string, string> = new Map(
+    pbKeywordDefinitions.map(k => [k.name.toLowerCase(), k.name])
+);
+
+/** Word operators that behave like binary operators for line continuation. */
+const continuationKeywords = new Set(['And', 'Or', 'XOr', 'Not']);
+
+/** Operators after which a line break does not end the statement. */
+const continuationOperators = new Set([
+    ',', '(', '+', '-', '*', '/', '=', '<', '>', '<=', '>=', '=<', '=>', '<>',
+    '|', '&', '<<', '>>', '!', '~', '%'
+]);
+
+/** Multi-character operators, longest first. */
+const multiCharOperators = ['::', '<=', '>=', '=<', '=>', '<>', '<<', '>>'];
+
+const singleCharOperators = new Set([
+    '+', '-', '*', '/', '=', '<', '>', '(', ')', '[', ']', '{', '}', ',', '.',
+    '\\', '@', '?', '&', '|', '!', '~', '%', '$'
+]);
+
+/**
+ * Returns the canonical keyword spelling for `word`, or undefined when the
+ * word is not a PureBasic keyword.
+ */
+export function lookupKeyword(word: string): string | undefined {
+    return keywordMap.get(word.toLowerCase());
+}
+
+function isIdentStart(ch: string): boolean {
+    return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z') || ch === '_';
+}
+
+function isIdentPart(ch: string): boolean {
+    return isIdentStart(ch) || (ch >= '0' && ch <= '9');
+}
+
+function isDigit(ch: string): boolean {
+    return ch >= '0' && ch <= '9';
+}
+
+function isHexDigit(ch: string): boolean {
+    return isDigit(ch) || (ch >= 'a' && ch <= 'f') || (ch >= 'A' && ch <= 'F');
+}
+
+/** Tokens after which `%` is the modulo operator rather than a binary literal. */
+function isOperandToken(token: Token | undefined): boolean {
+    if (!token) return false;
+    switch (token.kind) {
+        case TokenKind.Identifier:
+        case TokenKind.Constant:
+        case TokenKind.Number:
+        case TokenKind.String:
+        case TokenKind.Char:
+            return true;
+        case TokenKind.Operator:
+            return token.text === ')' || token.text === ']';
+        default:
+            return false;
+    }
+}
+
+/**
+ * Tokenize PureBasic source text.
+ */
+export function tokenize(text: string): LexResult {
+    const tokens: Token[] = [];
+    const comments: Token[] = [];
+    const lineStarts: number[] = [0];
+
+    let pos = 0;
+    let line = 0;
+    let lineStart = 0;
+
+    const makeToken = (kind: TokenKind, start: number, end: number, startLine: number, startCol: number): Token => ({
+        kind,
+        text: text.substring(start, end),
+        offset: start,
+        end,
+        range: {
+            start: { line: startLine, character: startCol },
+            end: { line, character: end - lineStart }
+        }
+    });
+
+    const lastSignificant = (): Token | undefined => tokens[tokens.length - 1];
+
+    const atStatementStart = (): boolean => {
+        const last = lastSignificant();
+        return !last || last.kind === TokenKind.Newline || last.kind === TokenKind.Colon;
+    };
+
+    /**
+     * Decide whether the line break at the current position continues the
+     * statement. A trailing lone `_` is consumed as part of the continuation.
+     */
+    const continuesStatement = (): boolean => {
+        const last = lastSignificant();
+        if (!last) return false;
+        if (last.kind === TokenKind.Identifier && last.text === '_') {
+            tokens.pop();
+            return true;
+        }
+        if (last.kind === TokenKind.Operator) {
+            return continuationOperators.has(last.text);
+        }
+        if (last.kind === TokenKind.Keyword) {
+            return continuationKeywords.has(last.keyword!);
+        }
+        return false;
+    };
+
+    while (pos < text.length) {
+        const ch = text[pos];
+        const startCol = pos - lineStart;
+        const start = pos;
+
+        // Line breaks (\n, \r\n, \r)
+        if (ch === '\n' || ch === '\r') {
+            pos += (ch === '\r' && text[pos + 1] === '\n') ? 2 : 1;
+            const newline: Token = {
+                kind: TokenKind.Newline,
+                text: text.substring(start, pos),
+                offset: start,
+                end: pos,
+                range: {
+                    start: { line, character: startCol },
+                    end: { line, character: startCol }
+                }
+            };
+            line++;
+            lineStart = pos;
+            lineStarts.push(pos);
+            if (!continuesStatement()) {
+                tokens.push(newline);
+            }
+            continue;
+        }
+
+        // Whitespace
+        if (ch === ' ' || ch === '\t' || ch === '\f' || ch === '\v' || ch === '\u00a0' || ch === '\ufeff') {
+            pos++;
+            continue;
+        }
+
+        // Comment up to end of line
+        if (ch === ';') {
+            while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+            comments.push(makeToken(TokenKind.Comment, start, pos, line, startCol));
+            continue;
+        }
+
+        // Inline assembler / C line
+        if (ch === '!' && atStatementStart()) {
+            while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+            tokens.push(makeToken(TokenKind.InlineAsm, start, pos, line, startCol));
+            continue;
+        }
+
+        // Strings: "..." and ~"..."
+        if (ch === '"' || (ch === '~' && text[pos + 1] === '"')) {
+            const isEscape = ch === '~';
+            pos += isEscape ? 2 : 1;
+            while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') {
+                if (isEscape && text[pos] === '\\') {
+                    pos += 2;
+                    continue;
+                }
+                if (text[pos] === '"') {
+                    pos++;
+                    break;
+                }
+                pos++;
+            }
+            pos = Math.min(pos, text.length);
+            tokens.push(makeToken(TokenKind.String, start, pos, line, startCol));
+            continue;
+        }
+
+        // Character literals: 'A'
+        if (ch === "'") {
+            pos++;
+            while (pos < text.length && text[pos] !== "'" && text[pos] !== '\n' && text[pos] !== '\r') pos++;
+            if (text[pos] === "'") pos++;
+            tokens.push(makeToken(TokenKind.Char, start, pos, line, startCol));
+            continue;
+        }
+
+        // Constants: #Name / #Name$
+        if (ch === '#' && isIdentStart(text[pos + 1] ?? '')) {
+            pos++;
+            while (pos < text.length && isIdentPart(text[pos])) pos++;
+            if (text[pos] === '$') pos++;
+            tokens.push(makeToken(TokenKind.Constant, start, pos, line, startCol));
+            continue;
+        }
+
+        // Identifiers and keywords (with optional trailing '$')
+        if (isIdentStart(ch)) {
+            while (pos < text.length && isIdentPart(text[pos])) pos++;
+            if (text[pos] === '$') pos++;
+            const token = makeToken(TokenKind.Identifier, start, pos, line, startCol);
+            const keyword = lookupKeyword(token.text);
+            // Keywords directly after '\' or '::' are member / module symbol names.
+            const prev = lastSignificant();
+            const isQualified = prev?.kind === TokenKind.Operator && (prev.text === '\\' || prev.text === '::');
+            if (keyword && !isQualified) {
+                token.kind = TokenKind.Keyword;
+                token.keyword = keyword;
+            }
+            tokens.push(token);
+            continue;
+        }
+
+        // Decimal numbers (integer / float / exponent)
+        if (isDigit(ch)) {
+            while (pos < text.length && isDigit(text[pos])) pos++;
+            if (text[pos] === '.' && isDigit(text[pos + 1] ?? '')) {
+                pos++;
+                while (pos < text.length && isDigit(text[pos])) pos++;
+            }
+            if ((text[pos] === 'e' || text[pos] === 'E') &&
+                (isDigit(text[pos + 1] ?? '') || ((text[pos + 1] === '+' || text[pos + 1] === '-') && isDigit(text[pos + 2] ?? '')))) {
+                pos += 2;
+                while (pos < text.length && isDigit(text[pos])) pos++;
+            }
+            tokens.push(makeToken(TokenKind.Number, start, pos, line, startCol));
+            continue;
+        }
+
+        // Hexadecimal numbers: $FF
+        if (ch === '$' && isHexDigit(text[pos + 1] ?? '')) {
+            pos++;
+            while (pos < text.length && isHexDigit(text[pos])) pos++;
+            tokens.push(makeToken(TokenKind.Number, start, pos, line, startCol));
+            continue;
+        }
+
+        // Binary numbers: %1010 (only where an operand is expected)
+        if (ch === '%' && (text[pos + 1] === '0' || text[pos + 1] === '1') && !isOperandToken(lastSignificant())) {
+            pos++;
+            while (pos < text.length && (text[pos] === '0' || text[pos] === '1')) pos++;
+            tokens.push(makeToken(TokenKind.Number, start, pos, line, startCol));
+            continue;
+        }
+
+        // ':' statement separator vs '::' module operator
+        if (ch === ':' && text[pos + 1] !== ':') {
+            pos++;
+            tokens.push(makeToken(TokenKind.Colon, start, pos, line, startCol));
+            continue;
+        }
+
+        // Operators
+        const multi = multiCharOperators.find(op => text.startsWith(op, pos));
+        if (multi) {
+            pos += multi.length;
+            tokens.push(makeToken(TokenKind.Operator, start, pos, line, startCol));
+            continue;
+        }
+        if (singleCharOperators.has(ch)) {
+            pos++;
+            tokens.push(makeToken(TokenKind.Operator, start, pos, line, startCol));
+            continue;
+        }
+
+        // Anything else
+        pos++;
+        tokens.push(makeToken(TokenKind.Unknown, start, pos, line, startCol));
+    }
+
+    tokens.push({
+        kind: TokenKind.EndOfFile,
+        text: '',
+        offset: text.length,
+        end: text.length,
+        range: {
+            start: { line, character: text.length - lineStart },
+            end: { line, character: text.length - lineStart }
+        }
+    });
+
+    return { tokens, comments, lineStarts };
+}
@@ -0,0 +1,1414 @@
+/**
+ * PureBasic Syntax Parser
+ * Builds a positioned syntax tree (pb-ast.ts) from the lexer's token stream.
+ *
+ * The parser is error tolerant: it never throws on malformed input. Unknown
+ * statements become `Invalid` nodes, unparsable expressions become `Error`
+ * nodes, blocks without a closing keyword get `end === undefined` and closing
+ * keywords without an opening block become `UnmatchedEnd` statements.
+ * Validators report these conditions; the parser itself emits no diagnostics.
+ */
+
+import { Range } from 'vscode-languageserver/node';
+import { Token, TokenKind, tokenize } from './pb-lexer';
+import {
+    BlockEnd,
+    CaseClause,
+    CollectionKind,
+    ConditionalBranch,
+    Expression,
+    IdentifierExpression,
+    NameNode,
+    Parameter,
+    ProcedureStatement,
+    Statement,
+    SyntaxTree,
+    TypeRef,
+    VariableDeclarator
+} from './pb-ast';
+import { generateHash } from '../../shared/hash-utils';
+
+/** Statement context that decides how member lines of a block are parsed. */
+type BodyContext = 'code' | 'structure' | 'interface' | 'enumeration';
+
+interface BlockFrame {
+    /** Keywords that close or continue this block. */
+    closers: ReadonlySet<string>;
+    /** Keywords that cannot appear inside this block and imply a missing closer. */
+    implicitClosers: ReadonlySet<string>;
+}
+
+const PROCEDURE_KEYWORDS = ['Procedure', 'ProcedureC', 'ProcedureDLL', 'ProcedureCDLL'];
+const DECLARE_KEYWORDS = ['Declare', 'DeclareC', 'DeclareDLL', 'DeclareCDLL'];
+const MODULE_KEYWORDS = ['Module', 'DeclareModule'];
+
+/** Block keywords that cannot be nested inside a procedure or runtime control block. */
+const CODE_BLOCK_IMPLICIT_CLOSERS = new Set([...PROCEDURE_KEYWORDS, ...MODULE_KEYWORDS]);
+
+/** Block keywords that cannot appear inside Structure / Interface / Enumeration bodies. */
+const DECLARATION_IMPLICIT_CLOSERS = new Set([
+    ...PROCEDURE_KEYWORDS, ...MODULE_KEYWORDS, 'Structure', 'Interface', 'Enumeration', 'EnumerationBinary'
+]);
+
+const MODULE_IMPLICIT_CLOSERS = new Set(MODULE_KEYWORDS);
+
+const NO_IMPLICIT_CLOSERS: ReadonlySet<string> = new Set();
+
+/** Every closing or continuation keyword of a block statement. */
+export const BLOCK_CLOSING_KEYWORDS: ReadonlySet<string> = new Set([
+    'EndProcedure', 'EndStructure', 'EndStructureUnion', 'EndInterface', 'EndEnumeration',
+    'EndModule', 'EndDeclareModule', 'EndMacro', 'EndIf', 'ElseIf', 'Else', 'EndSelect',
+    'Case', 'Default', 'Next', 'Wend', 'Until', 'ForEver', 'EndWith', 'EndDataSection',
+    'EndImport', 'EndHeaderSection', 'CompilerElse', 'CompilerElseIf', 'CompilerEndIf',
+    'CompilerCase', 'CompilerDefault', 'CompilerEndSelect'
+]);
+
+const DECLARATION_KEYWORDS = new Set([
+    'Global', 'Protected', 'Static', 'Shared', 'Threaded', 'Define', 'Dim', 'ReDim', 'NewList', 'NewMap'
+]);
+
+const COLLECTION_DECLARATION_KEYWORDS: Readonly<Record<string, CollectionKind>> = {
+    Dim: 'array',
+    ReDim: 'array',
+    NewList: 'list',
+    NewMap: 'map'
+};
+
+const INCLUDE_KEYWORDS = new Set(['IncludeFile', 'XIncludeFile', 'IncludeBinary', 'IncludePath']);
+
+/** Binary operator precedence (higher binds tighter). */
+const BINARY_PRECEDENCE: Readonly<Record<string, number>> = {
+    Or: 1, XOr: 1, And: 1,
+    '=': 2, '<>': 2, '<': 2, '>': 2, '<=': 2, '>=': 2, '=<': 2, '=>': 2,
+    '+': 3, '-': 3,
+    '*': 4, '/': 4,
+    '|': 5, '&': 5,
+    '<<': 6, '>>': 6, '%': 6, '!': 6
+};
+
+function spanRange(start: Range, end: Range): Range {
+    return { start: start.start, end: end.end };
+}
+
+class Parser {
+    private pos = 0;
+    private lastToken: Token;
+    private readonly frames: BlockFrame[] = [];
+    private context: BodyContext = 'code';
+
+    constructor(private readonly tokens: Token[]) {
+        this.lastToken = tokens[0];
+    }
+
+    parseDocument(): Statement[] {
+        return this.parseStatements();
+    }
+
+    /* ---------------------------------------------------------------------- */
+    /* Token helpers                                                          */
+    /* ---------------------------------------------------------------------- */
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        if (token.kind !== TokenKind.EndOfFile) {
+            this.pos++;
+            this.lastToken = token;
+        }
+        return token;
+    }
+
+    private isSeparator(token: Token): boolean {
+        return token.kind === TokenKind.Newline || token.kind === TokenKind.Colon || token.kind === TokenKind.EndOfFile;
+    }
+
+    private atStatementEnd(): boolean {
+        return this.isSeparator(this.peek());
+    }
+
+    private isOperator(token: Token, op: string): boolean {
+        return token.kind === TokenKind.Operator && token.text === op;
+    }
+
+    private isKeyword(token: Token, ...keywords: string[]): boolean {
+        return token.kind === TokenKind.Keyword && keywords.includes(token.keyword!);
+    }
+
+    /** True when `b` directly follows `a` without whitespace. */
+    private isAdjacent(a: Token, b: Token): boolean {
+        return a.end === b.offset;
+    }
+
+    private skipSeparators(): void {
+        while (this.peek().kind === TokenKind.Newline || this.peek().kind === TokenKind.Colon) {
+            this.pos++;
+        }
+    }
+
+    /** Skip leftover tokens of the current statement (up to, not including, its separator). */
+    private skipToStatementEnd(): void {
+        while (!this.atStatementEnd()) {
+            this.next();
+        }
+    }
+
+    private rangeFrom(start: Token | Range): Range {
+        const startRange = 'range' in start ? start.range : start;
+        // When nothing has been consumed since `start`, the node is empty at `start`.
+        const endRange = this.lastToken.offset >= ('offset' in start ? start.offset : -1)
+            ? this.lastToken.range
+            : startRange;
+        return spanRange(startRange, endRange);
+    }
+
+    private nameFrom(token: Token): NameNode {
+        return { name: token.text, range: token.range };
+    }
+
+    /* ---------------------------------------------------------------------- */
+    /* Statement lists and blocks                                             */
+    /* ---------------------------------------------------------------------- */
+
+    private isFrameCloser(keyword: string): boolean {
+        for (let i = this.frames.length - 1; i >= 0; i--) {
+            const frame = this.frames[i];
+            if (frame.closers.has(keyword) || frame.implicitClosers.has(keyword)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private parseStatements(): Statement[] {
+        const statements: Statement[] = [];
+        for (;;) {
+            this.skipSeparators();
+            const token = this.peek();
+            if (token.kind === TokenKind.EndOfFile) {
+                break;
+            }
+            if (token.kind === TokenKind.Keyword && this.isFrameCloser(token.keyword!)) {
+                break;
+            }
+            const start = this.pos;
+            statements.push(this.parseStatement());
+            // Guarantee progress on malformed input.
+            if (this.pos === start) {
+                this.next();
+            }
+        }
+        return statements;
+    }
+
+    /**
+     * Parse a block body until one of `closers` (or a closer of an enclosing
+     * block) is reached. The closing keyword itself is not consumed.
+     */
+    private parseBody(
+        closers: string[],
+        implicitClosers: ReadonlySet<string> = NO_IMPLICIT_CLOSERS,
+        context: BodyContext = this.context
+    ): Statement[] {
+        const savedContext = this.context;
+        this.frames.push({ closers: new Set(closers), implicitClosers });
+        this.context = context;
+        try {
+            return this.parseStatements();
+        } finally {
+            this.frames.pop();
+            this.context = savedContext;
+        }
+    }
+
+    /** Consume the closing keyword when it is one of `closers`. */
+    private parseBlockEnd(closers: string[]): BlockEnd | undefined {
+        const token = this.peek();
+        if (token.kind === TokenKind.Keyword && closers.includes(token.keyword!)) {
+            this.next();
+            return { keyword: token.keyword!, range: token.range };
+        }
+        return undefined;
+    }
+
+    /* ---------------------------------------------------------------------- */
+    /* Statements                                                             */
+    /* ---------------------------------------------------------------------- */
+
+    private parseStatement(): Statement {
+        const token = this.peek();
+
+        switch (token.kind) {
+            case TokenKind.Keyword:
+                return this.parseKeywordStatement(token);
+
+            case TokenKind.InlineAsm:
+                this.next();
+                return { kind: 'InlineAsm', text: token.text, range: token.range };
+
+            case TokenKind.Constant:
+                return this.finishSimple(this.parseConstantDefinition());
+
+            case TokenKind.Identifier:
+                if (this.context === 'structure') {
+                    return this.finishSimple(this.parseField());
+                }
+                if (this.context === 'interface') {
+                    return this.finishSimple(this.parseMethod());
+                }
+                if (this.peek(1).kind === TokenKind.Colon) {
+                    this.next();
+                    this.next();
+                    return { kind: 'Label', name: this.nameFrom(token), range: this.rangeFrom(token) };
+                }
+                return this.finishSimple(this.parseExpressionStatement());
+
+            case TokenKind.Operator:
+                if (this.context === 'structure' && token.text === '*') {
+                    return this.finishSimple(this.parseField());
+                }
+                if (['*', '@', '(', '\\', '?'].includes(token.text)) {
+                    return this.finishSimple(this.parseExpressionStatement());
+                }
+                break;
+        }
+
+        this.skipToStatementEnd();
+        return { kind: 'Invalid', range: this.rangeFrom(token) };
+    }
+
+    /** Skip leftover tokens of a simple (non-block) statement. */
+    private finishSimple(statement: Statement): Statement {
+        this.skipToStatementEnd();
+        return statement;
+    }
+
+    private parseKeywordStatement(token: Token): Statement {
+        const keyword = token.keyword!;
+
+        if (PROCEDURE_KEYWORDS.includes(keyword)) return this.parseProcedure();
+        if (DECLARE_KEYWORDS.includes(keyword)) return this.finishSimple(this.parseProcedureHeader('Declare'));
+        if (keyword === 'Prototype' || keyword === 'PrototypeC') return this.finishSimple(this.parseProcedureHeader('Prototype'));
+        if (DECLARATION_KEYWORDS.has(keyword)) return this.finishSimple(this.parseVariableDeclaration());
+        if (INCLUDE_KEYWORDS.has(keyword)) return this.finishSimple(this.parseInclude());
+
+        // Structure members may be declared with the Array / List / Map keywords.
+        if (this.context === 'structure' && ['Array', 'List', 'Map'].includes(keyword)) {
+            return this.finishSimple(this.parseField());
+        }
+        // Interface method names may collide with keywords (e.g. `Data()`).
+        if (this.context === 'interface' && (this.isOperator(this.peek(1), '(') || this.isOperator(this.peek(1), '.'))) {
+            return this.finishSimple(this.parseMethod());
+        }
+
+        switch (keyword) {
+            case 'Macro': return this.parseMacro();
+            case 'Structure': return this.parseStructure();
+            case 'StructureUnion': return this.parseStructureUnion();
+            case 'Interface': return this.parseInterface();
+            case 'Enumeration':
+            case 'EnumerationBinary': return this.parseEnumeration();
+            case 'Module':
+            case 'DeclareModule': return this.parseModule();
+            case 'If': return this.parseIf('If', 'ElseIf', 'Else', 'EndIf');
+            case 'CompilerIf': return this.parseIf('CompilerIf', 'CompilerElseIf', 'CompilerElse', 'CompilerEndIf');
+            case 'Select': return this.parseSelect('Select', 'Case', 'Default', 'EndSelect');
+            case 'CompilerSelect': return this.parseSelect('CompilerSelect', 'CompilerCase', 'CompilerDefault', 'CompilerEndSelect');
+            case 'For':
+            case 'ForEach': return this.parseFor();
+            case 'While': return this.parseWhile();
+            case 'Repeat': return this.parseRepeat();
+            case 'With': return this.parseWith();
+            case 'DataSection': return this.parseDataSection();
+            case 'Import':
+            case 'ImportC': return this.parseImport();
+            case 'HeaderSection': return this.parseHeaderSection();
+            case 'UseModule':
+            case 'UnuseModule': return this.finishSimple(this.parseUseModule());
+            case 'ProcedureReturn': return this.finishSimple(this.parseProcedureReturn());
+            case 'Runtime':
+                // `Runtime Procedure …` / `Runtime Enumeration …`: the prefix has no structural meaning.
+                if (this.peek(1).kind === TokenKind.Keyword) {
+                    this.next();
+                    return this.parseStatement();
+                }
+                break;
+        }
+
+        if (BLOCK_CLOSING_KEYWORDS.has(keyword)) {
+            this.next();
+            return this.finishSimple({ kind: 'UnmatchedEnd', keyword, range: token.range });
+        }
+
+        return this.finishSimple(this.parseCommand());
+    }
+
+    private parseProcedure(): Statement {
+        const keywordToken = this.next();
+        const returnType = this.parseTypeRef();
+        const nameToken = this.peek();
+        const name = nameToken.kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        const parameters = name && this.isOperator(this.peek(), '(') ? this.parseParameterList() : [];
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndProcedure'], CODE_BLOCK_IMPLICIT_CLOSERS, 'code');
+        const end = this.parseBlockEnd(['EndProcedure']);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'Procedure',
+            keyword: keywordToken.keyword!,
+            name,
+            returnType,
+            parameters,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseProcedureHeader(kind: 'Declare' | 'Prototype'): Statement {
+        const keywordToken = this.next();
+        const returnType = this.parseTypeRef();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        const parameters = name && this.isOperator(this.peek(), '(') ? this.parseParameterList() : [];
+        return {
+            kind,
+            keyword: keywordToken.keyword!,
+            name,
+            returnType,
+            parameters,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseMacro(): Statement {
+        const keywordToken = this.next();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        const parameters: NameNode[] = [];
+        if (this.isOperator(this.peek(), '(')) {
+            this.next();
+            while (!this.atStatementEnd() && !this.isOperator(this.peek(), ')')) {
+                const token = this.next();
+                if (token.kind === TokenKind.Identifier) {
+                    parameters.push(this.nameFrom(token));
+                }
+            }
+            if (this.isOperator(this.peek(), ')')) this.next();
+        }
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        // Macro bodies are raw token soup: collect tokens up to EndMacro.
+        const bodyTokens: Token[] = [];
+        let end: BlockEnd | undefined;
+        while (this.peek().kind !== TokenKind.EndOfFile) {
+            const token = this.peek();
+            if (this.isKeyword(token, 'EndMacro')) {
+                this.next();
+                end = { keyword: 'EndMacro', range: token.range };
+                this.skipToStatementEnd();
+                break;
+            }
+            bodyTokens.push(this.next());
+        }
+
+        return {
+            kind: 'Macro',
+            keyword: 'Macro',
+            name,
+            parameters,
+            bodyTokens,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseHeaderSection(): Statement {
+        const keywordToken = this.next();
+        const headerRange = this.rangeFrom(keywordToken);
+        let end: BlockEnd | undefined;
+        while (this.peek().kind !== TokenKind.EndOfFile) {
+            const token = this.next();
+            if (this.isKeyword(token, 'EndHeaderSection')) {
+                end = { keyword: 'EndHeaderSection', range: token.range };
+                this.skipToStatementEnd();
+                break;
+            }
+        }
+        return { kind: 'HeaderSection', keyword: 'HeaderSection', end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseStructure(): Statement {
+        const keywordToken = this.next();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        let extendsType: TypeRef | undefined;
+        while (!this.atStatementEnd()) {
+            const token = this.peek();
+            if (this.isKeyword(token, 'Extends')) {
+                this.next();
+                extendsType = this.parseQualifiedType();
+            } else if (this.isKeyword(token, 'Align')) {
+                this.next();
+                this.parseExpression();
+            } else {
+                break;
+            }
+        }
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndStructure'], DECLARATION_IMPLICIT_CLOSERS, 'structure');
+        const end = this.parseBlockEnd(['EndStructure']);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'Structure',
+            keyword: 'Structure',
+            name,
+            extends: extendsType,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseStructureUnion(): Statement {
+        const keywordToken = this.next();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+        const body = this.parseBody(['EndStructureUnion'], DECLARATION_IMPLICIT_CLOSERS, 'structure');
+        const end = this.parseBlockEnd(['EndStructureUnion']);
+        if (end) this.skipToStatementEnd();
+        return { kind: 'StructureUnion', keyword: 'StructureUnion', body, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseField(): Statement {
+        const start = this.peek();
+        const declarators = this.parseDeclaratorList(undefined, true);
+        return { kind: 'Field', declarators, range: this.rangeFrom(start) };
+    }
+
+    private parseInterface(): Statement {
+        const keywordToken = this.next();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        let extendsType: TypeRef | undefined;
+        if (this.isKeyword(this.peek(), 'Extends')) {
+            this.next();
+            extendsType = this.parseQualifiedType();
+        }
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndInterface'], DECLARATION_IMPLICIT_CLOSERS, 'interface');
+        const end = this.parseBlockEnd(['EndInterface']);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'Interface',
+            keyword: 'Interface',
+            name,
+            extends: extendsType,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseMethod(): Statement {
+        const nameToken = this.next();
+        const returnType = this.parseTypeRef();
+        const parameters = this.isOperator(this.peek(), '(') ? this.parseParameterList() : [];
+        return {
+            kind: 'Method',
+            name: this.nameFrom(nameToken),
+            returnType,
+            parameters,
+            range: this.rangeFrom(nameToken)
+        };
+    }
+
+    private parseEnumeration(): Statement {
+        const keywordToken = this.next();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        let start: Expression | undefined;
+        let step: Expression | undefined;
+        if (!this.atStatementEnd() && !this.isKeyword(this.peek(), 'Step')) {
+            start = this.parseExpression();
+        }
+        if (this.isKeyword(this.peek(), 'Step')) {
+            this.next();
+            step = this.parseExpression();
+        }
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndEnumeration'], DECLARATION_IMPLICIT_CLOSERS, 'enumeration');
+        const end = this.parseBlockEnd(['EndEnumeration']);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'Enumeration',
+            keyword: keywordToken.keyword!,
+            binary: keywordToken.keyword === 'EnumerationBinary',
+            name,
+            start,
+            step,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseModule(): Statement {
+        const keywordToken = this.next();
+        const declare = keywordToken.keyword === 'DeclareModule';
+        const closer = declare ? 'EndDeclareModule' : 'EndModule';
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody([closer], MODULE_IMPLICIT_CLOSERS, 'code');
+        const end = this.parseBlockEnd([closer]);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'Module',
+            keyword: keywordToken.keyword!,
+            declare,
+            name,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseIf(opener: 'If' | 'CompilerIf', elseIfKeyword: string, elseKeyword: string, endKeyword: string): Statement {
+        const keywordToken = this.next();
+        const closers = [elseIfKeyword, elseKeyword, endKeyword];
+        const implicit = opener === 'If' ? CODE_BLOCK_IMPLICIT_CLOSERS : NO_IMPLICIT_CLOSERS;
+        const branches: ConditionalBranch[] = [];
+
+        let branchToken = keywordToken;
+        let condition: Expression | undefined = this.parseExpression();
+        const headerRange = this.rangeFrom(keywordToken);
+
+        for (;;) {
+            this.skipToStatementEnd();
+            const body = this.parseBody(closers, implicit);
+            branches.push({
+                keyword: branchToken.keyword!,
+                keywordRange: branchToken.range,
+                condition,
+                body,
+                range: this.rangeFrom(branchToken)
+            });
+
+            const token = this.peek();
+            if (this.isKeyword(token, elseIfKeyword)) {
+                branchToken = this.next();
+                condition = this.parseExpression();
+            } else if (this.isKeyword(token, elseKeyword)) {
+                branchToken = this.next();
+                condition = undefined;
+            } else {
+                break;
+            }
+        }
+
+        const end = this.parseBlockEnd([endKeyword]);
+        if (end) this.skipToStatementEnd();
+
+        const statement: Statement = {
+            kind: opener,
+            keyword: opener,
+            branches,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+        if (opener === 'CompilerIf' && end) {
+            this.parseAlternateProcedureBody(branches);
+        }
+        return statement;
+    }
+
+    /**
+     * A CompilerIf may only choose between headers of the same procedure,
+     * each branch ending with an unclosed Procedure line:
+     *
+     *     CompilerIf #PB_Compiler_Unicode
+     *       Procedure Foo(Text$, Size = 2)
+     *     CompilerElse
+     *       Procedure Foo(Text$, Size = 1)
+     *     CompilerEndIf
+     *       ...
+     *     EndProcedure
+     *
+     * The body after CompilerEndIf goes to the last header; the EndProcedure
+     * closes every header.
+     */
+    private parseAlternateProcedureBody(branches: ConditionalBranch[]): void {
+        const headers = branches.map(branch => branch.body[branch.body.length - 1]);
+        const isOpenHeader = (stmt: Statement | undefined): stmt is ProcedureStatement =>
+            stmt?.kind === 'Procedure' && !stmt.end;
+        if (branches.length < 2 || !headers.every(isOpenHeader)) {
+            return;
+        }
+
+        const last = headers[headers.length - 1] as ProcedureStatement;
+        last.body = this.parseBody(['EndProcedure'], CODE_BLOCK_IMPLICIT_CLOSERS, 'code');
+        const end = this.parseBlockEnd(['EndProcedure']);
+        if (end) this.skipToStatementEnd();
+        last.range = this.rangeFrom(last.headerRange);
+        for (const header of headers as ProcedureStatement[]) {
+            header.end = end;
+        }
+    }
+
+    private parseSelect(opener: 'Select' | 'CompilerSelect', caseKeyword: string, defaultKeyword: string, endKeyword: string): Statement {
+        const keywordToken = this.next();
+        const closers = [caseKeyword, defaultKeyword, endKeyword];
+        const implicit = opener === 'Select' ? CODE_BLOCK_IMPLICIT_CLOSERS : NO_IMPLICIT_CLOSERS;
+        const subject = this.atStatementEnd() ? undefined : this.parseExpression();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(closers, implicit);
+        const cases: CaseClause[] = [];
+
+        for (;;) {
+            const token = this.peek();
+            if (!this.isKeyword(token, caseKeyword, defaultKeyword)) {
+                break;
+            }
+            this.next();
+            const values: Expression[] = [];
+            if (token.keyword === caseKeyword) {
+                while (!this.atStatementEnd()) {
+                    let value = this.parseExpression();
+                    if (this.isKeyword(this.peek(), 'To')) {
+                        this.next();
+                        const upper = this.parseExpression();
+                        value = { kind: 'Binary', operator: 'To', left: value, right: upper, range: spanRange(value.range, upper.range) };
+                    }
+                    values.push(value);
+                    if (!this.isOperator(this.peek(), ',')) break;
+                    this.next();
+                }
+            }
+            this.skipToStatementEnd();
+            const caseBody = this.parseBody(closers, implicit);
+            cases.push({
+                keyword: token.keyword!,
+                keywordRange: token.range,
+                values,
+                body: caseBody,
+                range: this.rangeFrom(token)
+            });
+        }
+
+        const end = this.parseBlockEnd([endKeyword]);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: opener,
+            keyword: opener,
+            subject,
+            body,
+            cases,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseFor(): Statement {
+        const keywordToken = this.next();
+        let variable: Expression | undefined;
+        let from: Expression | undefined;
+        let to: Expression | undefined;
+        let step: Expression | undefined;
+
+        if (keywordToken.keyword === 'ForEach') {
+            variable = this.parseExpression();
+        } else {
+            variable = this.parseUnary();
+            if (this.isOperator(this.peek(), '=')) {
+                this.next();
+                from = this.parseExpression();
+            }
+            if (this.isKeyword(this.peek(), 'To')) {
+                this.next();
+                to = this.parseExpression();
+            }
+            if (this.isKeyword(this.peek(), 'Step')) {
+                this.next();
+                step = this.parseExpression();
+            }
+        }
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['Next'], CODE_BLOCK_IMPLICIT_CLOSERS);
+        const end = this.parseBlockEnd(['Next']);
+        if (end) this.skipToStatementEnd();
+
+        return {
+            kind: 'For',
+            keyword: keywordToken.keyword!,
+            variable,
+            from,
+            to,
+            step,
+            body,
+            end,
+            headerRange,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseWhile(): Statement {
+        const keywordToken = this.next();
+        const condition = this.parseExpression();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['Wend'], CODE_BLOCK_IMPLICIT_CLOSERS);
+        const end = this.parseBlockEnd(['Wend']);
+        if (end) this.skipToStatementEnd();
+
+        return { kind: 'While', keyword: 'While', condition, body, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseRepeat(): Statement {
+        const keywordToken = this.next();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['Until', 'ForEver'], CODE_BLOCK_IMPLICIT_CLOSERS);
+        const end = this.parseBlockEnd(['Until', 'ForEver']);
+        let until: Expression | undefined;
+        if (end?.keyword === 'Until') {
+            until = this.parseExpression();
+        }
+        if (end) this.skipToStatementEnd();
+
+        return { kind: 'Repeat', keyword: 'Repeat', body, until, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseWith(): Statement {
+        const keywordToken = this.next();
+        const target = this.atStatementEnd() ? undefined : this.parseExpression();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndWith'], CODE_BLOCK_IMPLICIT_CLOSERS);
+        const end = this.parseBlockEnd(['EndWith']);
+        if (end) this.skipToStatementEnd();
+
+        return { kind: 'With', keyword: 'With', target, body, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseDataSection(): Statement {
+        const keywordToken = this.next();
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndDataSection'], CODE_BLOCK_IMPLICIT_CLOSERS, 'code');
+        const end = this.parseBlockEnd(['EndDataSection']);
+        if (end) this.skipToStatementEnd();
+
+        return { kind: 'DataSection', keyword: 'DataSection', body, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseImport(): Statement {
+        const keywordToken = this.next();
+        const libraryToken = this.peek();
+        const library = libraryToken.kind === TokenKind.String ? unquote(this.next().text) : undefined;
+        const headerRange = this.rangeFrom(keywordToken);
+        this.skipToStatementEnd();
+
+        const body = this.parseBody(['EndImport'], CODE_BLOCK_IMPLICIT_CLOSERS, 'code');
+        const end = this.parseBlockEnd(['EndImport']);
+        if (end) this.skipToStatementEnd();
+
+        return { kind: 'Import', keyword: keywordToken.keyword!, library, body, end, headerRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseVariableDeclaration(): Statement {
+        const keywordToken = this.next();
+        const defaultType = this.isAdjacent(keywordToken, this.peek()) ? this.parseTypeRef() : undefined;
+
+        // `Global NewList …`, `Protected Dim …`, `Define NewMap …`
+        let collection = COLLECTION_DECLARATION_KEYWORDS[keywordToken.keyword!];
+        const inner = this.peek();
+        if (!collection && inner.kind === TokenKind.Keyword && COLLECTION_DECLARATION_KEYWORDS[inner.keyword!]) {
+            collection = COLLECTION_DECLARATION_KEYWORDS[inner.keyword!];
+            this.next();
+        }
+
+        const declarators = this.parseDeclaratorList(collection, false);
+        return {
+            kind: 'VariableDeclaration',
+            keyword: keywordToken.keyword!,
+            keywordRange: keywordToken.range,
+            defaultType,
+            declarators,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseDeclaratorList(collection: CollectionKind | undefined, isField: boolean): VariableDeclarator[] {
+        const declarators: VariableDeclarator[] = [];
+        for (;;) {
+            const declarator = this.parseDeclarator(collection, isField);
+            if (!declarator) break;
+            declarators.push(declarator);
+            if (!this.isOperator(this.peek(), ',')) break;
+            this.next();
+        }
+        return declarators;
+    }
+
+    /**
+     * Parse `[Array|List|Map] [*]name[.Type][{len}][[size]][(dims)][= value]`.
+     */
+    private parseDeclarator(collection: CollectionKind | undefined, isField: boolean): VariableDeclarator | undefined {
+        const start = this.peek();
+        if (isField && this.isKeyword(start, 'Array', 'List', 'Map')) {
+            collection = start.keyword!.toLowerCase() as CollectionKind;
+            this.next();
+        }
+
+        let pointer = false;
+        if (this.isOperator(this.peek(), '*')) {
+            pointer = true;
+            this.next();
+        }
+
+        const nameToken = this.peek();
+        if (nameToken.kind !== TokenKind.Identifier) {
+            return undefined;
+        }
+        this.next();
+
+        const declarator: VariableDeclarator = {
+            name: this.nameFrom(nameToken),
+            pointer,
+            type: this.parseTypeRef(),
+            range: nameToken.range
+        };
+
+        if (this.isOperator(this.peek(), '{')) {
+            this.next();
+            declarator.fixedLength = this.parseExpression();
+            if (this.isOperator(this.peek(), '}')) this.next();
+        }
+        if (this.isOperator(this.peek(), '[')) {
+            this.next();
+            declarator.dimensions = this.parseExpressionList(']');
+        }
+        if (this.isOperator(this.peek(), '(')) {
+            this.next();
+            declarator.dimensions = this.parseExpressionList(')');
+            declarator.collection = collection ?? 'array';
+        } else if (collection) {
+            declarator.collection = collection;
+        }
+        if (!isField && this.isOperator(this.peek(), '=')) {
+            this.next();
+            declarator.initializer = this.parseExpression();
+        }
+
+        declarator.range = this.rangeFrom(start);
+        return declarator;
+    }
+
+    private parseConstantDefinition(): Statement {
+        const token = this.next();
+        const name: NameNode = { name: token.text.substring(1), range: token.range };
+        let value: Expression | undefined;
+        let missingValue = false;
+        if (this.isOperator(this.peek(), '=')) {
+            this.next();
+            if (this.atStatementEnd()) {
+                missingValue = true;
+            } else {
+                value = this.parseExpression();
+            }
+        } else if (this.context !== 'enumeration') {
+            // A constant used as a statement outside an Enumeration is an expression.
+            this.pos--;
+            return this.parseExpressionStatement();
+        }
+        return { kind: 'ConstantDefinition', name, value, missingValue, range: this.rangeFrom(token) };
+    }
+
+    private parseInclude(): Statement {
+        const keywordToken = this.next();
+        let path: string | undefined;
+        let pathRange: Range | undefined;
+        if (this.peek().kind === TokenKind.String) {
+            const pathToken = this.next();
+            path = unquote(pathToken.text);
+            pathRange = pathToken.range;
+        } else if (!this.atStatementEnd()) {
+            // Computed paths (e.g. `XIncludeFile #PB_Compiler_Home + "x.pbi"`).
+            this.parseExpression();
+        }
+        return { kind: 'Include', keyword: keywordToken.keyword!, path, pathRange, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseUseModule(): Statement {
+        const keywordToken = this.next();
+        const name = this.peek().kind === TokenKind.Identifier ? this.nameFrom(this.next()) : undefined;
+        return { kind: 'UseModule', keyword: keywordToken.keyword!, name, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseProcedureReturn(): Statement {
+        const keywordToken = this.next();
+        const value = this.atStatementEnd() ? undefined : this.parseExpression();
+        return { kind: 'ProcedureReturn', value, range: this.rangeFrom(keywordToken) };
+    }
+
+    private parseCommand(): Statement {
+        const keywordToken = this.next();
+        const type = this.isAdjacent(keywordToken, this.peek()) ? this.parseTypeRef() : undefined;
+        const args: Expression[] = [];
+        while (!this.atStatementEnd()) {
+            const token = this.peek();
+            if (token.kind === TokenKind.Keyword && this.isFrameCloser(token.keyword!)) break;
+            args.push(this.parseExpression());
+            if (!this.isOperator(this.peek(), ',')) break;
+            this.next();
+        }
+        return {
+            kind: 'Command',
+            keyword: keywordToken.keyword!,
+            keywordRange: keywordToken.range,
+            type,
+            args,
+            range: this.rangeFrom(keywordToken)
+        };
+    }
+
+    private parseExpressionStatement(): Statement {
+        const start = this.peek();
+        const target = this.parseUnary();
+        if (this.isOperator(this.peek(), '=')) {
+            this.next();
+            const value = this.parseExpression();
+            return { kind: 'Assignment', target, value, range: this.rangeFrom(start) };
+        }
+        // Shorthand arithmetic statements (`a + 1`) continue as binary expressions.
+        const expression = this.parseBinaryRest(target, 1);
+        return { kind: 'Expression', expression, range: this.rangeFrom(start) };
+    }
+
+    /* ---------------------------------------------------------------------- */
+    /* Parameters and types                                                   */
+    /* ---------------------------------------------------------------------- */
+
+    /** Parse `.Type` / `.Module::Type` directly following the current position. */
+    private parseTypeRef(): TypeRef | undefined {
+        const dot = this.peek();
+        const nameToken = this.peek(1);
+        if (!this.isOperator(dot, '.') ||
+            (nameToken.kind !== TokenKind.Identifier && nameToken.kind !== TokenKind.Keyword) ||
+            !this.isAdjacent(dot, nameToken)) {
+            return undefined;
+        }
+        this.next();
+        this.next();
+        return this.finishQualifiedType(dot, nameToken);
+    }
+
+    /** Parse a bare `Type` / `Module::Type` (after Extends). */
+    private parseQualifiedType(): TypeRef | undefined {
+        const nameToken = this.peek();
+        if (nameToken.kind !== TokenKind.Identifier) {
+            return undefined;
+        }
+        this.next();
+        return this.finishQualifiedType(nameToken, nameToken);
+    }
+
+    private finishQualifiedType(start: Token, nameToken: Token): TypeRef {
+        if (this.isOperator(this.peek(), '::') && this.peek(1).kind === TokenKind.Identifier) {
+            this.next();
+            const qualified = this.next();
+            return { name: qualified.text, module: nameToken.text, range: this.rangeFrom(start) };
+        }
+        return { name: nameToken.text, range: this.rangeFrom(start) };
+    }
+
+    private parseParameterList(): Parameter[] {
+        const parameters: Parameter[] = [];
+        this.next(); // '('
+        if (this.isOperator(this.peek(), ')')) {
+            this.next();
+            return parameters;
+        }
+
+        while (!this.atStatementEnd()) {
+            const parameter = this.parseParameter();
+            parameters.push(parameter);
+
+            const token = this.peek();
+            if (this.isOperator(token, ',')) {
+                this.next();
+                continue;
+            }
+            if (this.isOperator(token, ')')) {
+                this.next();
+                break;
+            }
+
+            // Unexpected tokens: mark invalid and resynchronise at ',' / ')'.
+            parameter.invalid = true;
+            const closed = this.skipBalancedUntil([',', ')']);
+            parameter.range = spanRange(parameter.range, this.lastToken.range);
+            if (closed === ')') {
+                this.next();
+                break;
+            }
+            if (closed === ',') {
+                this.next();
+            }
+        }
+        return parameters;
+    }
+
+    private parseParameter(): Parameter {
+        const start = this.peek();
+        let collection: CollectionKind | undefined;
+        if (this.isKeyword(start, 'Array', 'List', 'Map')) {
+            collection = start.keyword!.toLowerCase() as CollectionKind;
+            this.next();
+        }
+
+        let pointer = false;
+        if (this.isOperator(this.peek(), '*')) {
+            pointer = true;
+            this.next();
+        }
+
+        const parameter: Parameter = { pointer, collection, invalid: false, range: start.range };
+
+        const nameToken = this.peek();
+        if (nameToken.kind !== TokenKind.Identifier) {
+            parameter.invalid = true;
+            return parameter;
+        }
+        this.next();
+        parameter.name = this.nameFrom(nameToken);
+        parameter.type = this.parseTypeRef();
+
+        if (this.isOperator(this.peek(), '(')) {
+            this.next();
+            this.skipBalancedUntil([')']);
+            if (this.isOperator(this.peek(), ')')) this.next();
+        } else if (collection) {
+            // List / Map / Array parameters require parentheses.
+            parameter.invalid = true;
+        }
+
+        if (this.isOperator(this.peek(), '=')) {
+            this.next();
+            parameter.defaultValue = this.parseExpression();
+        }
+
+        parameter.range = this.rangeFrom(start);
+        return parameter;
+    }
+
+    /**
+     * Advance until one of `stops` is found at nesting depth 0 or the
+     * statement ends. Returns the stop operator found (not consumed).
+     */
+    private skipBalancedUntil(stops: string[]): string | undefined {
+        let depth = 0;
+        while (!this.atStatementEnd()) {
+            const token = this.peek();
+            if (token.kind === TokenKind.Operator) {
+                if (depth === 0 && stops.includes(token.text)) {
+                    return token.text;
+                }
+                if (token.text === '(' || token.text === '[') depth++;
+                if (token.text === ')' || token.text === ']') depth--;
+            }
+            this.next();
+        }
+        return undefined;
+    }
+
+    /* ---------------------------------------------------------------------- */
+    /* Expressions                                                            */
+    /* ---------------------------------------------------------------------- */
+
+    private parseExpression(minPrecedence = 1): Expression {
+        return this.parseBinaryRest(this.parseUnary(), minPrecedence);
+    }
+
+    private binaryOperatorOf(token: Token): string | undefined {
+        if (token.kind === TokenKind.Operator && BINARY_PRECEDENCE[token.text] !== undefined) {
+            return token.text;
+        }
+        if (token.kind === TokenKind.Keyword && ['And', 'Or', 'XOr'].includes(token.keyword!)) {
+            return token.keyword;
+        }
+        return undefined;
+    }
+
+    private parseBinaryRest(left: Expression, minPrecedence: number): Expression {
+        for (;;) {
+            const operator = this.binaryOperatorOf(this.peek());
+            if (!operator) break;
+            const precedence = BINARY_PRECEDENCE[operator];
+            if (precedence < minPrecedence) break;
+            this.next();
+            const right = this.parseExpression(precedence + 1);
+            left = { kind: 'Binary', operator, left, right, range: spanRange(left.range, right.range) };
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        const token = this.peek();
+
+        if (this.isKeyword(token, 'Not')) {
+            this.next();
+            const operand = this.parseExpression(2);
+            return { kind: 'Unary', operator: 'Not', operand, range: spanRange(token.range, operand.range) };
+        }
+
+        if (token.kind === TokenKind.Operator) {
+            // `*name` is a pointer identifier, handled as a primary.
+            const isPointerName = token.text === '*' && this.peek(1).kind === TokenKind.Identifier && this.isAdjacent(token, this.peek(1));
+            if (!isPointerName && ['-', '+', '~', '@', '?', '!'].includes(token.text)) {
+                this.next();
+                const operand = this.parseUnary();
+                return { kind: 'Unary', operator: token.text, operand, range: spanRange(token.range, operand.range) };
+            }
+        }
+
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private parsePrimary(): Expression {
+        const token = this.peek();
+
+        switch (token.kind) {
+            case TokenKind.Number:
+                this.next();
+                return { kind: 'Literal', literalKind: 'number', value: token.text, range: token.range };
+            case TokenKind.String:
+                this.next();
+                return { kind: 'Literal', literalKind: 'string', value: token.text, range: token.range };
+            case TokenKind.Char:
+                this.next();
+                return { kind: 'Literal', literalKind: 'char', value: token.text, range: token.range };
+            case TokenKind.Constant:
+                this.next();
+                return { kind: 'Constant', name: token.text.substring(1), nameRange: token.range, range: token.range };
+            case TokenKind.Identifier:
+                return this.parseIdentifierExpression(false);
+            case TokenKind.Operator:
+                if (token.text === '*' && this.peek(1).kind === TokenKind.Identifier) {
+                    return this.parseIdentifierExpression(true);
+                }
+                if (token.text === '(') {
+                    this.next();
+                    const expression = this.parseExpression();
+                    if (this.isOperator(this.peek(), ')')) this.next();
+                    return { kind: 'Parenthesized', expression, range: this.rangeFrom(token) };
+                }
+                if (token.text === '\\') {
+                    // `\member` inside a With block.
+                    return this.parseMemberAccess(undefined, token);
+                }
+                break;
+        }
+
+        // Do not consume the token: it may be a separator or a block keyword.
+        return { kind: 'Error', range: { start: token.range.start, end: token.range.start } };
+    }
+
+    private parseIdentifierExpression(pointer: boolean): Expression {
+        const start = this.next();
+        let nameToken = pointer ? this.next() : start;
+        let module: string | undefined;
+
+        if (this.isOperator(this.peek(), '::')) {
+            const qualified = this.peek(1);
+            if (qualified.kind === TokenKind.Constant) {
+                this.next();
+                this.next();
+                return {
+                    kind: 'Constant',
+                    name: qualified.text.substring(1),
+                    module: nameToken.text,
+                    nameRange: qualified.range,
+                    range: this.rangeFrom(start)
+                };
+            }
+            if (qualified.kind === TokenKind.Identifier) {
+                this.next();
+                this.next();
+                module = nameToken.text;
+                nameToken = qualified;
+            }
+        }
+
+        const identifier: IdentifierExpression = {
+            kind: 'Identifier',
+            name: nameToken.text,
+            module,
+            nameRange: nameToken.range,
+            pointer,
+            type: this.parseTypeRef(),
+            range: start.range
+        };
+        identifier.range = this.rangeFrom(start);
+
+        if (this.isOperator(this.peek(), '(')) {
+            const open = this.next();
+            const args = this.parseExpressionList(')');
+            return {
+                kind: 'Call',
+                callee: identifier,
+                args,
+                argumentsRange: this.rangeFrom(open),
+                range: this.rangeFrom(start)
+            };
+        }
+        return identifier;
+    }
+
+    private parsePostfix(expression: Expression): Expression {
+        for (;;) {
+            const token = this.peek();
+            if (this.isOperator(token, '\\')) {
+                expression = this.parseMemberAccess(expression, token);
+            } else if (this.isOperator(token, '[') && expression.kind !== 'Error') {
+                this.next();
+                const indices = this.parseExpressionList(']');
+                expression = { kind: 'Index', object: expression, indices, range: spanRange(expression.range, this.lastToken.range) };
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    private parseMemberAccess(object: Expression | undefined, backslash: Token): Expression {
+        this.next(); // '\'
+        const memberToken = this.peek();
+        if (memberToken.kind !== TokenKind.Identifier && memberToken.kind !== TokenKind.Keyword) {
+            return { kind: 'Error', range: backslash.range };
+        }
+        this.next();
+        const start = object ? object.range : backslash.range;
+        const member: NameNode = this.nameFrom(memberToken);
+        // Typed member access (`\field.Type`) is only a hint; skip it.
+        this.parseTypeRef();
+        if (this.isOperator(this.peek(), '(')) {
+            this.next();
+            const args = this.parseExpressionList(')');
+            return { kind: 'Member', object, member, args, range: spanRange(start, this.lastToken.range) };
+        }
+        return { kind: 'Member', object, member, range: spanRange(start, this.lastToken.range) };
+    }
+
+    /** Parse a comma-separated expression list after an opening bracket, consuming `close`. */
+    private parseExpressionList(close: string): Expression[] {
+        const items: Expression[] = [];
+        if (this.isOperator(this.peek(), close)) {
+            this.next();
+            return items;
+        }
+        while (!this.atStatementEnd()) {
+            const item = this.parseExpression();
+            items.push(item);
+            if (item.kind === 'Error') {
+                this.skipBalancedUntil([',', close]);
+            }
+            const token = this.peek();
+            if (this.isOperator(token, ',')) {
+                this.next();
+                continue;
+            }
+            if (this.isOperator(token, close)) {
+                this.next();
+            }
+            break;
+        }
+        return items;
+    }
+}
+
+/** Remove the surrounding quotes (and a leading `~`) from a string literal. */
+function unquote(text: string): string {
+    let value = text.startsWith('~') ? text.substring(1) : text;
+    if (value.startsWith('"')) value = value.substring(1);
+    if (value.endsWith('"')) value = value.substring(0, value.length - 1);
+    return value;
+}
+
+/**
+ * Parse PureBasic source text into a syntax tree.
+ */
+export function parseSyntaxTree(text: string): SyntaxTree {
+    const { tokens, comments, lineStarts } = tokenize(text);
+    const body = new Parser(tokens).parseDocument();
+    return { body, tokens, comments, lineStarts };
+}
+
+/* ========================================================================== */
+/* Syntax tree cache                                                          */
+/* ========================================================================== */
+
+const MAX_CACHED_TREES = 16;
+const treeCache = new Map<string, SyntaxTree>();
+
+/**
+ * Returns the syntax tree for `text`, reusing a cached tree when the same
+ * content was parsed recently. Validators, symbol extraction and providers
+ * usually request the tree for the same document version several times.
+ */
+export function getSyntaxTree(text: string): SyntaxTree {
+    const hash = generateHash(text);
+    const cached = treeCache.get(hash);
+    if (cached) {
+        // Refresh LRU position
+        treeCache.delete(hash);
+        treeCache.set(hash, cached);
+        return cached;
+    }
+
+    const tree = parseSyntaxTree(text);
+    treeCache.set(hash, tree);
+    if (treeCache.size > MAX_CACHED_TREES) {
+        const oldest = treeCache.keys().next().value;
+        if (oldest !== undefined) treeCache.delete(oldest);
+    }
+    return tree;
+}
+
+/**
+ * Returns the source text covered by `range`.
+ */
+export function getRangeText(text: string, tree: SyntaxTree, range: Range): string {
+    const start = (tree.lineStarts[range.start.line] ?? text.length) + range.start.character;
+    const end = (tree.lineStarts[range.end.line] ?? text.length) + range.end.character;
+    return text.substring(start, end);
+}
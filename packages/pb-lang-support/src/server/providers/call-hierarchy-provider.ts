@@ -0,0 +1,281 @@
+/**
+ * Call hierarchy provider
+ * Provides incoming / outgoing calls for PureBasic procedures
+ */
+
+import * as path from 'path';
+import {
+    CallHierarchyIncomingCall,
+    CallHierarchyIncomingCallsParams,
+    CallHierarchyItem,
+    CallHierarchyOutgoingCall,
+    CallHierarchyOutgoingCallsParams,
+    CallHierarchyPrepareParams,
+    Range,
+    SymbolKind
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ProjectManager } from '../managers/project-manager';
+import { collectWorkspaceDocuments, getDocumentByUri } from '../utils/document-collector';
+import { uriToFsPath } from '../utils/fs-utils';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { getEnclosingModule, getStatementExpressions, walkExpression, walkStatements } from '../parsers/pb-ast-walker';
+import { DeclareStatement, IdentifierExpression, ProcedureStatement } from '../parsers/pb-ast';
+
+/** A procedure (or Declare-only forward declaration) found in a document. */
+interface ProcedureDefinition {
+    uri: string;
+    name: string;
+    module?: string;
+    statement: ProcedureStatement | DeclareStatement;
+}
+
+/** A call expression together with the context needed to resolve it. */
+interface CallSite {
+    callee: IdentifierExpression;
+    /** Procedure containing the call; undefined for calls from the main code. */
+    caller?: ProcedureStatement;
+    /** Module containing the call. */
+    module?: string;
+    /** Modules made visible by UseModule at the call. */
+    usedModules: string[];
+}
+
+interface CallHierarchyData {
+    module?: string;
+}
+
+/**
+ * Handle call hierarchy prepare requests
+ */
+export function handlePrepareCallHierarchy(
+    params: CallHierarchyPrepareParams,
+    document: TextDocument,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): CallHierarchyItem[] | null {
+    const offset = document.offsetAt(params.position);
+    const contains = (range: Range) =>
+        offset >= document.offsetAt(range.start) && offset <= document.offsetAt(range.end);
+
+    const searchDocs = collectWorkspaceDocuments(document, allDocuments, projectManager);
+    const definitions = collectProcedureDefinitions(searchDocs);
+
+    // Cursor on a procedure or Declare name
+    const declared = definitions.find(def => def.uri === document.uri && def.statement.name && contains(def.statement.name.range));
+    if (declared) {
+        const target = declared.statement.kind === 'Declare'
+            ? resolveProcedure(definitions, declared.name, [declared.module]) ?? declared
+            : declared;
+        return [createItem(target)];
+    }
+
+    // Cursor on a call
+    const call = collectCallSites(document.getText()).find(site => contains(site.callee.nameRange));
+    if (call) {
+        const target = resolveCallSite(definitions, call);
+        return target ? [createItem(target)] : null;
+    }
+
+    return null;
+}
+
+/**
+ * Handle incoming calls requests ("who calls this")
+ */
+export function handleIncomingCalls(
+    params: CallHierarchyIncomingCallsParams,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): CallHierarchyIncomingCall[] {
+    const document = getDocumentByUri(params.item.uri, allDocuments);
+    if (!document) return [];
+
+    const searchDocs = collectWorkspaceDocuments(document, allDocuments, projectManager);
+    const definitions = collectProcedureDefinitions(searchDocs);
+    const key = itemKey(params.item);
+
+    const calls = new Map<string, CallHierarchyIncomingCall>();
+    for (const doc of searchDocs.values()) {
+        for (const site of collectCallSites(doc.getText())) {
+            if (site.callee.name.toLowerCase() !== params.item.name.toLowerCase()) continue;
+            const target = resolveCallSite(definitions, site);
+            if (!target || definitionKey(target) !== key) continue;
+
+            const from = site.caller
+                ? createItem({ uri: doc.uri, name: site.caller.name!.name, module: site.module, statement: site.caller })
+                : createFileItem(doc);
+            const fromKey = `${from.uri}#${from.selectionRange.start.line}:${from.selectionRange.start.character}`;
+
+            const existing = calls.get(fromKey);
+            if (existing) {
+                existing.fromRanges.push(site.callee.nameRange);
+            } else {
+                calls.set(fromKey, { from, fromRanges: [site.callee.nameRange] });
+            }
+        }
+    }
+
+    return Array.from(calls.values());
+}
+
+/**
+ * Handle outgoing calls requests ("what does this call")
+ */
+export function handleOutgoingCalls(
+    params: CallHierarchyOutgoingCallsParams,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): CallHierarchyOutgoingCall[] {
+    const document = getDocumentByUri(params.item.uri, allDocuments);
+    if (!document) return [];
+
+    const searchDocs = collectWorkspaceDocuments(document, allDocuments, projectManager);
+    const definitions = collectProcedureDefinitions(searchDocs);
+    const start = params.item.selectionRange.start;
+
+    const calls = new Map<string, CallHierarchyOutgoingCall>();
+    for (const site of collectCallSites(document.getText())) {
+        const name = site.caller?.name;
+        if (!name || name.range.start.line !== start.line || name.range.start.character !== start.character) continue;
+
+        const target = resolveCallSite(definitions, site);
+        if (!target) continue;
+
+        const key = definitionKey(target);
+        const existing = calls.get(key);
+        if (existing) {
+            existing.fromRanges.push(site.callee.nameRange);
+        } else {
+            calls.set(key, { to: createItem(target), fromRanges: [site.callee.nameRange] });
+        }
+    }
+
+    return Array.from(calls.values());
+}
+
+/**
+ * Collect Procedure and Declare statements of all documents, with their module.
+ */
+function collectProcedureDefinitions(searchDocs: Map<string, TextDocument>): ProcedureDefinition[] {
+    const definitions: ProcedureDefinition[] = [];
+
+    for (const doc of searchDocs.values()) {
+        const tree = getSyntaxTree(doc.getText());
+        walkStatements(tree.body, (stmt, parents) => {
+            if ((stmt.kind === 'Procedure' || stmt.kind === 'Declare') && stmt.name) {
+                definitions.push({
+                    uri: doc.uri,
+                    name: stmt.name.name,
+                    module: getEnclosingModule(parents),
+                    statement: stmt
+                });
+            }
+            return undefined;
+        });
+    }
+
+    return definitions;
+}
+
+/**
+ * Collect all procedure calls of a document in source order.
+ */
+function collectCallSites(text: string): CallSite[] {
+    const tree = getSyntaxTree(text);
+    const sites: CallSite[] = [];
+    const usedModules = new Set<string>();
+
+    walkStatements(tree.body, (stmt, parents) => {
+        if (stmt.kind === 'UseModule' && stmt.name) {
+            if (stmt.keyword === 'UseModule') {
+                usedModules.add(stmt.name.name);
+            } else {
+                usedModules.delete(stmt.name.name);
+            }
+        }
+
+        const caller = [...parents].reverse().find((p): p is ProcedureStatement => p.kind === 'Procedure');
+        for (const expression of getStatementExpressions(stmt)) {
+            walkExpression(expression, node => {
+                if (node.kind === 'Call') {
+                    sites.push({
+                        callee: node.callee,
+                        caller: caller?.name ? caller : undefined,
+                        module: getEnclosingModule(parents),
+                        usedModules: Array.from(usedModules)
+                    });
+                }
+            });
+        }
+        return undefined;
+    });
+
+    return sites;
+}
+
+/**
+ * Resolve a call to its procedure: `Module::Proc()` only matches procedures
+ * of that module, unqualified calls look in the calling module, the main code
+ * and the modules opened by UseModule, in that order.
+ */
+function resolveCallSite(definitions: ProcedureDefinition[], site: CallSite): ProcedureDefinition | undefined {
+    const modules = site.callee.module
+        ? [site.callee.module]
+        : [site.module, undefined, ...site.usedModules];
+    return resolveProcedure(definitions, site.callee.name, modules);
+}
+
+/**
+ * Find the procedure `name` in the first of `modules` that has one.
+ * A Procedure is preferred over its Declare forward declaration.
+ */
+function resolveProcedure(
+    definitions: ProcedureDefinition[],
+    name: string,
+    modules: Array<string | undefined>
+): ProcedureDefinition | undefined {
+    const key = name.toLowerCase();
+    for (const module of modules) {
+        const candidates = definitions.filter(def =>
+            def.name.toLowerCase() === key && def.module?.toLowerCase() === module?.toLowerCase());
+        const match = candidates.find(def => def.statement.kind === 'Procedure') ?? candidates[0];
+        if (match) return match;
+    }
+    return undefined;
+}
+
+function definitionKey(def: ProcedureDefinition): string {
+    return `${def.module?.toLowerCase() ?? ''}::${def.name.toLowerCase()}`;
+}
+
+function itemKey(item: CallHierarchyItem): string {
+    const data = item.data as CallHierarchyData | undefined;
+    return `${data?.module?.toLowerCase() ?? ''}::${item.name.toLowerCase()}`;
+}
+
+function createItem(def: ProcedureDefinition): CallHierarchyItem {
+    const statement = def.statement;
+    const data: CallHierarchyData = { module: def.module };
+    return {
+        name: def.name,
+        kind: SymbolKind.Function,
+        detail: def.module ? `${def.module}::${def.name}` : undefined,
+        uri: def.uri,
+        range: statement.range,
+        selectionRange: statement.name!.range,
+        data
+    };
+}
+
+/** Caller item for calls from the main code of a file. */
+function createFileItem(document: TextDocument): CallHierarchyItem {
+    const start = { line: 0, character: 0 };
+    return {
+        name: path.basename(uriToFsPath(document.uri)),
+        kind: SymbolKind.File,
+        uri: document.uri,
+        range: { start, end: document.positionAt(document.getText().length) },
+        selectionRange: { start, end: start }
+    };
+}
@@ -0,0 +1,231 @@
+/**
+ * Code Action Provider
+ * Quick fixes for the diagnostics reported by the validators, plus
+ * adding EnableExplicit.
+ */
+
+import * as path from 'path';
+import {
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    Diagnostic,
+    TextEdit
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { getStatementExpressions, walkExpression, walkStatements } from '../parsers/pb-ast-walker';
+import { ProcedureStatement, Statement, SyntaxTree } from '../parsers/pb-ast';
+import { findVariableUse, VariableUse } from '../validation/undeclared-variable-validator';
+import { DIAGNOSTIC_SOURCE } from '../utils/constants';
+import { fsPathToUri, normalizeDirPath, uriToFsPath } from '../utils/fs-utils';
+
+/**
+ * Handle code action requests
+ */
+export function handleCodeAction(params: CodeActionParams, document: TextDocument): CodeAction[] {
+    const actions: CodeAction[] = [];
+    const tree = getSyntaxTree(document.getText());
+
+    for (const diagnostic of params.context.diagnostics) {
+        if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+
+        const unclosed = diagnostic.message.match(/^Unclosed .*Missing (\w+)/);
+        if (unclosed) {
+            const action = createInsertClosingKeywordAction(document, tree, diagnostic, unclosed[1]);
+            if (action) actions.push(action);
+            continue;
+        }
+
+        const missingInclude = diagnostic.message.match(/^Include file not found: "([^"]+)"/);
+        if (missingInclude) {
+            actions.push(createMissingIncludeAction(document, diagnostic, missingInclude[1]));
+            continue;
+        }
+
+        if (/^Variable not declared: /.test(diagnostic.message)) {
+            const variable = findVariableUse(tree, diagnostic.range);
+            if (variable) actions.push(createDeclareVariableAction(document, tree, diagnostic, variable));
+        }
+    }
+
+    const enableExplicit = createEnableExplicitAction(document, tree);
+    if (enableExplicit) actions.push(enableExplicit);
+
+    const only = params.context.only;
+    return only
+        ? actions.filter(action => only.some(kind => action.kind === kind || action.kind?.startsWith(kind + '.')))
+        : actions;
+}
+
+/**
+ * Insert the closing keyword of a block reported by the unclosed structure validator.
+ * The block ends after its last statement, so the keyword goes on the following line.
+ */
+function createInsertClosingKeywordAction(
+    document: TextDocument,
+    tree: SyntaxTree,
+    diagnostic: Diagnostic,
+    closer: string
+): CodeAction | undefined {
+    let block: Statement | undefined;
+    walkStatements(tree.body, stmt => {
+        if (block) return false;
+        if ('headerRange' in stmt && stmt.end === undefined &&
+            stmt.headerRange.start.line === diagnostic.range.start.line) {
+            block = stmt;
+        }
+        return undefined;
+    });
+    if (!block || !('headerRange' in block)) {
+        return undefined;
+    }
+
+    // An 'Until' needs a condition, so an unclosed Repeat loop is closed with ForEver
+    const keyword = closer === 'Until' ? 'ForEver' : closer;
+    const lines = document.getText().split(/\r?\n/);
+    const lastLine = block.range.end.line;
+    const indent = getIndent(lines[block.headerRange.start.line] ?? '');
+    const position = { line: lastLine, character: (lines[lastLine] ?? '').length };
+
+    return {
+        title: `Insert '${keyword}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+            changes: {
+                [document.uri]: [TextEdit.insert(position, `\n${indent}${keyword}`)]
+            }
+        }
+    };
+}
+
+/**
+ * Create the file of an IncludeFile / XIncludeFile directive that does not exist.
+ * Relative paths are resolved against the last IncludePath before the directive,
+ * or the document directory.
+ */
+function createMissingIncludeAction(document: TextDocument, diagnostic: Diagnostic, includePath: string): CodeAction {
+    const lines = document.getText().split(/\r?\n/);
+    let baseDir = path.dirname(uriToFsPath(document.uri));
+
+    for (let i = 0; i < diagnostic.range.start.line && i < lines.length; i++) {
+        const includePathMatch = lines[i].trim().match(/^IncludePath\s+"([^"]+)"/i);
+        if (includePathMatch) {
+            baseDir = normalizeDirPath(document.uri, includePathMatch[1]);
+        }
+    }
+
+    const target = path.isAbsolute(includePath) ? includePath : path.resolve(baseDir, includePath);
+
+    return {
+        title: `Create '${includePath}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: {
+            documentChanges: [
+                { kind: 'create', uri: fsPathToUri(target), options: { ignoreIfExists: true } }
+            ]
+        }
+    };
+}
+
+/**
+ * Declare a variable with Protected (inside a procedure) or Define (main code),
+ * keeping the type given at its first use.
+ */
+function createDeclareVariableAction(
+    document: TextDocument,
+    tree: SyntaxTree,
+    diagnostic: Diagnostic,
+    variable: VariableUse
+): CodeAction {
+    const { identifier, statement, procedure } = variable;
+    const lines = document.getText().split(/\r?\n/);
+    const keyword = procedure ? 'Protected' : 'Define';
+    const type = findFirstType(tree, identifier.name, procedure);
+    const declaration = `${keyword} ${identifier.pointer ? '*' : ''}${identifier.name}${type ? '.' + type : ''}`;
+
+    let edit: TextEdit;
+    if (procedure) {
+        const headerLine = procedure.headerRange.end.line;
+        const firstStatement = procedure.body[0];
+        const indent = firstStatement && firstStatement.range.start.line > headerLine
+            ? getIndent(lines[firstStatement.range.start.line] ?? '')
+            : getIndent(lines[procedure.headerRange.start.line] ?? '') + '    ';
+        edit = TextEdit.insert(
+            { line: headerLine, character: (lines[headerLine] ?? '').length },
+            `\n${indent}${declaration}`
+        );
+    } else {
+        // Before the statement, which may continue over several lines
+        const line = statement.range.start.line;
+        edit = TextEdit.insert({ line, character: 0 }, `${getIndent(lines[line] ?? '')}${declaration}\n`);
+    }
+
+    return {
+        title: `Declare '${identifier.name}' with ${keyword}`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: { changes: { [document.uri]: [edit] } }
+    };
+}
+
+/**
+ * Type annotation of the first typed use of `name` within the procedure (or main code).
+ */
+function findFirstType(tree: SyntaxTree, name: string, procedure: ProcedureStatement | undefined): string | undefined {
+    const key = name.toLowerCase();
+    let type: string | undefined;
+
+    walkStatements(procedure ? procedure.body : tree.body, stmt => {
+        if (type || (!procedure && stmt.kind === 'Procedure')) return false;
+        for (const expression of getStatementExpressions(stmt)) {
+            walkExpression(expression, node => {
+                if (!type && node.kind === 'Identifier' && node.name.toLowerCase() === key && node.type) {
+                    type = node.type.name;
+                }
+            });
+        }
+        return undefined;
+    });
+
+    return type;
+}
+
+/**
+ * Add EnableExplicit before the first statement, unless the document already has it.
+ */
+function createEnableExplicitAction(document: TextDocument, tree: SyntaxTree): CodeAction | undefined {
+    let enabled = false;
+    walkStatements(tree.body, stmt => {
+        if (stmt.kind === 'Command' && stmt.keyword === 'EnableExplicit') {
+            enabled = true;
+        }
+        return enabled ? false : undefined;
+    });
+    if (enabled) {
+        return undefined;
+    }
+
+    const first = tree.body[0];
+    const position = first
+        ? { line: first.range.start.line, character: 0 }
+        : document.positionAt(document.getText().length);
+
+    return {
+        title: 'Add EnableExplicit',
+        kind: CodeActionKind.Source,
+        edit: {
+            changes: {
+                [document.uri]: [TextEdit.insert(position, first ? 'EnableExplicit\n\n' : 'EnableExplicit\n')]
+            }
+        }
+    };
+}
+
+function getIndent(line: string): string {
+    return line.match(/^\s*/)?.[0] ?? '';
+}
@@ -11,10 +11,14 @@ import {
     InsertTextFormat
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { keywords, types, typeSuffixDefinitions, windowsApiFunctions, parsePureBasicConstantDefinition } from '../utils/constants';
-import { allBuiltinNames, findBuiltin } from '../utils/builtin-functions';
-import { stripInlineComment, isPositionInString } from '../utils/pb-lexer-utils';
-import { ApiFunctionListing } from '../utils/api-function-listing';
+import { keywords, types, typeSuffixDefinitions, windowsApiFunctions } from '../utils/constants';
+import { allBuiltinNames, findBuiltin } from '../../shared/builtin-functions';
+import { getBaseType } from '../utils/pb-lexer-utils';
+import { getRangeText, getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
+import { Statement, SyntaxTree } from '../parsers/pb-ast';
+import { Token, TokenKind } from '../parsers/pb-lexer';
+import { ApiFunctionListing } from '../../shared/api-function-listing';
 import { getAvailableModules, getModuleExports } from '../utils/module-resolver';
 import { analyzeScopesAndVariables, getActiveUsedModules, VariableInfo } from '../utils/scope-manager';
 import { parseIncludeFiles } from '../utils/module-resolver';
@@ -66,27 +70,25 @@ function handleCompletionInternal(
         return { isIncomplete: false, items: [] };
     }
 
-    const currentLine = lines[position.line];
-    const linePrefix = currentLine.substring(0, position.character);
+    const tree = getSyntaxTree(text);
+    const offset = document.offsetAt(position);
 
     // Get the context that triggers completion
-    const context = getTriggerContext(linePrefix);
+    const context = getTriggerContext(tree, offset);
 
-    // No completions inside string literals.
-    // isInString is correctly calculated in getTriggerContext (with comment-strip).
-    if (context.isInString) {
+    // No completions inside string literals and comments
+    if (context.isInString || context.isInComment) {
         return { isIncomplete: false, items: [] };
     }
 
     // Structure member access completion var\member  (also handles chained var\a\b\prefix)
     if (context.isAfterStructAccess) {
-        const documentText = document.getText();
-        const scopeAnalysis = analyzeScopesAndVariables(documentText, position.line);
+        const scopeAnalysis = analyzeScopesAndVariables(text, position.line);
         const structIndex = buildStructureIndex(document, documentCache);
 
         // Resolve the struct type – either direct variable or chained member access.
         const resolvedType = resolveStructAccessType(
-            linePrefix,
+            context.structAccessChain,
             scopeAnalysis.availableVariables,
             structIndex
         );
@@ -114,16 +116,13 @@ function handleCompletionInternal(
 
     // With-block member access: \member (no variable prefix)
     if (context.isAfterWithAccess) {
-        const documentText = document.getText();
-        const docLines = documentText.split('\n');
-
         // Find the variable bound by the innermost active With block
-        const withVarName = findActiveWithVariable(docLines, position.line);
+        const withVarName = findActiveWithVariable(document, tree, offset);
         if (!withVarName) {
             return { isIncomplete: false, items: [] };
         }
 
-        const scopeAnalysis = analyzeScopesAndVariables(documentText, position.line);
+        const scopeAnalysis = analyzeScopesAndVariables(text, position.line);
         const normalizeVar = (n: string) => n.replace(/^\*/, '');
         const varInfo = scopeAnalysis.availableVariables.find(
             v => v.name.toLowerCase() === normalizeVar(withVarName).toLowerCase()
@@ -862,12 +861,10 @@ function handleCompletionInternal(
     };
 }
 
-/**
- * Get the context that triggers completion
- */
-function getTriggerContext(linePrefix: string): {
+interface TriggerContext {
     prefix: string;
     isInString: boolean;
+    isInComment: boolean;
     isAfterModuleOperator: boolean;
     moduleName: string;
     moduleMemberPrefix: string;
@@ -876,104 +873,185 @@ function getTriggerContext(linePrefix: string): {
     isModuleConstantContext: boolean;
     moduleConstPrefix: string;
     isAfterStructAccess: boolean;
-    structVarName: string;
+    /** Names of the accessed variable and members, e.g. ['foo', 'address'] for `foo()\address\str`. */
+    structAccessChain: string[];
     structMemberPrefix: string;
     isAfterWithAccess: boolean;
     withMemberPrefix: string;
     isAfterTypeAnnotation: boolean;
     typeAnnotationPrefix: string;
-} {
-    // isInString – use the lexer-aware scanner that correctly handles both
-    // regular "..." strings and escape ~"..." strings (where \" does not
-    // terminate the string).  Simple quote-count parity would mis-classify
-    // escape strings that contain \" sequences.
-    const isInString = isPositionInString(linePrefix, linePrefix.length);
-
-    // isAfterDot removed. In PureBasic '.' is the type-annotation separator
-    // (e.g. var.i, Procedure.s), NOT a member-access operator. Member access uses '\'.
-    // isAfterDot was also never read anywhere in handleCompletionInternal → dead code.
-
-    // Check if it follows the module operator: Module:: or Module::# or Module:: prefix
-    const moduleConstMatch = linePrefix.match(/([a-zA-Z_]\w*)::#([a-zA-Z_]\w*\$?)?$/);
-    const moduleMatch = moduleConstMatch || linePrefix.match(/([a-zA-Z_]\w*)::(\w*)$/);
-    const isAfterModuleOperator = !!moduleMatch;
-    const moduleName = moduleMatch ? moduleMatch[1] : '';
-    const moduleMemberPrefix = moduleConstMatch ? '' : (moduleMatch ? moduleMatch[2] : '');
-    const isModuleConstantContext = !!moduleConstMatch;
-    const moduleConstPrefix = moduleConstMatch ? (moduleConstMatch[2] ?? '') : '';
-
-    // Check if in constant context: #Name... (but not after Module::)
-    const constMatch = linePrefix.match(/#([a-zA-Z_]\w*\$?)?$/);
-    const isConstantContext = !!constMatch && !isAfterModuleOperator; // Non-module #
-    const constPrefix = constMatch ? constMatch[1] : '';
-
-    // Check if for structure member access var\member
-    const structMatch = linePrefix.match(/([A-Za-z_][A-Za-z0-9_]*|\*[A-Za-z_][A-Za-z0-9_]*)(?:\([^)]*\))?\\(\w*)$/);
-    const isAfterStructAccess = !!structMatch;
-    const structVarName = structMatch ? structMatch[1] : '';
-    const structMemberPrefix = structMatch ? structMatch[2] : '';
-
-    // With-block access – \member without a preceding variable name.
-    // In PureBasic, inside a With/EndWith block, members are accessed as \Name
-    // without repeating the variable. The regex matches a \ that is preceded only
-    // by whitespace, an operator, or start-of-line (but NOT by an identifier, which
-    // is already handled by isAfterStructAccess above).
-    // Examples:
-    //   "  \na"          → isAfterWithAccess=true,  withMemberPrefix="na" 
-    //   "  myVar\na"     → isAfterStructAccess=true, isAfterWithAccess=false 
-    //   "x = \field"     → isAfterWithAccess=true,  withMemberPrefix="field" 
-    const withAccessMatch = !isAfterStructAccess
-        ? linePrefix.match(/(?:^|[\s=+\-*/(<,;])\\(\w*)$/)
-        : null;
-    const isAfterWithAccess = !!withAccessMatch;
-    const withMemberPrefix = withAccessMatch ? (withAccessMatch[1] ?? '') : '';
-
-    // Type annotation context: identifier. or *identifier. (type suffix after variable/Procedure)
-    // In PureBasic '.' is the type-annotation separator (var.i, Procedure.s, param.MyStruct).
-    // Member access uses '\' and is already handled by isAfterStructAccess.
-    // Module access uses '::' and is already handled by isAfterModuleOperator.
-    const typeAnnotationMatch = !isAfterStructAccess && !isAfterModuleOperator && !isInString
-        ? linePrefix.match(/\*?[a-zA-Z_]\w*\.([a-zA-Z_]\w*)$|\*?[a-zA-Z_]\w*\.()$/)
-        : null;
-    const isAfterTypeAnnotation = !!typeAnnotationMatch;
-    const typeAnnotationPrefix = typeAnnotationMatch ? (typeAnnotationMatch[1] ?? typeAnnotationMatch[2] ?? '') : '';
-
-    // Get current word prefix
-    const match = linePrefix.match(/([a-zA-Z_][a-zA-Z0-9_]*)$/);
-    const prefix = match ? match[1] : '';
+}
 
-    return {
-        prefix,
-        isInString,
-        isAfterModuleOperator,
-        moduleName,
-        moduleMemberPrefix,
-        isConstantContext,
-        constPrefix,
-        isModuleConstantContext,
-        moduleConstPrefix,
-        isAfterStructAccess,
-        structVarName,
-        structMemberPrefix,
-        isAfterWithAccess,
-        withMemberPrefix,
-        isAfterTypeAnnotation,
-        typeAnnotationPrefix
+/**
+ * Get the context that triggers completion from the tokens of the statement
+ * in front of the cursor. Lines continued with `_` belong to the statement,
+ * `:` starts a new one, and keywords inside strings are never seen.
+ */
+function getTriggerContext(tree: SyntaxTree, offset: number): TriggerContext {
+    const context: TriggerContext = {
+        prefix: '',
+        isInString: false,
+        isInComment: tree.comments.some(comment => offset > comment.offset && offset <= comment.end),
+        isAfterModuleOperator: false,
+        moduleName: '',
+        moduleMemberPrefix: '',
+        isConstantContext: false,
+        constPrefix: '',
+        isModuleConstantContext: false,
+        moduleConstPrefix: '',
+        isAfterStructAccess: false,
+        structAccessChain: [],
+        structMemberPrefix: '',
+        isAfterWithAccess: false,
+        withMemberPrefix: '',
+        isAfterTypeAnnotation: false,
+        typeAnnotationPrefix: ''
     };
+
+    // Tokens of the current statement up to the cursor; a word the cursor is
+    // in is cut at the cursor
+    const tail: Token[] = [];
+    for (const token of tree.tokens) {
+        if (token.end > offset || token.kind === TokenKind.EndOfFile) {
+            if (token.offset < offset) {
+                if (token.kind === TokenKind.String) {
+                    context.isInString = true;
+                } else if (isWord(token) || token.kind === TokenKind.Constant) {
+                    tail.push({ ...token, text: token.text.substring(0, offset - token.offset), end: offset });
+                }
+            }
+            break;
+        }
+        if (token.kind === TokenKind.Newline || token.kind === TokenKind.Colon) {
+            tail.length = 0;
+        } else {
+            tail.push(token);
+        }
+    }
+
+    const last = tail[tail.length - 1];
+    if (last?.end !== offset) {
+        return context;
+    }
+    if (last.kind === TokenKind.String) {
+        // An unterminated string ends at the cursor
+        context.isInString = !isClosedString(last);
+        return context;
+    }
+
+    // Constant context: #Name or Module::#Name
+    if (last.kind === TokenKind.Constant || (last.kind === TokenKind.Unknown && last.text === '#')) {
+        const name = last.text.substring(1);
+        const before = tail[tail.length - 2];
+        const module = tail[tail.length - 3];
+        if (isOperator(before, '::') && isWord(module)) {
+            context.isAfterModuleOperator = true;
+            context.moduleName = module.text;
+            context.isModuleConstantContext = true;
+            context.moduleConstPrefix = name;
+        } else {
+            context.isConstantContext = true;
+            context.constPrefix = name;
+        }
+        return context;
+    }
+
+    // Current word prefix and the token in front of it
+    let index = tail.length - 1;
+    if (isWord(last)) {
+        context.prefix = last.text;
+        index--;
+    }
+    const before = tail[index];
+
+    // Module call Module::Name
+    if (isOperator(before, '::') && isWord(tail[index - 1])) {
+        context.isAfterModuleOperator = true;
+        context.moduleName = tail[index - 1].text;
+        context.moduleMemberPrefix = context.prefix;
+        return context;
+    }
+
+    // Structure member access var\member, or \member inside a With block
+    if (isOperator(before, '\\')) {
+        const chain = readAccessChain(tail, index - 1);
+        if (chain) {
+            context.isAfterStructAccess = true;
+            context.structAccessChain = chain;
+            context.structMemberPrefix = context.prefix;
+        } else {
+            context.isAfterWithAccess = true;
+            context.withMemberPrefix = context.prefix;
+        }
+        return context;
+    }
+
+    // Type annotation: identifier. or *identifier. (also Procedure. / Define.)
+    // In PureBasic '.' is the type-annotation separator, member access uses '\'.
+    const annotated = tail[index - 1];
+    const next = tail[index + 1];
+    if (isOperator(before, '.') && before.end === (next ? next.offset : offset) &&
+        isWord(annotated) && annotated.end === before.offset) {
+        context.isAfterTypeAnnotation = true;
+        context.typeAnnotationPrefix = context.prefix;
+    }
+
+    return context;
 }
 
-// Get base type name (remove pointers/arrays/annotations)
-function getBaseType(typeStr: string): string {
-    if (!typeStr) return '';
-    // Remove suffix comments, e.g. " (array)", " (pointer)"
-    const cleaned = typeStr.split(' ')[0];
-    // Handle *Type
-    const noPtr = cleaned.startsWith('*') ? cleaned.substring(1) : cleaned;
-    // Handle Type[]
-    const arrIdx = noPtr.indexOf('[');
-    const base = arrIdx > -1 ? noPtr.substring(0, arrIdx) : noPtr;
-    // Filter built-in short types (i,s,f, etc.), only meaningful for structure names (usually camelCase)
-    return base;
+function isWord(token: Token | undefined): boolean {
+    return token?.kind === TokenKind.Identifier || token?.kind === TokenKind.Keyword;
+}
+
+function isOperator(token: Token | undefined, text: string): boolean {
+    return token?.kind === TokenKind.Operator && token.text === text;
+}
+
+/**
+ * Whether a string token ends with its closing quote. In ~"..." strings an
+ * escaped quote (\") does not close the string.
+ */
+function isClosedString(token: Token): boolean {
+    const isEscape = token.text.startsWith('~');
+    const body = isEscape ? token.text.substring(1) : token.text;
+    if (body.length < 2 || !body.endsWith('"')) {
+        return false;
+    }
+    const backslashes = body.length - 1 - body.substring(0, body.length - 1).replace(/\\+$/, '').length;
+    return !isEscape || backslashes % 2 === 0;
+}
+
+/**
+ * Read the member access chain `a\b()\c` that ends at `tail[index]`, root first.
+ * Call arguments, array indices and pointer stars are skipped. Returns
+ * undefined when nothing precedes the backslash (`\member` in a With block).
+ */
+function readAccessChain(tail: Token[], index: number): string[] | undefined {
+    const names: string[] = [];
+    let i = index;
+
+    for (;;) {
+        const close = tail[i];
+        if (isOperator(close, ')') || isOperator(close, ']')) {
+            const open = close.text === ')' ? '(' : '[';
+            let depth = 0;
+            for (; i >= 0; i--) {
+                if (isOperator(tail[i], close.text)) depth++;
+                else if (isOperator(tail[i], open) && --depth === 0) break;
+            }
+            i--;
+        }
+
+        const name = tail[i];
+        if (!isWord(name)) break;
+        names.unshift(name.text);
+        i--;
+        if (isOperator(tail[i], '*') && tail[i].end === name.offset) i--;
+        if (!isOperator(tail[i], '\\')) break;
+        i--;
+    }
+
+    return names.length > 0 ? names : undefined;
 }
 
 // Build structure index: structure name -> member list
@@ -987,36 +1065,25 @@ function buildStructureIndex(document: TextDocument, documentCache: Map<string,
         map.set(structName, list);
     };
 
-    const addFromText = (text: string) => {
-        const lines = text.split('\n');
-        let current: string | null = null;
-        for (let i = 0; i < lines.length; i++) {
-            const raw = lines[i];
-            const line = raw.trim();
-            if (line === '' || line.startsWith(';')) continue;
-            const start = line.match(/^Structure\s+(\w+)/i);
-            if (start) { current = start[1]; continue; }
-            if (line.match(/^EndStructure\b/i)) { current = null; continue; }
-            if (current) {
-                // Collection members (Array/List/Map) inside a Structure have the form:
-                //   Array images.i(10)
-                //   List  items.s()
-                //   Map   lookup.s()
-                // Without a guard, /^(\*?)(\w+)/ would capture "Array"/"List"/"Map"
-                // as the member name instead of the actual name after the keyword.
-                if (/^(?:Array|List|Map)\s+/i.test(line)) {
-                    const cm = line.match(/^(?:Array|List|Map)\s+(\*?)(\w+)(?:\.(\w+))?/i);
-                    if (cm) pushMember(current, { name: cm[2], type: cm[3], isPointer: cm[1] === '*' });
-                    continue;
-                }
-                const m = line.match(/^(\*?)(\w+)(?:\.(\w+))?/);
-                if (m) {
-                    pushMember(current, { name: m[2], type: m[3], isPointer: m[1] === '*' });
-                }
+    // Fields of nested StructureUnion blocks belong to the structure
+    const addFields = (structName: string, statements: Statement[]) => {
+        for (const member of statements) {
+            if (member.kind === 'Field') {
+                member.declarators.forEach(d => pushMember(structName, { name: d.name.name, type: d.type?.name, isPointer: d.pointer }));
+            } else if (member.kind === 'StructureUnion') {
+                addFields(structName, member.body);
             }
         }
     };
 
+    const addFromText = (text: string) => {
+        walkStatements(getSyntaxTree(text).body, stmt => {
+            if (stmt.kind !== 'Structure') return undefined;
+            if (stmt.name) addFields(stmt.name.name, stmt.body);
+            return false;
+        });
+    };
+
     // Current document
     addFromText(document.getText());
     // Open documents
@@ -1082,90 +1149,65 @@ interface SymbolCollection {
  */
 function analyzeDocumentSymbols(document: TextDocument, symbols: SymbolCollection) {
     const text = document.getText();
-    const lines = text.split('\n');
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-
-        // Look for procedure definition
-        // ProcedureC / ProcedureDLL / ProcedureCDLL variants added.
-        // Regex breakdown: ^Procedure(?:C|DLL|CDLL)?  → all calling conventions
-        //                  (?:\.(\w+))?               → optional return type (.i, .s, …)
-        //                  \s+(\w+)\s*\(([^)]*)\)     → name + parameter list
-        // Examples:
-        //   Procedure.i MyFunc(a.i)   → name=MyFunc, ret=i 
-        //   ProcedureC MyExport()     → name=MyExport     
-        //   ProcedureDLL MyDll(x.l)  → name=MyDll        
-        //   ProcedureCDLL.s Fn(a)    → name=Fn, ret=s    
-        const procMatch = line.match(/^Procedure(?:C|DLL|CDLL)?(?:\.(\w+))?\s+(\w+)\s*\(([^)]*)\)/i);
-        if (procMatch) {
-            const returnType = procMatch[1] || '';
-            const name = procMatch[2];
-            const params = procMatch[3] || '';
-            const signature = returnType ? `.${returnType} ${name}(${params})` : `${name}(${params})`;
-            // For functions with parameters, only insert function name and left parenthesis, let VS Code trigger parameter hints
-            // For functions without parameters, insert the complete function call
-            const insertText = params ? `${name}(` : `${name}()`;
-
-            symbols.procedures.push({
-                name,
-                signature,
-                insertText
-            });
-        }
-
-        // Look up constant definitions
-        const constMatch = parsePureBasicConstantDefinition(line);
-        if (constMatch) {
-            const name = constMatch.name;
-            const value = stripInlineComment(constMatch.value?.trim() ?? '').trim();
-            symbols.constants.push({ name, value });
-        }
-
-        // Look for structure definition
-        const structMatch = line.match(/^Structure\s+(\w+)\b/i);
-        if (structMatch) {
-            symbols.structures.push({ name: structMatch[1] });
-        }
-
-        // Look for interface definition
-        const ifaceMatch = line.match(/^Interface\s+(\w+)\b/i);
-        if (ifaceMatch) {
-            symbols.interfaces.push({ name: ifaceMatch[1] });
-        }
-
-        // Look for enumeration definition
-        // EnumerationBinary added.
-        const enumMatch = line.match(/^Enumeration(?:Binary)?\s+(\w+)\b/i);
-        if (enumMatch) {
-            symbols.enumerations.push({ name: enumMatch[1] });
-        }
-
-        // Macro added
-        // PureBasic macros are usable like procedures.
-        // Parameterless macros are also valid: `Macro SimpleTag`
-        const macroMatch = line.match(/^Macro\s+(\w+)/i);
-        if (macroMatch) {
-            const name = macroMatch[1];
-            symbols.procedures.push({
-                name,
-                signature: name,
-                insertText: `${name}(`
-            });
-        }
+    const tree = getSyntaxTree(text);
+
+    walkStatements(tree.body, stmt => {
+        switch (stmt.kind) {
+            // ProcedureC / ProcedureDLL / ProcedureCDLL, headers may be continued over several lines
+            case 'Procedure': {
+                if (!stmt.name) break;
+                const name = stmt.name.name;
+                const params = stmt.parameters.map(p => getRangeText(text, tree, p.range).trim()).join(', ');
+                const signature = stmt.returnType ? `.${stmt.returnType.name} ${name}(${params})` : `${name}(${params})`;
+                // For functions with parameters, only insert function name and left parenthesis, let VS Code trigger parameter hints
+                // For functions without parameters, insert the complete function call
+                const insertText = params ? `${name}(` : `${name}()`;
+
+                symbols.procedures.push({
+                    name,
+                    signature,
+                    insertText
+                });
+                break;
+            }
 
-        // Prototype / PrototypeC added
-        // Prototype defines a callable function-pointer type.
-        const protoMatch = line.match(/^Prototype(?:C)?(?:\.(\w+))?\s+(\w+)\s*\(/i);
-        if (protoMatch) {
-            const name = protoMatch[2];
-            symbols.procedures.push({
-                name,
-                signature: name,
-                insertText: `${name}(`
-            });
+            // Constant definitions, including Enumeration members
+            case 'ConstantDefinition':
+                symbols.constants.push({
+                    name: stmt.name.name,
+                    value: stmt.value ? getRangeText(text, tree, stmt.value.range).trim() : undefined
+                });
+                break;
+
+            case 'Structure':
+                if (stmt.name) symbols.structures.push({ name: stmt.name.name });
+                return false;
+
+            case 'Interface':
+                if (stmt.name) symbols.interfaces.push({ name: stmt.name.name });
+                return false;
+
+            // Enumeration / EnumerationBinary; the members are visited as constants
+            case 'Enumeration':
+                if (stmt.name) symbols.enumerations.push({ name: stmt.name.name });
+                break;
+
+            // PureBasic macros are usable like procedures.
+            // Parameterless macros are also valid: `Macro SimpleTag`
+            // Prototype / PrototypeC defines a callable function-pointer type.
+            case 'Macro':
+            case 'Prototype':
+                if (stmt.name) {
+                    symbols.procedures.push({
+                        name: stmt.name.name,
+                        signature: stmt.name.name,
+                        insertText: `${stmt.name.name}(`
+                    });
+                }
+                break;
         }
-    }
+        return undefined;
+    });
 }
 
 /**
@@ -1174,34 +1216,17 @@ function analyzeDocumentSymbols(document: TextDocument, symbols: SymbolCollectio
  * Handles both simple  (myVar\prefix)  and chained  (myVar\a\b\prefix)  access.
  *
  * Algorithm:
- *  1. Extract the full chain before the final partial member name.
- *     e.g.  "foo()\address\str"  → chain = ["foo()", "address"], prefix = "str"
- *  2. Look up the root name (chain[0]) in availableVariables to get its type.
- *  3. For each subsequent segment, look up the member in the struct index and
+ *  1. Look up the root name (chain[0]) in availableVariables to get its type.
+ *  2. For each subsequent name, look up the member in the struct index and
  *     advance the current type to that member's type.
- *  4. Return the type of the last fully-resolved segment, or null on any failure.
+ *  3. Return the type of the last fully-resolved name, or null on any failure.
  */
 function resolveStructAccessType(
-    linePrefix: string,
+    chain: string[],
     variables: VariableInfo[],
     structIndex: Map<string, Array<{name: string; type?: string}>>
 ): string | null {
-    // Split at every backslash to get the access chain.
-    // The last segment is the (possibly partial) member being typed → drop it.
-    const backslashIdx = linePrefix.lastIndexOf('\\');
-    if (backslashIdx === -1) return null;
-
-    const chainPart = linePrefix.substring(0, backslashIdx);
-
-    // Extract segments – split by \, take only the identifier part of each segment
-    // (strip leading * and trailing call-parens, e.g. "GetPtr()").
-    const rawSegments = chainPart.split('\\');
-    if (rawSegments.length === 0) return null;
-
-    // Normalize: strip pointer prefix and trailing () from each segment
-    const normalize = (s: string) => s.replace(/^\*/, '').replace(/\([^)]*\)$/, '').trim();
-
-    const rootName = normalize(rawSegments[0]);
+    const [rootName, ...memberNames] = chain;
     if (!rootName) return null;
 
     // Step 1 – root must be a known scope variable
@@ -1212,10 +1237,7 @@ function resolveStructAccessType(
     if (!currentType) return null;
 
     // Step 2 – walk down each intermediate member
-    for (let i = 1; i < rawSegments.length; i++) {
-        const memberName = normalize(rawSegments[i]);
-        if (!memberName) return null;
-
+    for (const memberName of memberNames) {
         const members = structIndex.get(currentType) || [];
         const member = members.find(m => m.name.toLowerCase() === memberName.toLowerCase());
         if (!member || !member.type) return null;
@@ -1227,38 +1249,25 @@ function resolveStructAccessType(
 }
 
 /**
- * Find the variable bound by the innermost active With block at the given line.
+ * Find the variable bound by the innermost With block around `offset`.
  *
- * Scans backwards from (currentLine - 1), counting EndWith/With pairs to find
- * the With that is still open at currentLine.
- *
- * Returns the raw variable name (may include leading *) or null if not in a With block.
+ * Returns the variable name (with a leading * for pointers) or null if not in a With block.
  */
-function findActiveWithVariable(lines: string[], currentLine: number): string | null {
-    let depth = 0;
-    for (let i = currentLine - 1; i >= 0; i--) {
-        const line = lines[i].trim();
-        if (line.startsWith(';') || line === '') continue;
-
-        // EndWith closes a With → increase nesting depth
-        if (/^EndWith\b/i.test(line)) {
-            depth++;
-            continue;
-        }
+function findActiveWithVariable(document: TextDocument, tree: SyntaxTree, offset: number): string | null {
+    let variable: string | null = null;
 
-        // With opens a block
-        const withMatch = line.match(/^With\s+(\*?[A-Za-z_][A-Za-z0-9_]*(?:\([^)]*\))?)/i);
-        if (withMatch) {
-            if (depth > 0) {
-                // This With is closed by a later EndWith we already counted
-                depth--;
-                continue;
-            }
-            // This With is the one active at currentLine
-            return withMatch[1];
+    walkStatements(tree.body, stmt => {
+        if (offset < document.offsetAt(stmt.range.start) || offset > document.offsetAt(stmt.range.end)) {
+            return false;
         }
-    }
-    return null;
+        if (stmt.kind === 'With' && stmt.target) {
+            const target = stmt.target.kind === 'Call' ? stmt.target.callee : stmt.target;
+            variable = target.kind === 'Identifier' ? `${target.pointer ? '*' : ''}${target.name}` : null;
+        }
+        return undefined;
+    });
+
+    return variable;
 }
 
 /**
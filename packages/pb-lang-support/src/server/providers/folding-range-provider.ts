@@ -0,0 +1,118 @@
+/**
+ * Folding range provider
+ * Folds block statements, If / Select branches, `;{` / `;}` IDE fold markers
+ * and consecutive comment lines
+ */
+
+import { FoldingRange, FoldingRangeKind, FoldingRangeParams } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
+import { SyntaxTree } from '../parsers/pb-ast';
+
+/**
+ * Handle folding range requests
+ */
+export function handleFoldingRanges(_params: FoldingRangeParams, document: TextDocument): FoldingRange[] {
+    const tree = getSyntaxTree(document.getText());
+    const lines = document.getText().split(/\r?\n/);
+
+    return [
+        ...collectBlockRanges(tree, lines.length - 1),
+        ...collectCommentRanges(tree, lines)
+    ];
+}
+
+/**
+ * One range per block statement. The closing keyword stays visible; If and
+ * Select blocks also fold each branch / case on its own.
+ */
+function collectBlockRanges(tree: SyntaxTree, lastLine: number): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    const add = (startLine: number, endLine: number) => {
+        if (endLine > startLine) {
+            ranges.push({ startLine, endLine });
+        }
+    };
+
+    walkStatements(tree.body, stmt => {
+        if (!('headerRange' in stmt)) return undefined;
+
+        // Unclosed blocks fold to the end of what the parser attributed to them
+        const endLine = stmt.end
+            ? stmt.end.range.start.line - 1
+            : Math.min(stmt.range.end.line, lastLine);
+
+        if (stmt.kind === 'If' || stmt.kind === 'CompilerIf') {
+            stmt.branches.forEach((branch, i) => {
+                const next = stmt.branches[i + 1];
+                add(branch.keywordRange.start.line, next ? next.keywordRange.start.line - 1 : endLine);
+            });
+            if (stmt.branches.length === 0) {
+                add(stmt.headerRange.start.line, endLine);
+            }
+            return undefined;
+        }
+
+        add(stmt.headerRange.start.line, endLine);
+        if (stmt.kind === 'Select' || stmt.kind === 'CompilerSelect') {
+            stmt.cases.forEach((clause, i) => {
+                const next = stmt.cases[i + 1];
+                add(clause.keywordRange.start.line, next ? next.keywordRange.start.line - 1 : endLine);
+            });
+        }
+        return undefined;
+    });
+
+    return ranges;
+}
+
+/**
+ * `;{` ... `;}` regions and runs of at least two lines holding only a comment.
+ */
+function collectCommentRanges(tree: SyntaxTree, lines: string[]): FoldingRange[] {
+    const ranges: FoldingRange[] = [];
+    const markers: number[] = [];
+    let blockStart = -1;
+    let blockEnd = -1;
+
+    const flushBlock = () => {
+        if (blockEnd > blockStart && blockStart >= 0) {
+            ranges.push({ startLine: blockStart, endLine: blockEnd, kind: FoldingRangeKind.Comment });
+        }
+        blockStart = blockEnd = -1;
+    };
+
+    for (const comment of tree.comments) {
+        const line = comment.range.start.line;
+        const text = comment.text.trim();
+
+        if (text.startsWith(';{')) {
+            flushBlock();
+            markers.push(line);
+            continue;
+        }
+        if (text.startsWith(';}')) {
+            flushBlock();
+            const start = markers.pop();
+            if (start !== undefined && line > start) {
+                ranges.push({ startLine: start, endLine: line, kind: FoldingRangeKind.Region });
+            }
+            continue;
+        }
+
+        // Trailing comments after code do not form comment blocks
+        const ownLine = (lines[line] ?? '').slice(0, comment.range.start.character).trim() === '';
+        if (!ownLine) {
+            flushBlock();
+        } else if (blockStart >= 0 && blockEnd === line - 1) {
+            blockEnd = line;
+        } else {
+            flushBlock();
+            blockStart = blockEnd = line;
+        }
+    }
+    flushBlock();
+
+    return ranges;
+}
@@ -14,8 +14,8 @@ import { analyzeScopesAndVariables } from '../utils/scope-manager';
 import { getModuleExports } from '../utils/module-resolver';
 import { parsePureBasicConstantDefinition} from '../utils/constants';
 import { stripInlineComment, escapeRegExp, getWordAtPosition, normalizeConstantName, getModuleSymbolAtPosition, getBaseType, getStructAccessFromLine, normalizeVarName } from '../utils/pb-lexer-utils';
-import type { ApiFunctionListing } from '../utils/api-function-listing';
-import { findBuiltin } from '../utils/builtin-functions';
+import type { ApiFunctionListing } from '../../shared/api-function-listing';
+import { findBuiltin } from '../../shared/builtin-functions';
 
 /** Single entry in the built-in function data file. */
 
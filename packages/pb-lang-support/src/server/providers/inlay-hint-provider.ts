@@ -0,0 +1,196 @@
+/**
+ * Inlay hint provider
+ * Shows parameter names in calls and the implicit type of untyped variables
+ */
+
+import { InlayHint, InlayHintKind, InlayHintParams } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ProjectManager } from '../managers/project-manager';
+import { InlayHintsSettings } from '../config/settings';
+import { collectSearchDocuments } from '../utils/document-collector';
+import { findBuiltin } from '../../shared/builtin-functions';
+import { ApiFunctionListing } from '../../shared/api-function-listing';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { getEnclosingModule, getStatementExpressions, walkExpression, walkStatements } from '../parsers/pb-ast-walker';
+import { CallExpression, Expression, Parameter } from '../parsers/pb-ast';
+
+/** Parameter names of a procedure, keyed by `module::name` (lower case). */
+type ProcedureParameters = Map<string, string[]>;
+
+/**
+ * Handle inlay hint requests
+ */
+export function handleInlayHints(
+    params: InlayHintParams,
+    document: TextDocument,
+    allDocuments: Map<string, TextDocument>,
+    settings: InlayHintsSettings,
+    projectManager?: ProjectManager,
+    apiFunctionListing?: ApiFunctionListing
+): InlayHint[] {
+    if (!settings.parameterNames && !settings.variableTypes) {
+        return [];
+    }
+
+    const tree = getSyntaxTree(document.getText());
+    const { start, end } = params.range;
+    const procedures = settings.parameterNames
+        ? collectProcedureParameters(collectSearchDocuments(document, allDocuments, projectManager))
+        : new Map<string, string[]>();
+
+    const hints: InlayHint[] = [];
+    const usedModules = new Set<string>();
+    // `Define.Type` without variables changes the default type of the following declarations
+    let defaultType = 'i';
+
+    walkStatements(tree.body, (stmt, parents) => {
+        // UseModule and default type changes outside the range still affect the visible statements
+        if (stmt.kind === 'UseModule' && stmt.name) {
+            if (stmt.keyword === 'UseModule') {
+                usedModules.add(stmt.name.name);
+            } else {
+                usedModules.delete(stmt.name.name);
+            }
+        } else if (stmt.kind === 'VariableDeclaration' && stmt.keyword === 'Define' &&
+            stmt.defaultType && stmt.declarators.length === 0) {
+            defaultType = stmt.defaultType.name;
+        }
+
+        if (stmt.range.start.line > end.line || stmt.range.end.line < start.line) {
+            return undefined;
+        }
+
+        if (settings.variableTypes && stmt.kind === 'VariableDeclaration' && stmt.keyword !== 'Shared' && stmt.keyword !== 'ReDim') {
+            const type = stmt.defaultType
+                ? `${stmt.defaultType.module ? stmt.defaultType.module + '::' : ''}${stmt.defaultType.name}`
+                : defaultType;
+            for (const declarator of stmt.declarators) {
+                // `name$` is a string by its suffix
+                if (declarator.type || declarator.pointer || declarator.name.name.endsWith('$')) continue;
+                hints.push({
+                    position: declarator.name.range.end,
+                    label: `.${type}`,
+                    kind: InlayHintKind.Type
+                });
+            }
+        }
+
+        if (settings.parameterNames) {
+            const modules = [getEnclosingModule(parents), undefined, ...usedModules];
+            for (const expression of getStatementExpressions(stmt)) {
+                walkExpression(expression, node => {
+                    if (node.kind !== 'Call' || node.args.length === 0) return;
+                    const names = resolveParameterNames(node, procedures, modules, apiFunctionListing);
+                    if (names) {
+                        hints.push(...createParameterHints(node, names));
+                    }
+                });
+            }
+        }
+        return undefined;
+    });
+
+    return hints;
+}
+
+/**
+ * Collect the parameter names of every Procedure / Declare in the search documents.
+ */
+function collectProcedureParameters(searchDocs: Map<string, TextDocument>): ProcedureParameters {
+    const result: ProcedureParameters = new Map();
+
+    for (const doc of searchDocs.values()) {
+        const tree = getSyntaxTree(doc.getText());
+        walkStatements(tree.body, (stmt, parents) => {
+            if ((stmt.kind === 'Procedure' || stmt.kind === 'Declare') && stmt.name) {
+                const key = procedureKey(getEnclosingModule(parents), stmt.name.name);
+                // The Procedure's own parameter names win over a Declare's
+                if (stmt.kind === 'Procedure' || !result.has(key)) {
+                    result.set(key, stmt.parameters.map(parameterName));
+                }
+            }
+            return undefined;
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Parameter names for a call: a user procedure (module-aware), then a
+ * built-in function, then an OS API function from APIFunctionListing.txt.
+ */
+function resolveParameterNames(
+    call: CallExpression,
+    procedures: ProcedureParameters,
+    modules: Array<string | undefined>,
+    apiFunctionListing?: ApiFunctionListing
+): string[] | undefined {
+    const callee = call.callee;
+    if (callee.pointer) return undefined;
+
+    for (const module of callee.module ? [callee.module] : modules) {
+        const names = procedures.get(procedureKey(module, callee.name));
+        if (names) return names;
+    }
+    if (callee.module) return undefined;
+
+    const builtin = findBuiltin(callee.name);
+    if (builtin) return parseSignatureParameters(builtin.signature);
+
+    const api = apiFunctionListing?.find(callee.name);
+    if (api) return api.params.map(p => p.trim().split(/\s+/).pop() ?? '');
+
+    return undefined;
+}
+
+/**
+ * Parameter names from a built-in signature such as
+ * `OpenWindow(#Window, x, y, Width, Height, Title$ [, Flags [, ParentWindowID]])`.
+ */
+function parseSignatureParameters(signature: string): string[] {
+    const open = signature.indexOf('(');
+    const close = signature.lastIndexOf(')');
+    if (open < 0 || close < open) return [];
+
+    return signature.slice(open + 1, close)
+        .replace(/[[\]]/g, '')
+        .split(',')
+        .map(p => p.trim().replace(/\.\w+$/, ''))
+        .filter(p => p.length > 0);
+}
+
+function createParameterHints(call: CallExpression, names: string[]): InlayHint[] {
+    const hints: InlayHint[] = [];
+
+    call.args.forEach((arg, i) => {
+        const name = names[i];
+        if (!name || name === '...' || arg.kind === 'Error' || matchesParameter(arg, name)) return;
+        hints.push({
+            position: arg.range.start,
+            label: `${name}:`,
+            kind: InlayHintKind.Parameter,
+            paddingRight: true
+        });
+    });
+
+    return hints;
+}
+
+/** An argument that already names its parameter (`Width` for `Width`, `#Window` for `#Window`). */
+function matchesParameter(arg: Expression, name: string): boolean {
+    const bare = name.replace(/^[*#]/, '').replace(/\$$/, '').toLowerCase();
+    if (arg.kind === 'Identifier' || arg.kind === 'Constant') {
+        return arg.name.replace(/\$$/, '').toLowerCase() === bare;
+    }
+    return false;
+}
+
+function parameterName(parameter: Parameter): string {
+    if (!parameter.name) return '';
+    return `${parameter.pointer ? '*' : ''}${parameter.name.name}`;
+}
+
+function procedureKey(module: string | undefined, name: string): string {
+    return `${module?.toLowerCase() ?? ''}::${name.toLowerCase()}`;
+}
@@ -0,0 +1,410 @@
+/**
+ * Semantic Tokens Provider
+ * Classifies identifiers and constants using the syntax tree and the symbol index,
+ * so that procedures, locals, parameters, module names and built-ins can be
+ * told apart beyond what the TextMate grammar can see.
+ */
+
+import {
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensDelta,
+    SemanticTokensDeltaParams,
+    SemanticTokensLegend,
+    SemanticTokensParams,
+    Position
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
+import { Statement, SyntaxTree } from '../parsers/pb-ast';
+import { Token, TokenKind } from '../parsers/pb-lexer';
+import { symbolCache } from '../symbols/symbol-cache';
+import { SymbolKind as PBSymbolKind } from '../symbols/types';
+import { builtinFunctionMap } from '../../shared/builtin-functions';
+import { ApiFunctionListing } from '../../shared/api-function-listing';
+import { types, typeSuffixes } from '../utils/constants';
+
+const tokenTypes = [
+    'namespace', 'type', 'struct', 'interface', 'enum', 'enumMember',
+    'function', 'method', 'macro', 'parameter', 'variable', 'property', 'label'
+] as const;
+
+/** `global` is a custom modifier, registered in package.json. */
+const tokenModifiers = ['declaration', 'readonly', 'static', 'defaultLibrary', 'global'] as const;
+
+type TokenType = typeof tokenTypes[number];
+type TokenModifier = typeof tokenModifiers[number];
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+    tokenTypes: [...tokenTypes],
+    tokenModifiers: [...tokenModifiers]
+};
+
+interface Classification {
+    type: TokenType;
+    modifiers: TokenModifier[];
+}
+
+/** Names declared inside a procedure or macro (parameters and locals). */
+interface LocalScope {
+    start: number;
+    end: number;
+    names: Map<string, Classification>;
+}
+
+interface DocumentAnalysis {
+    /** Classification of declaration sites, keyed by token offset. */
+    declarations: Map<number, Classification>;
+    /** Document-level symbols by lower-case name. */
+    symbols: Map<string, Classification>;
+    /** Constants (without '#') by lower-case name. */
+    constants: Map<string, Classification>;
+    labels: Set<string>;
+    scopes: LocalScope[];
+}
+
+const builtinTypeNames = new Set([...types, ...typeSuffixes].map(t => t.toLowerCase()));
+
+/** Keywords whose argument is a label name. */
+const labelKeywords = new Set(['Goto', 'Gosub', 'Restore']);
+
+/** Semantic token builders per document, used to compute deltas. */
+const tokenBuilders = new Map<string, SemanticTokensBuilder>();
+
+/**
+ * Handle full semantic tokens requests
+ */
+export function handleSemanticTokens(
+    params: SemanticTokensParams,
+    document: TextDocument,
+    apiFunctionListing?: ApiFunctionListing
+): SemanticTokens {
+    const builder = new SemanticTokensBuilder();
+    tokenBuilders.set(params.textDocument.uri, builder);
+    pushTokens(builder, document, apiFunctionListing);
+    return builder.build();
+}
+
+/**
+ * Handle semantic tokens delta requests
+ */
+export function handleSemanticTokensDelta(
+    params: SemanticTokensDeltaParams,
+    document: TextDocument,
+    apiFunctionListing?: ApiFunctionListing
+): SemanticTokens | SemanticTokensDelta {
+    let builder = tokenBuilders.get(params.textDocument.uri);
+    if (!builder) {
+        builder = new SemanticTokensBuilder();
+        tokenBuilders.set(params.textDocument.uri, builder);
+    }
+    builder.previousResult(params.previousResultId);
+    pushTokens(builder, document, apiFunctionListing);
+    return builder.buildEdits();
+}
+
+/**
+ * Drop the delta state of a closed document.
+ */
+export function clearSemanticTokens(uri: string): void {
+    tokenBuilders.delete(uri);
+}
+
+function pushTokens(builder: SemanticTokensBuilder, document: TextDocument, apiFunctionListing?: ApiFunctionListing): void {
+    const tree = getSyntaxTree(document.getText());
+    const analysis = analyzeDocument(tree);
+    const index = buildIndex(document.uri);
+    const tokens = tree.tokens;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        let classification: Classification | undefined;
+
+        if (token.kind === TokenKind.Constant) {
+            classification = classifyConstant(token, analysis, index);
+        } else if (token.kind === TokenKind.Identifier) {
+            classification = classifyIdentifier(tokens, i, analysis, index, apiFunctionListing);
+        }
+
+        if (classification) {
+            builder.push(
+                token.range.start.line,
+                token.range.start.character,
+                token.end - token.offset,
+                tokenTypes.indexOf(classification.type),
+                encodeModifiers(classification.modifiers)
+            );
+        }
+    }
+}
+
+function encodeModifiers(modifiers: TokenModifier[]): number {
+    let bits = 0;
+    for (const modifier of modifiers) {
+        bits |= 1 << tokenModifiers.indexOf(modifier);
+    }
+    return bits;
+}
+
+function classification(type: TokenType, ...modifiers: TokenModifier[]): Classification {
+    return { type, modifiers };
+}
+
+function asDeclaration(c: Classification): Classification {
+    return { type: c.type, modifiers: ['declaration', ...c.modifiers] };
+}
+
+/* ========================================================================== */
+/* Document analysis                                                          */
+/* ========================================================================== */
+
+function analyzeDocument(tree: SyntaxTree): DocumentAnalysis {
+    const analysis: DocumentAnalysis = {
+        declarations: new Map(),
+        symbols: new Map(),
+        constants: new Map(),
+        labels: new Set(),
+        scopes: []
+    };
+
+    const offsetOf = (position: Position) => (tree.lineStarts[position.line] ?? 0) + position.character;
+
+    const declare = (name: { name: string; range: { start: Position } }, c: Classification, scope?: LocalScope) => {
+        analysis.declarations.set(offsetOf(name.range.start), asDeclaration(c));
+        const key = name.name.toLowerCase();
+        if (scope) {
+            scope.names.set(key, c);
+        } else if (!analysis.symbols.has(key)) {
+            analysis.symbols.set(key, c);
+        }
+    };
+
+    const scopeOf = new Map<Statement, LocalScope>();
+
+    walkStatements(tree.body, (stmt, parents) => {
+        const parentScope = findScope(parents, scopeOf);
+
+        switch (stmt.kind) {
+            case 'Procedure': {
+                if (stmt.name) declare(stmt.name, classification('function'));
+                const scope: LocalScope = {
+                    start: offsetOf(stmt.range.start),
+                    end: offsetOf(stmt.range.end),
+                    names: new Map()
+                };
+                analysis.scopes.push(scope);
+                scopeOf.set(stmt, scope);
+                for (const param of stmt.parameters) {
+                    if (param.name) declare(param.name, classification('parameter'), scope);
+                }
+                break;
+            }
+            case 'Macro': {
+                if (stmt.name) declare(stmt.name, classification('macro'));
+                const scope: LocalScope = {
+                    start: offsetOf(stmt.range.start),
+                    end: offsetOf(stmt.range.end),
+                    names: new Map()
+                };
+                analysis.scopes.push(scope);
+                scopeOf.set(stmt, scope);
+                for (const param of stmt.parameters) {
+                    declare(param, classification('parameter'), scope);
+                }
+                break;
+            }
+            case 'Declare':
+                if (stmt.name) declare(stmt.name, classification('function'));
+                break;
+            case 'Prototype':
+                if (stmt.name) declare(stmt.name, classification('type'));
+                break;
+            case 'Structure':
+                if (stmt.name) declare(stmt.name, classification('struct'));
+                break;
+            case 'Interface':
+                if (stmt.name) declare(stmt.name, classification('interface'));
+                break;
+            case 'Enumeration':
+                if (stmt.name) declare(stmt.name, classification('enum'));
+                break;
+            case 'Module':
+                if (stmt.name) declare(stmt.name, classification('namespace'));
+                break;
+            case 'Field':
+                for (const decl of stmt.declarators) {
+                    analysis.declarations.set(offsetOf(decl.name.range.start), classification('property', 'declaration'));
+                }
+                break;
+            case 'Method':
+                analysis.declarations.set(offsetOf(stmt.name.range.start), classification('method', 'declaration'));
+                break;
+            case 'Label':
+                analysis.labels.add(stmt.name.name.toLowerCase());
+                analysis.declarations.set(offsetOf(stmt.name.range.start), classification('label', 'declaration'));
+                break;
+            case 'ConstantDefinition': {
+                const inEnumeration = parents.length > 0 && parents[parents.length - 1].kind === 'Enumeration';
+                const c = inEnumeration ? classification('enumMember') : classification('variable', 'readonly');
+                analysis.constants.set(stmt.name.name.toLowerCase(), c);
+                analysis.declarations.set(offsetOf(stmt.name.range.start), asDeclaration(c));
+                break;
+            }
+            case 'VariableDeclaration': {
+                // Shared refers to variables declared in the main scope
+                if (stmt.keyword === 'Shared' || stmt.keyword === 'ReDim') break;
+                const c = stmt.keyword === 'Global' || stmt.keyword === 'Threaded'
+                    ? classification('variable', 'global')
+                    : stmt.keyword === 'Static'
+                        ? classification('variable', 'static')
+                        : classification('variable');
+                for (const decl of stmt.declarators) {
+                    declare(decl.name, c, stmt.keyword === 'Global' ? undefined : parentScope);
+                }
+                break;
+            }
+        }
+        return undefined;
+    });
+
+    return analysis;
+}
+
+function findScope(parents: readonly Statement[], scopeOf: Map<Statement, LocalScope>): LocalScope | undefined {
+    for (let i = parents.length - 1; i >= 0; i--) {
+        const scope = scopeOf.get(parents[i]);
+        if (scope) return scope;
+    }
+    return undefined;
+}
+
+/**
+ * Workspace symbols from the symbol index, by lower-case name.
+ * Symbols of the current document are resolved from its syntax tree instead.
+ */
+function buildIndex(currentUri: string): Map<string, Classification> {
+    const index = new Map<string, Classification>();
+    for (const { uri, symbol } of symbolCache.getAllSymbols()) {
+        if (uri === currentUri) continue;
+        const key = symbol.name.toLowerCase();
+        if (index.has(key)) continue;
+
+        switch (symbol.kind) {
+            case PBSymbolKind.Procedure:
+            case PBSymbolKind.Function:
+                index.set(key, classification('function'));
+                break;
+            case PBSymbolKind.Structure:
+                index.set(key, classification('struct'));
+                break;
+            case PBSymbolKind.Interface:
+                index.set(key, classification('interface'));
+                break;
+            case PBSymbolKind.Enumeration:
+                index.set(key, classification('enum'));
+                break;
+            case PBSymbolKind.Module:
+                index.set(key, classification('namespace'));
+                break;
+            case PBSymbolKind.Constant:
+                // Constants share the index with other names; mark them with '#'
+                index.set('#' + key, classification('variable', 'readonly'));
+                break;
+            case PBSymbolKind.Variable:
+                index.set(key, classification('variable', 'global'));
+                break;
+        }
+    }
+    return index;
+}
+
+/* ========================================================================== */
+/* Token classification                                                       */
+/* ========================================================================== */
+
+function classifyConstant(token: Token, analysis: DocumentAnalysis, index: Map<string, Classification>): Classification {
+    const declared = analysis.declarations.get(token.offset);
+    if (declared) return declared;
+
+    const name = token.text.substring(1).toLowerCase();
+    return analysis.constants.get(name)
+        ?? index.get('#' + name)
+        // Not user-defined: PureBasic (#PB_*) or OS / library constant
+        ?? classification('variable', 'readonly', 'defaultLibrary');
+}
+
+function classifyType(name: string, analysis: DocumentAnalysis, index: Map<string, Classification>): Classification | undefined {
+    const key = name.toLowerCase();
+    const symbol = analysis.symbols.get(key) ?? index.get(key);
+    if (symbol && ['struct', 'interface', 'type'].includes(symbol.type)) {
+        return symbol;
+    }
+    if (builtinTypeNames.has(key)) {
+        return classification('type', 'defaultLibrary');
+    }
+    return classification('type');
+}
+
+function classifyIdentifier(
+    tokens: Token[],
+    i: number,
+    analysis: DocumentAnalysis,
+    index: Map<string, Classification>,
+    apiFunctionListing?: ApiFunctionListing
+): Classification | undefined {
+    const token = tokens[i];
+    const prev = i > 0 ? tokens[i - 1] : undefined;
+    const next = tokens[i + 1];
+    const isOp = (t: Token | undefined, op: string) => t?.kind === TokenKind.Operator && t.text === op;
+    const isCall = isOp(next, '(');
+    const key = token.text.toLowerCase();
+
+    const declared = analysis.declarations.get(token.offset);
+    if (declared) return declared;
+
+    // Module qualifier (Module::Name)
+    if (isOp(next, '::')) {
+        return classification('namespace');
+    }
+
+    // Structure field / interface method access (var\field, obj\Method())
+    if (isOp(prev, '\\')) {
+        return isCall ? classification('method') : classification('property');
+    }
+
+    // Type annotation (name.Type) or base type (Extends Type)
+    if ((isOp(prev, '.') && prev!.end === token.offset) ||
+        (prev?.kind === TokenKind.Keyword && prev.keyword === 'Extends')) {
+        return classifyType(token.text, analysis, index);
+    }
+
+    // Label references (Goto label, ?label)
+    if ((prev?.kind === TokenKind.Keyword && labelKeywords.has(prev.keyword!)) || isOp(prev, '?')) {
+        return analysis.labels.has(key) ? classification('label') : undefined;
+    }
+
+    // Module-qualified name: only symbols from the index apply
+    if (isOp(prev, '::')) {
+        return analysis.symbols.get(key) ?? index.get(key);
+    }
+
+    // Parameters and locals of the enclosing procedure / macro
+    for (const scope of analysis.scopes) {
+        if (token.offset >= scope.start && token.offset <= scope.end) {
+            const local = scope.names.get(key);
+            if (local) return local;
+        }
+    }
+
+    const symbol = analysis.symbols.get(key) ?? index.get(key);
+    if (symbol) return symbol;
+
+    if (isCall) {
+        if (builtinFunctionMap.has(key) || apiFunctionListing?.find(token.text)) {
+            return classification('function', 'defaultLibrary');
+        }
+    }
+
+    return undefined;
+}
@@ -13,8 +13,8 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { getModuleFunctionCompletions as getModuleFunctions } from '../utils/module-resolver';
 import { getActiveUsedModules } from '../utils/scope-manager';
 import { escapeRegExp} from '../utils/pb-lexer-utils';
-import { ApiFunctionListing } from '../utils/api-function-listing';
-import { findBuiltin } from '../utils/builtin-functions';
+import { ApiFunctionListing } from '../../shared/api-function-listing';
+import { findBuiltin } from '../../shared/builtin-functions';
 
 /**
  * Handle signature help request
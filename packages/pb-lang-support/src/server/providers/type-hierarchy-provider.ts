@@ -0,0 +1,310 @@
+/**
+ * Type hierarchy and implementation provider
+ * Navigates Structure / Interface ... Extends chains and the DataSection
+ * vtables that implement an interface
+ */
+
+import {
+    ImplementationParams,
+    Location,
+    SymbolKind,
+    TypeHierarchyItem,
+    TypeHierarchyPrepareParams,
+    TypeHierarchySubtypesParams,
+    TypeHierarchySupertypesParams
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ProjectManager } from '../managers/project-manager';
+import { collectWorkspaceDocuments, getDocumentByUri } from '../utils/document-collector';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { getEnclosingModule, walkExpression, walkStatements } from '../parsers/pb-ast-walker';
+import { InterfaceStatement, LabelStatement, MethodStatement, NameNode, StructureStatement, TypeRef } from '../parsers/pb-ast';
+import { TokenKind } from '../parsers/pb-lexer';
+
+/** A Structure or Interface found in a document. */
+interface TypeDefinition {
+    uri: string;
+    name: string;
+    module?: string;
+    statement: StructureStatement | InterfaceStatement;
+}
+
+/** A DataSection label followed by Data entries with procedure addresses. */
+interface VTable {
+    uri: string;
+    label: LabelStatement;
+    procedures: string[];
+}
+
+/**
+ * Handle type hierarchy prepare requests
+ */
+export function handlePrepareTypeHierarchy(
+    params: TypeHierarchyPrepareParams,
+    document: TextDocument,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): TypeHierarchyItem[] | null {
+    const definitions = collectTypeDefinitions(collectWorkspaceDocuments(document, allDocuments, projectManager));
+    const target = findTypeAtPosition(document, document.offsetAt(params.position), definitions);
+    return target ? [createItem(target)] : null;
+}
+
+/**
+ * Handle supertypes requests (the type named by Extends)
+ */
+export function handleTypeHierarchySupertypes(
+    params: TypeHierarchySupertypesParams,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): TypeHierarchyItem[] {
+    const context = resolveItem(params.item, allDocuments, projectManager);
+    if (!context) return [];
+
+    const base = resolveBaseType(context.definitions, context.definition);
+    return base ? [createItem(base)] : [];
+}
+
+/**
+ * Handle subtypes requests (types that Extend the given one)
+ */
+export function handleTypeHierarchySubtypes(
+    params: TypeHierarchySubtypesParams,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): TypeHierarchyItem[] {
+    const context = resolveItem(params.item, allDocuments, projectManager);
+    if (!context) return [];
+
+    return findDerivedTypes(context.definitions, context.definition).map(createItem);
+}
+
+/**
+ * Handle implementation requests: all structures / interfaces extending the
+ * type at the cursor (directly or indirectly) and, for interfaces, the
+ * DataSection vtables implementing it.
+ */
+export function handleImplementation(
+    params: ImplementationParams,
+    document: TextDocument,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): Location[] {
+    const searchDocs = collectWorkspaceDocuments(document, allDocuments, projectManager);
+    const definitions = collectTypeDefinitions(searchDocs);
+    const target = findTypeAtPosition(document, document.offsetAt(params.position), definitions);
+    if (!target) return [];
+
+    const locations: Location[] = [];
+    const visited = new Set<TypeDefinition>([target]);
+    const queue = [target];
+    while (queue.length > 0) {
+        for (const derived of findDerivedTypes(definitions, queue.shift()!)) {
+            if (visited.has(derived)) continue;
+            visited.add(derived);
+            queue.push(derived);
+            locations.push({ uri: derived.uri, range: derived.statement.name!.range });
+        }
+    }
+
+    if (target.statement.kind === 'Interface') {
+        // A vtable of a derived interface implements the base interface too
+        const interfaces = Array.from(visited).filter(def => def.statement.kind === 'Interface');
+        for (const vtable of collectVTables(searchDocs)) {
+            if (interfaces.some(def => implementsInterface(vtable, def, definitions))) {
+                locations.push({ uri: vtable.uri, range: vtable.label.name.range });
+            }
+        }
+    }
+
+    return locations;
+}
+
+/**
+ * Collect Structure and Interface statements of all documents, with their module.
+ */
+function collectTypeDefinitions(searchDocs: Map<string, TextDocument>): TypeDefinition[] {
+    const definitions: TypeDefinition[] = [];
+
+    for (const doc of searchDocs.values()) {
+        const tree = getSyntaxTree(doc.getText());
+        walkStatements(tree.body, (stmt, parents) => {
+            if ((stmt.kind === 'Structure' || stmt.kind === 'Interface') && stmt.name) {
+                definitions.push({
+                    uri: doc.uri,
+                    name: stmt.name.name,
+                    module: getEnclosingModule(parents),
+                    statement: stmt
+                });
+                return false;
+            }
+            return undefined;
+        });
+    }
+
+    return definitions;
+}
+
+/**
+ * Collect the labels inside DataSection blocks with the procedure addresses
+ * (`Data.i @Proc()`) that follow them.
+ */
+function collectVTables(searchDocs: Map<string, TextDocument>): VTable[] {
+    const vtables: VTable[] = [];
+
+    for (const doc of searchDocs.values()) {
+        const tree = getSyntaxTree(doc.getText());
+        walkStatements(tree.body, stmt => {
+            if (stmt.kind !== 'DataSection') return undefined;
+
+            let current: VTable | undefined;
+            for (const entry of stmt.body) {
+                if (entry.kind === 'Label') {
+                    current = { uri: doc.uri, label: entry, procedures: [] };
+                    vtables.push(current);
+                } else if (current && entry.kind === 'Command' && entry.keyword === 'Data') {
+                    for (const arg of entry.args) {
+                        walkExpression(arg, node => {
+                            if (node.kind === 'Unary' && node.operator === '@' && node.operand.kind === 'Call') {
+                                current!.procedures.push(node.operand.callee.name);
+                            }
+                        });
+                    }
+                }
+            }
+            return false;
+        });
+    }
+
+    return vtables.filter(vtable => vtable.procedures.length > 0);
+}
+
+/**
+ * A vtable implements an interface when its label names the interface
+ * (e.g. `VTable_IShape:`), or when it lists one procedure per method
+ * (inherited methods first), each ending with the method's name
+ * (e.g. `Shape_Draw()` for `Draw()`).
+ */
+function implementsInterface(vtable: VTable, definition: TypeDefinition, definitions: TypeDefinition[]): boolean {
+    const label = vtable.label.name.name.toLowerCase();
+    if (label.split('_').includes(definition.name.toLowerCase())) {
+        return true;
+    }
+
+    const methods: string[] = [];
+    const seen = new Set<TypeDefinition>();
+    for (let def: TypeDefinition | undefined = definition; def && !seen.has(def); def = resolveBaseType(definitions, def)) {
+        seen.add(def);
+        const own = def.statement.body
+            .filter((s): s is MethodStatement => s.kind === 'Method')
+            .map(m => m.name.name.toLowerCase());
+        methods.unshift(...own);
+    }
+
+    const procedures = vtable.procedures.map(p => p.toLowerCase());
+    return methods.length > 0 &&
+        methods.length === procedures.length &&
+        methods.every((method, i) => procedures[i].endsWith(method));
+}
+
+function resolveItem(
+    item: TypeHierarchyItem,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): { definition: TypeDefinition; definitions: TypeDefinition[] } | undefined {
+    const document = getDocumentByUri(item.uri, allDocuments);
+    if (!document) return undefined;
+
+    const definitions = collectTypeDefinitions(collectWorkspaceDocuments(document, allDocuments, projectManager));
+    const start = item.selectionRange.start;
+    const definition = definitions.find(def =>
+        def.uri === item.uri &&
+        def.statement.name!.range.start.line === start.line &&
+        def.statement.name!.range.start.character === start.character);
+
+    return definition ? { definition, definitions } : undefined;
+}
+
+/**
+ * The Structure / Interface named at `offset`: a definition name, an Extends
+ * base type, a `.Type` annotation or a `Module::Type` reference.
+ */
+function findTypeAtPosition(document: TextDocument, offset: number, definitions: TypeDefinition[]): TypeDefinition | undefined {
+    const declared = definitions.find(def =>
+        def.uri === document.uri &&
+        offset >= document.offsetAt(def.statement.name!.range.start) &&
+        offset <= document.offsetAt(def.statement.name!.range.end));
+    if (declared) return declared;
+
+    const tree = getSyntaxTree(document.getText());
+    const index = tree.tokens.findIndex(t => t.kind === TokenKind.Identifier && offset >= t.offset && offset <= t.end);
+    if (index < 0) return undefined;
+
+    const token = tree.tokens[index];
+    const prev = tree.tokens[index - 1];
+    const qualifier = prev?.kind === TokenKind.Operator && prev.text === '::'
+        ? tree.tokens[index - 2]?.text
+        : undefined;
+
+    // Module containing the reference
+    let module: string | undefined;
+    walkStatements(tree.body, (stmt, parents) => {
+        if (offset < document.offsetAt(stmt.range.start) || offset > document.offsetAt(stmt.range.end)) {
+            return false;
+        }
+        module = getEnclosingModule([...parents, stmt]);
+        return undefined;
+    });
+
+    return resolveType(definitions, token.text, qualifier, module);
+}
+
+function resolveBaseType(definitions: TypeDefinition[], definition: TypeDefinition): TypeDefinition | undefined {
+    const base: TypeRef | undefined = definition.statement.extends;
+    if (!base) return undefined;
+    return resolveType(definitions, base.name, base.module, definition.module, definition.statement.kind);
+}
+
+function findDerivedTypes(definitions: TypeDefinition[], definition: TypeDefinition): TypeDefinition[] {
+    return definitions.filter(def => def.statement.extends && resolveBaseType(definitions, def) === definition);
+}
+
+/**
+ * Resolve a type name: `Module::Type` only matches types of that module,
+ * unqualified names look in the referencing module first, then in the main code.
+ */
+function resolveType(
+    definitions: TypeDefinition[],
+    name: string,
+    qualifier: string | undefined,
+    module: string | undefined,
+    kind?: TypeDefinition['statement']['kind']
+): TypeDefinition | undefined {
+    const key = name.toLowerCase();
+    const modules = qualifier ? [qualifier] : [module, undefined];
+
+    for (const candidateModule of modules) {
+        const match = definitions.find(def =>
+            def.name.toLowerCase() === key &&
+            def.module?.toLowerCase() === candidateModule?.toLowerCase() &&
+            (!kind || def.statement.kind === kind));
+        if (match) return match;
+    }
+    return undefined;
+}
+
+function createItem(definition: TypeDefinition): TypeHierarchyItem {
+    const name: NameNode = definition.statement.name!;
+    const base = definition.statement.extends;
+
+    return {
+        name: definition.name,
+        kind: definition.statement.kind === 'Interface' ? SymbolKind.Interface : SymbolKind.Struct,
+        detail: base
+            ? `Extends ${base.module ? base.module + '::' : ''}${base.name}`
+            : definition.module,
+        uri: definition.uri,
+        range: definition.statement.range,
+        selectionRange: name.range
+    };
+}
@@ -24,7 +24,30 @@ import {
     WorkspaceEdit,
     DocumentFormattingParams,
     DocumentRangeFormattingParams,
-    TextEdit
+    TextEdit,
+    SemanticTokens,
+    SemanticTokensDelta,
+    SemanticTokensParams,
+    SemanticTokensDeltaParams,
+    CodeAction,
+    CodeActionParams,
+    CallHierarchyItem,
+    CallHierarchyPrepareParams,
+    CallHierarchyIncomingCall,
+    CallHierarchyIncomingCallsParams,
+    CallHierarchyOutgoingCall,
+    CallHierarchyOutgoingCallsParams,
+    TypeHierarchyItem,
+    TypeHierarchyPrepareParams,
+    TypeHierarchySupertypesParams,
+    TypeHierarchySubtypesParams,
+    ImplementationParams,
+    InlayHint,
+    InlayHintParams,
+    DidChangeWatchedFilesParams,
+    FileChangeType,
+    FoldingRange,
+    FoldingRangeParams
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -56,20 +79,42 @@ import { handlePrepareRename, handleRename } from './providers/rename-provider';
 
 // Import formatting providers
 import { handleDocumentFormatting, handleDocumentRangeFormatting } from './providers/formatting-provider';
+import { handleCodeAction } from './providers/code-action-provider';
+import {
+    handlePrepareTypeHierarchy,
+    handleTypeHierarchySupertypes,
+    handleTypeHierarchySubtypes,
+    handleImplementation
+} from './providers/type-hierarchy-provider';
+import { handlePrepareCallHierarchy, handleIncomingCalls, handleOutgoingCalls } from './providers/call-hierarchy-provider';
+import { handleSemanticTokens, handleSemanticTokensDelta, clearSemanticTokens } from './providers/semantic-tokens-provider';
+import { handleInlayHints } from './providers/inlay-hint-provider';
+import { handleFoldingRanges } from './providers/folding-range-provider';
 
 // Import symbol management
 import { optimizedSymbolParser } from './symbols/optimized-symbol-parser';
-import { setWorkspaceRoots, getWorkspaceRootForUri } from './indexer/workspace-index';
+import {
+    setWorkspaceRoots,
+    getWorkspaceRootForUri,
+    isSourceFile,
+    addWorkspaceFile,
+    removeWorkspaceFile
+} from './indexer/workspace-index';
+import { initSymbolIndexStore, setSymbolIndexStorage, saveSymbolIndex, clearSymbolIndex } from './indexer/symbol-index-store';
+import { initWorkspaceIndexer, indexWorkspace, indexFile, getDependentFiles } from './indexer/workspace-indexer';
+import { WorkspaceDiagnostics } from './validation/workspace-diagnostics';
 import { symbolCache } from './symbols/symbol-cache';
 import { SymbolInformation, SymbolKind as LSPSymbolKind, WorkspaceSymbolParams } from 'vscode-languageserver/node';
 import { SymbolKind as PBSymbolKind, PureBasicSymbol } from './symbols/types';
 
 // Import utility functions
 import { debounce } from './utils/debounce-utils';
-import { generateHash } from './utils/hash-utils';
+import { generateHash } from '../shared/hash-utils';
+import { uriToFsPath } from './utils/fs-utils';
+import { collectSearchDocuments } from './utils/document-collector';
 
 // Import Api function listing
-import { ApiFunctionListing } from './utils/api-function-listing';
+import { ApiFunctionListing } from '../shared/api-function-listing';
 
 // Import error handling
 import { initializeErrorHandler } from './utils/error-handler';
@@ -78,7 +123,7 @@ import { initializeErrorHandler } from './utils/error-handler';
 import { ProjectManager } from './managers/project-manager';
 
 // Import for Wire up LSP logging
-import { initFileCache }        from './utils/file-cache';
+import { initFileCache }        from '../shared/file-cache';
 import { initModuleResolver }   from './utils/module-resolver';
 
 // Create connection
@@ -134,9 +179,20 @@ initCompletionProvider(lspErrorLog);
 // Create document manager
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
+initSymbolIndexStore(lspErrorLog);
+initWorkspaceIndexer({
+    logError: lspErrorLog,
+    logInfo: message => connection.console.log(message),
+    isDocumentOpen: uri => documents.get(uri) !== undefined
+});
+
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
 let hasDiagnosticRelatedInformationCapability = false;
+let hasInlayHintRefreshCapability = false;
+
+// Extension storage directory for the persistent symbol index (from initializationOptions)
+let storagePath: string | undefined;
 
 // Document settings cache
 const documentSettings: Map<string, Thenable<PureBasicSettings>> = new Map();
@@ -151,6 +207,9 @@ const apiFunctionListing = new ApiFunctionListing();
 // Project manager for handling .pbp project files
 let projectManager: ProjectManager;
 
+// Background validation of closed files (purebasic.linting.diagnosticsScope)
+let workspaceDiagnostics: WorkspaceDiagnostics;
+
 connection.onInitialize((params: InitializeParams) => {
     const capabilities = params.capabilities;
 
@@ -166,14 +225,33 @@ connection.onInitialize((params: InitializeParams) => {
         capabilities.textDocument.publishDiagnostics &&
         capabilities.textDocument.publishDiagnostics.relatedInformation
     );
+    hasInlayHintRefreshCapability = !!(
+        capabilities.workspace &&
+        capabilities.workspace.inlayHint &&
+        capabilities.workspace.inlayHint.refreshSupport
+    );
+
+    storagePath = typeof params.initializationOptions?.storagePath === 'string'
+        ? params.initializationOptions.storagePath
+        : undefined;
 
     // Initialize the Project Manager
     projectManager = new ProjectManager(connection);
 
+    workspaceDiagnostics = new WorkspaceDiagnostics({
+        connection,
+        projectManager,
+        documents: documentCache,
+        getSettings: () => globalSettings,
+        isDocumentOpen: uri => documents.get(uri) !== undefined,
+        logError: lspErrorLog
+    });
+
     // Bridge notifications from the VS Code extension host (pb-project-files)
     connection.onNotification('purebasic/projectContext', payload => {
         try {
             projectManager.setActiveContext(payload);
+            workspaceDiagnostics.schedule();
         } catch (err) {
             logLspError('Failed to apply projectContext payload', err, { notification: 'purebasic/projectContext' });
         }
@@ -207,19 +285,22 @@ connection.onInitialized(async () => {
         // Registration Configuration Change Notification
         connection.client.register(DidChangeConfigurationNotification.type, undefined);
     }
+    let rootsReady: Promise<void> = Promise.resolve();
     if (hasWorkspaceFolderCapability) {
         connection.workspace.onDidChangeWorkspaceFolders(async _event => {
             try {
                 const folders = await connection.workspace.getWorkspaceFolders();
                 const uris = (folders || []).map(f => f.uri);
                 setWorkspaceRoots(uris);
+                void indexWorkspace();
+                workspaceDiagnostics.schedule();
             } catch (error) {
                 connection.console.error('Failed to update workspace folders');
                 logLspError(`Failed to update workspace folders`, error); // secure internal log
             }
         });
         // Initialize workspace root
-        connection.workspace.getWorkspaceFolders().then(folders => {
+        rootsReady = connection.workspace.getWorkspaceFolders().then(folders => {
             const uris = (folders || []).map(f => f.uri);
             setWorkspaceRoots(uris);
         }).catch(error => {
@@ -231,12 +312,23 @@ connection.onInitialized(async () => {
     // Initial load of the API function listing (non-hot path).
     await loadGlobalSettings();
     apiFunctionListing.load(globalSettings.apiFunctionListingPath ?? '');
+
+    // Index the workspace; unchanged files come from the persistent symbol index
+    setSymbolIndexStorage(globalSettings.symbols?.cacheEnabled === false ? undefined : storagePath);
+    await rootsReady;
+    void indexWorkspace();
+    workspaceDiagnostics.schedule();
+});
+
+connection.onShutdown(() => {
+    saveSymbolIndex();
 });
 
 // Custom Request: Clear Symbol Cache (to be used with the client command `purebasic.clearSymbolCache`)
 connection.onRequest('purebasic/clearSymbolCache', () => {
     try {
         symbolCache.clearAll();
+        clearSymbolIndex();
         connection.console.log('PureBasic: symbol cache cleared by client request');
         return true;
     } catch (err) {
@@ -265,12 +357,18 @@ connection.onDidChangeConfiguration(change => {
         globalSettings.formatting             = s.formatting             ?? defaultSettings.formatting;
         globalSettings.completion             = s.completion             ?? defaultSettings.completion;
         globalSettings.linting                = s.linting                ?? defaultSettings.linting;
+        globalSettings.inlayHints             = s.inlayHints             ?? defaultSettings.inlayHints;
         globalSettings.symbols                = s.symbols                ?? defaultSettings.symbols;
         globalSettings.apiFunctionListingPath = s.apiFunctionListingPath ?? defaultSettings.apiFunctionListingPath;
         apiFunctionListing.load(globalSettings.apiFunctionListingPath ?? '');
     }
     // Re-validate all open documents
     documents.all().forEach(safeValidateTextDocument);
+    workspaceDiagnostics.schedule();
+    // Inlay hint settings may have changed
+    if (hasInlayHintRefreshCapability) {
+        connection.languages.inlayHint.refresh().catch(err => logLspError('Inlay hint refresh failed', err));
+    }
 });
 
 async function loadGlobalSettings(): Promise<void> {
@@ -283,6 +381,7 @@ async function loadGlobalSettings(): Promise<void> {
         globalSettings.formatting           = config?.formatting           ?? defaultSettings.formatting;
         globalSettings.completion           = config?.completion           ?? defaultSettings.completion;
         globalSettings.linting              = config?.linting              ?? defaultSettings.linting;
+        globalSettings.inlayHints           = config?.inlayHints           ?? defaultSettings.inlayHints;
         globalSettings.symbols              = config?.symbols              ?? defaultSettings.symbols;
         globalSettings.apiFunctionListingPath = config?.apiFunctionListingPath ?? defaultSettings.apiFunctionListingPath;
     } catch (err) {
@@ -310,6 +409,7 @@ function getDocumentSettings(resource: string): Thenable<PureBasicSettings> {
                 formatting: config?.formatting ?? defaultSettings.formatting,
                 completion: config?.completion ?? defaultSettings.completion,
                 linting: config?.linting ?? defaultSettings.linting,
+                inlayHints: config?.inlayHints ?? defaultSettings.inlayHints,
                 symbols: config?.symbols ?? defaultSettings.symbols,
                 apiFunctionListingPath: config?.apiFunctionListingPath ?? defaultSettings.apiFunctionListingPath
             };
@@ -325,6 +425,13 @@ documents.onDidClose(e => {
     documentHashes.delete(e.document.uri);
     documentCache.delete(e.document.uri);
     optimizedSymbolParser.invalidate(e.document.uri);
+    // Workspace files fall back to their content on disk
+    if (e.document.uri.startsWith('file:') && getWorkspaceRootForUri(e.document.uri)) {
+        indexFile(uriToFsPath(e.document.uri));
+    }
+    // Keep the diagnostics of closed files in the background scope up to date
+    workspaceDiagnostics.validateFiles([uriToFsPath(e.document.uri)]);
+    clearSemanticTokens(e.document.uri);
     // Notify project manager
     projectManager.onDocumentClose(e.document);
 });
@@ -347,6 +454,57 @@ const debouncedValidateTextDocument = debounce((textDocument: TextDocument) => {
     safeValidateTextDocument(textDocument);
 }, 500);
 
+// Files created, changed or deleted outside the editor (git checkout, code generators, ...)
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+    try {
+        // Adding or removing a file can change how includes resolve anywhere
+        let revalidateAll = false;
+        const changed: string[] = [];
+        const affected = new Set<string>();
+
+        for (const change of params.changes) {
+            const fsPath = uriToFsPath(change.uri);
+            if (fsPath.toLowerCase().endsWith('.pbp')) {
+                // Project files and include directories may have changed
+                revalidateAll = true;
+                continue;
+            }
+            if (!isSourceFile(fsPath) || !getWorkspaceRootForUri(fsPath)) {
+                continue;
+            }
+
+            if (change.type === FileChangeType.Created) {
+                addWorkspaceFile(fsPath);
+                revalidateAll = true;
+            } else if (change.type === FileChangeType.Deleted) {
+                removeWorkspaceFile(fsPath);
+                revalidateAll = true;
+            }
+            for (const dependent of getDependentFiles(fsPath)) {
+                affected.add(dependent);
+            }
+            indexFile(fsPath);
+            changed.push(fsPath);
+        }
+
+        for (const document of documents.all()) {
+            if (revalidateAll || affected.has(uriToFsPath(document.uri))) {
+                // Force validation although the document text itself is unchanged
+                documentHashes.delete(document.uri);
+                safeValidateTextDocument(document);
+            }
+        }
+
+        if (revalidateAll) {
+            workspaceDiagnostics.schedule();
+        } else {
+            workspaceDiagnostics.validateFiles([...changed, ...affected]);
+        }
+    } catch (error) {
+        logLspError('Watched files change error', error);
+    }
+});
+
 const safeValidateTextDocument = (textDocument: TextDocument): Promise<void> => {
     return errorHandler.handleAsync('text-document-validation', async () => {
     const settings = await getDocumentSettings(textDocument.uri);
@@ -371,7 +529,8 @@ const safeValidateTextDocument = (textDocument: TextDocument): Promise<void> =>
 
     // Run all validators and send results
     const workspaceRoot = getWorkspaceRootForUri(textDocument.uri);
-    const diagnostics = runDiagnostics(textDocument, settings, workspaceRoot);
+    const searchDocuments = collectSearchDocuments(textDocument, documentCache, projectManager);
+    const diagnostics = runDiagnostics(textDocument, settings, workspaceRoot, searchDocuments);
     connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
     });
 };
@@ -580,6 +739,167 @@ connection.onDocumentRangeFormatting((params: DocumentRangeFormattingParams): Te
     }
 });
 
+// Code action handling
+connection.onCodeAction(async (params: CodeActionParams): Promise<CodeAction[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    try {
+        const settings = await getDocumentSettings(params.textDocument.uri);
+        if (settings.linting?.enableCodeActions === false) {
+            return [];
+        }
+        return handleCodeAction(params, document);
+    } catch (error) {
+        logLspError('Code action error', error, { uri: params.textDocument.uri });
+        return [];
+    }
+});
+
+// Call hierarchy handling
+connection.languages.callHierarchy.onPrepare((params: CallHierarchyPrepareParams): CallHierarchyItem[] | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    try {
+        return handlePrepareCallHierarchy(params, document, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Call hierarchy prepare error', error, { uri: params.textDocument.uri });
+        return null;
+    }
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params: CallHierarchyIncomingCallsParams): CallHierarchyIncomingCall[] => {
+    try {
+        return handleIncomingCalls(params, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Incoming calls error', error, { uri: params.item.uri });
+        return [];
+    }
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params: CallHierarchyOutgoingCallsParams): CallHierarchyOutgoingCall[] => {
+    try {
+        return handleOutgoingCalls(params, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Outgoing calls error', error, { uri: params.item.uri });
+        return [];
+    }
+});
+
+// Type hierarchy handling
+connection.languages.typeHierarchy.onPrepare((params: TypeHierarchyPrepareParams): TypeHierarchyItem[] | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return null;
+    }
+
+    try {
+        return handlePrepareTypeHierarchy(params, document, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Type hierarchy prepare error', error, { uri: params.textDocument.uri });
+        return null;
+    }
+});
+
+connection.languages.typeHierarchy.onSupertypes((params: TypeHierarchySupertypesParams): TypeHierarchyItem[] => {
+    try {
+        return handleTypeHierarchySupertypes(params, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Supertypes error', error, { uri: params.item.uri });
+        return [];
+    }
+});
+
+connection.languages.typeHierarchy.onSubtypes((params: TypeHierarchySubtypesParams): TypeHierarchyItem[] => {
+    try {
+        return handleTypeHierarchySubtypes(params, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Subtypes error', error, { uri: params.item.uri });
+        return [];
+    }
+});
+
+// Implementation handling
+connection.onImplementation((params: ImplementationParams): Location[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    try {
+        return handleImplementation(params, document, documentCache, projectManager);
+    } catch (error) {
+        logLspError('Implementation error', error, { uri: params.textDocument.uri });
+        return [];
+    }
+});
+
+// Semantic tokens handling
+connection.languages.semanticTokens.on((params: SemanticTokensParams): SemanticTokens => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return { data: [] };
+    }
+
+    try {
+        return handleSemanticTokens(params, document, apiFunctionListing);
+    } catch (error) {
+        logLspError('Semantic tokens error', error, { uri: params.textDocument.uri });
+        return { data: [] };
+    }
+});
+
+connection.languages.semanticTokens.onDelta((params: SemanticTokensDeltaParams): SemanticTokens | SemanticTokensDelta => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return { data: [] };
+    }
+
+    try {
+        return handleSemanticTokensDelta(params, document, apiFunctionListing);
+    } catch (error) {
+        logLspError('Semantic tokens delta error', error, { uri: params.textDocument.uri });
+        return { data: [] };
+    }
+});
+
+// Folding range handling
+connection.onFoldingRanges((params: FoldingRangeParams): FoldingRange[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    try {
+        return handleFoldingRanges(params, document);
+    } catch (error) {
+        logLspError('Folding range error', error, { uri: params.textDocument.uri });
+        return [];
+    }
+});
+
+// Inlay hint handling
+connection.languages.inlayHint.on(async (params: InlayHintParams): Promise<InlayHint[]> => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+
+    try {
+        const settings = await getDocumentSettings(params.textDocument.uri);
+        const inlayHints = settings.inlayHints ?? defaultSettings.inlayHints!;
+        return handleInlayHints(params, document, documentCache, inlayHints, projectManager, apiFunctionListing);
+    } catch (error) {
+        logLspError('Inlay hint error', error, { uri: params.textDocument.uri });
+        return [];
+    }
+});
+
 // Diagnostic-related handling is integrated in the validateTextDocument function
 
 // Start documents listening on the connection
@@ -5,9 +5,10 @@
 
 import { PureBasicSymbol, SymbolKind } from './types';
 import { symbolCache } from './symbol-cache';
-import { parsePureBasicConstantDefinition } from '../utils/constants';
-import { stripInlineComment } from '../utils/pb-lexer-utils';
-import { generateHash } from '../utils/hash-utils';
+import { generateHash } from '../../shared/hash-utils';
+import { getRangeText, getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
+import { Range } from 'vscode-languageserver/node';
 
 export interface ParsedDocument {
     symbols: PureBasicSymbol[];
@@ -58,6 +59,13 @@ export class OptimizedSymbolParser {
         return result;
     }
 
+    /**
+     * Extract the symbols of a text without touching the symbol cache.
+     */
+    extractSymbols(text: string): PureBasicSymbol[] {
+        return this.parseBasicSymbols(text);
+    }
+
     /**
      * Batch parsing of multiple documents (performance optimization)
      */
@@ -138,167 +146,111 @@ export class OptimizedSymbolParser {
 
     private parseBasicSymbols(text: string): PureBasicSymbol[] {
         const symbols: PureBasicSymbol[] = [];
-        const lines = text.split('\n');
-
-        for (let i = 0; i < lines.length; i++) {
-            const line = lines[i].trim();
-
-            // Skip comment lines
-            if (line.startsWith(';')) {
-                continue;
-            }
-
-            // Parsing Process Definition
-            const procMatch = line.match(/^Procedure(?:C|DLL|CDLL)?\s*(?:\.(\w+))?\s*([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (procMatch) {
-                symbols.push({
-                    name: procMatch[2],
-                    kind: SymbolKind.Procedure,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: procMatch[1] ? `Procedure.${procMatch[1]}` : 'Procedure',
-                    documentation: `Procedure definition: ${procMatch[2]}`
-                });
-            }
-
-            // Parsing Structure Definitions
-            const structMatch = line.match(/^Structure\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (structMatch) {
-                symbols.push({
-                    name: structMatch[1],
-                    kind: SymbolKind.Structure,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Structure',
-                    documentation: `Structure definition: ${structMatch[1]}`
-                });
-            }
-
-            // Parsing the interface definition
-            const interfaceMatch = line.match(/^Interface\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (interfaceMatch) {
-                symbols.push({
-                    name: interfaceMatch[1],
-                    kind: SymbolKind.Interface,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Interface',
-                    documentation: `Interface definition: ${interfaceMatch[1]}`
-                });
-            }
-
-            // Parsing Enumeration Definitions
-            const enumMatch = line.match(/^Enumeration(?:Binary)?\s+([a-zA-Z_][a-zA-Z0-9_]*)/i);
-            if (enumMatch) {
-                symbols.push({
-                    name: enumMatch[1],
-                    kind: SymbolKind.Enumeration,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Enumeration',
-                    documentation: `Enumeration definition: ${enumMatch[1]}`
-                });
-            }
-
-            // Parsing DeclareModule
-            const declareModuleMatch = line.match(/^DeclareModule\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (declareModuleMatch) {
-                symbols.push({
-                    name: declareModuleMatch[1],
-                    kind: SymbolKind.Module,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'DeclareModule',
-                    documentation: `DeclareModule definition: ${declareModuleMatch[1]}`
-                });
-            }
-
-            // Module Parsing
-            const moduleMatch = line.match(/^Module\s+([a-zA-Z_][a-zA-Z0-9_]*)/);
-            if (moduleMatch) {
-                symbols.push({
-                    name: moduleMatch[1],
-                    kind: SymbolKind.Module,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Module',
-                    documentation: `Module definition: ${moduleMatch[1]}`
-                });
-            }
-
-            // Parsing constant definitions
-            const constMatch = parsePureBasicConstantDefinition(line);
-            if (constMatch) {
-                const value = stripInlineComment(constMatch.value?.trim() ?? '').trim();
-                symbols.push({
-                    name: constMatch.name,
-                    kind: SymbolKind.Constant,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Constant',
-                    documentation: `Constant definition: #${constMatch.name} = ${value}`
-                });
-            }
-
-            // Parsing variable definitions
-            const varMatch = line.match(/^(?:Global|Protected|Static|Shared|Threaded)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*[.](\w+)/);
-            if (varMatch) {
-                symbols.push({
-                    name: varMatch[1],
-                    kind: SymbolKind.Variable,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: `Variable.${varMatch[2]}`,
-                    documentation: `Variable definition: ${varMatch[1]}.${varMatch[2]}`
-                });
-            }
-
-            // Array definitions: Dim/Global/Protected/Static Name(...)
-            const arrayMatch = line.match(/^(?:Dim|Global|Protected|Static)\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*\(([^)]*)\)/);
-            if (arrayMatch) {
-                symbols.push({
-                    name: arrayMatch[1],
-                    kind: SymbolKind.Variable,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'Array',
-                    documentation: `Array definition: ${arrayMatch[1]}(${arrayMatch[2]})`
-                });
-            }
+        const tree = getSyntaxTree(text);
+
+        const push = (
+            name: string,
+            kind: SymbolKind,
+            range: Range,
+            detail: string,
+            documentation: string,
+            module: string | undefined
+        ) => {
+            symbols.push({
+                name,
+                kind,
+                range: {
+                    start: { line: range.start.line, character: 0 },
+                    end: { line: range.start.line, character: range.end.line === range.start.line ? range.end.character : range.start.character }
+                },
+                detail,
+                documentation,
+                module
+            });
+        };
 
-            // List definitions: NewList Name.Type
-            const listMatch = line.match(/^NewList\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*[.](\w+)/);
-            if (listMatch) {
-                symbols.push({
-                    name: listMatch[1],
-                    kind: SymbolKind.Variable,
-                    range: {
-                        start: { line: i, character: 0 },
-                        end: { line: i, character: line.length }
-                    },
-                    detail: 'List',
-                    documentation: `List definition: NewList ${listMatch[1]}.${listMatch[2]}`
-                });
+        walkStatements(tree.body, (stmt, parents) => {
+            const moduleStmt = [...parents].reverse().find(p => p.kind === 'Module');
+            const module = moduleStmt?.kind === 'Module' ? moduleStmt.name?.name : undefined;
+
+            switch (stmt.kind) {
+                case 'Procedure': {
+                    if (!stmt.name) break;
+                    const name = stmt.name.name;
+                    push(name, SymbolKind.Procedure, stmt.headerRange,
+                        stmt.returnType ? `Procedure.${stmt.returnType.name}` : 'Procedure',
+                        `Procedure definition: ${name}`, module);
+                    const symbol = symbols[symbols.length - 1];
+                    symbol.parameters = stmt.parameters.map(p => getRangeText(text, tree, p.range));
+                    symbol.returnType = stmt.returnType?.name;
+                    break;
+                }
+
+                case 'Structure':
+                    if (stmt.name) {
+                        push(stmt.name.name, SymbolKind.Structure, stmt.headerRange, 'Structure',
+                            `Structure definition: ${stmt.name.name}`, module);
+                    }
+                    return false;
+
+                case 'Interface':
+                    if (stmt.name) {
+                        push(stmt.name.name, SymbolKind.Interface, stmt.headerRange, 'Interface',
+                            `Interface definition: ${stmt.name.name}`, module);
+                    }
+                    return false;
+
+                case 'Enumeration':
+                    if (stmt.name) {
+                        push(stmt.name.name, SymbolKind.Enumeration, stmt.headerRange, 'Enumeration',
+                            `Enumeration definition: ${stmt.name.name}`, module);
+                    }
+                    break;
+
+                case 'Module':
+                    if (stmt.name) {
+                        const detail = stmt.declare ? 'DeclareModule' : 'Module';
+                        push(stmt.name.name, SymbolKind.Module, stmt.headerRange, detail,
+                            `${detail} definition: ${stmt.name.name}`, module);
+                    }
+                    break;
+
+                case 'ConstantDefinition': {
+                    // Enumeration members may omit the value
+                    const value = stmt.value ? ` = ${getRangeText(text, tree, stmt.value.range).trim()}` : '';
+                    push(stmt.name.name, SymbolKind.Constant, stmt.range, 'Constant',
+                        `Constant definition: #${stmt.name.name}${value}`, module);
+                    break;
+                }
+
+                case 'VariableDeclaration': {
+                    // Shared only re-exposes existing globals inside a procedure
+                    if (stmt.keyword === 'Shared') break;
+                    for (const decl of stmt.declarators) {
+                        const name = decl.name.name;
+                        if (decl.collection === 'list') {
+                            const type = decl.type?.name ?? stmt.defaultType?.name;
+                            if (type) {
+                                push(name, SymbolKind.Variable, stmt.range, 'List',
+                                    `List definition: NewList ${name}.${type}`, module);
+                            }
+                        } else if (decl.collection === 'array') {
+                            const dims = (decl.dimensions ?? []).map(d => getRangeText(text, tree, d.range)).join(', ');
+                            push(name, SymbolKind.Variable, stmt.range, 'Array',
+                                `Array definition: ${name}(${dims})`, module);
+                        } else if (decl.collection !== 'map') {
+                            const type = decl.type?.name ?? stmt.defaultType?.name;
+                            if (type) {
+                                push(name, SymbolKind.Variable, stmt.range, `Variable.${type}`,
+                                    `Variable definition: ${name}.${type}`, module);
+                            }
+                        }
+                    }
+                    break;
+                }
             }
-        }
+            return undefined;
+        });
 
         return symbols;
     }
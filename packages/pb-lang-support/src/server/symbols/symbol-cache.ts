@@ -4,7 +4,7 @@
  */
 
 import { PureBasicSymbol, SymbolKind } from './types';
-import { generateHash } from '../utils/hash-utils';
+import { generateHash } from '../../shared/hash-utils';
 
 interface CacheEntry {
     symbols: PureBasicSymbol[];
@@ -16,7 +16,7 @@ interface CacheEntry {
 
 class EnhancedSymbolCache {
     private cache = new Map<string, CacheEntry>();
-    private readonly maxCacheSize = 1000;
+    private readonly maxCacheSize = 10000; // Room for the whole workspace index
     private readonly maxEntriesPerDocument = 500;
     private accessTimes: Array<{ uri: string; time: number }> = [];
 
@@ -213,6 +213,20 @@ class EnhancedSymbolCache {
         });
     }
 
+    /**
+     * All cached symbols with their document URI.
+     * Does not count as an access for cache priority purposes.
+     */
+    getAllSymbols(): Array<{ uri: string; symbol: PureBasicSymbol }> {
+        const out: Array<{ uri: string; symbol: PureBasicSymbol }> = [];
+        for (const [uri, entry] of this.cache.entries()) {
+            for (const symbol of entry.symbols) {
+                out.push({ uri, symbol });
+            }
+        }
+        return out;
+    }
+
     /**
      * Clear symbols for multiple documents in batch
      */
@@ -13,10 +13,11 @@
 import * as path from 'path';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { ProjectManager } from '../managers/project-manager';
-import { resolveIncludePath, fsPathToUri, normalizeDirPath } from '../utils/fs-utils';
-import { readFileCached } from '../utils/file-cache';
+import { resolveIncludePath, fsPathToUri, normalizeDirPath, uriToFsPath } from '../utils/fs-utils';
+import { readFileCached } from '../../shared/file-cache';
 import { getWorkspaceRootForUri } from '../indexer/workspace-index';
 import { LANGUAGE_ID } from '../utils/constants';
+import { symbolCache } from '../symbols/symbol-cache';
 
 /**
  * Collect all documents relevant for a provider operation on `document`.
@@ -159,4 +160,43 @@ export function collectSearchDocuments(
     }
 
     return result;
-}
\ No newline at end of file
+}
+
+/**
+ * Collect the documents for workspace-wide lookups (call and type hierarchy):
+ * the include graph of `document` (see collectSearchDocuments), all open
+ * documents and every file known to the workspace symbol index.
+ */
+export function collectWorkspaceDocuments(
+    document: TextDocument,
+    allDocuments: Map<string, TextDocument>,
+    projectManager?: ProjectManager
+): Map<string, TextDocument> {
+    const result = collectSearchDocuments(document, allDocuments, projectManager, 3, 'scan');
+
+    for (const doc of allDocuments.values()) {
+        if (doc.languageId === LANGUAGE_ID && !result.has(doc.uri)) {
+            result.set(doc.uri, doc);
+        }
+    }
+
+    const indexedUris = new Set(symbolCache.getAllSymbols().map(entry => entry.uri));
+    for (const uri of indexedUris) {
+        if (result.has(uri)) continue;
+        const doc = getDocumentByUri(uri, allDocuments);
+        if (doc) result.set(uri, doc);
+    }
+
+    return result;
+}
+
+/**
+ * The open document for `uri`, or a snapshot of the file on disk.
+ */
+export function getDocumentByUri(uri: string, allDocuments: Map<string, TextDocument>): TextDocument | undefined {
+    const opened = allDocuments.get(uri);
+    if (opened) return opened;
+
+    const content = readFileCached(uriToFsPath(uri));
+    return content != null ? TextDocument.create(uri, LANGUAGE_ID, 0, content) : undefined;
+}
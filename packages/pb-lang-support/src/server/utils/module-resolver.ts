@@ -7,8 +7,8 @@ import * as path from 'path';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { resolveIncludePath, readFileIfExistsSync, normalizeDirPath, tryRealpath } from './fs-utils';
 import { getWorkspaceRootForUri } from '../indexer/workspace-index';
-import { readFileCached } from './file-cache';
-import { generateHash } from './hash-utils';
+import { readFileCached } from '../../shared/file-cache';
+import { generateHash } from '../../shared/hash-utils';
 import { parsePureBasicConstantDeclaration } from './constants';
 import { escapeRegExp} from './pb-lexer-utils';
 
@@ -3,6 +3,10 @@
  * Handle scope analysis of PureBasic variables and symbols
  */
 
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
+import { Parameter, Statement, VariableDeclarationStatement } from '../parsers/pb-ast';
+
 export enum ScopeType {
     Global = 'global',
     Procedure = 'procedure',
@@ -34,6 +38,17 @@ export interface VariableInfo {
     isParameter: boolean;
 }
 
+/** Block statements that open a variable scope. */
+const scopeTypes: Partial<Record<Statement['kind'], ScopeType>> = {
+    Procedure: ScopeType.Procedure,
+    Structure: ScopeType.Structure,
+    If: ScopeType.If,
+    For: ScopeType.For,
+    While: ScopeType.While,
+    Repeat: ScopeType.Repeat,
+    Select: ScopeType.Select
+};
+
 /**
  * Parse scopes and variables in document
  */
@@ -42,60 +57,83 @@ export function analyzeScopesAndVariables(text: string, currentLine: number): {
     availableVariables: VariableInfo[];
     allScopes: ScopeInfo[];
 } {
-    const lines = text.split(/\r?\n/);
+    const tree = getSyntaxTree(text);
     const scopes: ScopeInfo[] = [];
     const variables: VariableInfo[] = [];
-    const scopeStack: ScopeInfo[] = [];
+    const scopeOf = new Map<Statement, ScopeInfo>();
 
     // Global scope
     const globalScope: ScopeInfo = {
         type: ScopeType.Global,
         startLine: 0,
-        endLine: lines.length - 1
+        endLine: tree.lineStarts.length - 1
     };
     scopes.push(globalScope);
-    scopeStack.push(globalScope);
 
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        const originalLine = lines[i];
-
-        // Skip comment lines
-        if (line.startsWith(';')) {
-            continue;
+    /** Names already known per procedure scope (lower case), to skip repeated assignments. */
+    const knownLocals = new Map<ScopeInfo, Set<string>>();
+
+    walkStatements(tree.body, (stmt, parents) => {
+        // Innermost enclosing scope
+        let parentScope = globalScope;
+        for (let i = parents.length - 1; i >= 0; i--) {
+            const scope = scopeOf.get(parents[i]);
+            if (scope) {
+                parentScope = scope;
+                break;
+            }
         }
 
-        // Check scope start
-        const scopeStart = detectScopeStart(line, i);
-        if (scopeStart) {
-            scopeStart.parentScope = scopeStack[scopeStack.length - 1];
-            scopes.push(scopeStart);
-            scopeStack.push(scopeStart);
+        const scope = createScope(stmt);
+        if (scope) {
+            scope.parentScope = parentScope;
+            scopes.push(scope);
+            scopeOf.set(stmt, scope);
         }
 
-        // Check scope end
-        if (detectScopeEnd(line, scopeStack)) {
-            const endedScope = scopeStack.pop();
-            if (endedScope) {
-                endedScope.endLine = i;
+        switch (stmt.kind) {
+            case 'Procedure':
+                // Parameters belong to the procedure scope itself
+                if (scope) {
+                    variables.push(...parseParameters(stmt.parameters, scope));
+                    knownLocals.set(scope, new Set(
+                        stmt.parameters.filter(p => p.name).map(p => p.name!.name.toLowerCase())
+                    ));
+                }
+                break;
+
+            case 'VariableDeclaration': {
+                const declared = parseVariableDeclaration(stmt, parentScope);
+                const procScope = findProcedureScope(parentScope);
+                const known = procScope && knownLocals.get(procScope);
+                declared.forEach(v => known?.add(v.name.toLowerCase()));
+                variables.push(...declared);
+                break;
             }
-        }
 
-        // Parsing variable definitions 
-        const currentScope = scopeStack[scopeStack.length - 1];
-        if (!currentScope) continue; // skip processing if no scope is available
-        const variablesInLine = parseVariablesInLine(line, i, currentScope);
-        variables.push(...variablesInLine);
-
-        // If it is a procedure definition, parse parameters
-        // ProcedureC / ProcedureDLL / ProcedureCDLL added to match detectScopeStart.
-        const procMatch = line.match(/^Procedure(?:C|DLL|CDLL)?(?:\.(\w+))?\s+(\w+)\s*\(([^)]*)\)/i);
-        if (procMatch && currentScope.type === ScopeType.Procedure) {
-            const params = procMatch[3] || '';
-            const paramVariables = parseParameters(params, i, currentScope);
-            variables.push(...paramVariables);
+            case 'Assignment': {
+                // Local variable (implicit declaration by assignment) - only inside procedures
+                const target = stmt.target;
+                if (target.kind !== 'Identifier' || target.pointer || target.module) break;
+                const procScope = findProcedureScope(parentScope);
+                const known = procScope && knownLocals.get(procScope);
+                if (!known || known.has(target.name.toLowerCase())) break;
+                known.add(target.name.toLowerCase());
+                variables.push({
+                    name: target.name,
+                    type: target.type?.name || 'i',
+                    scope: parentScope,
+                    definitionLine: target.nameRange.start.line,
+                    isGlobal: false,
+                    isProtected: false,
+                    isStatic: false,
+                    isParameter: false
+                });
+                break;
+            }
         }
-    }
+        return undefined;
+    });
 
     // Find the scope at current line
     const currentScope = findScopeAtLine(scopes, currentLine);
@@ -111,203 +149,82 @@ export function analyzeScopesAndVariables(text: string, currentLine: number): {
 }
 
 /**
- * Detect scope start
+ * Find the procedure scope enclosing (or equal to) `scope`
  */
-function detectScopeStart(line: string, lineNumber: number): ScopeInfo | null {
-    // Procedure start
-    // ProcedureC / ProcedureDLL / ProcedureCDLL added.
-    // Without this, those variants don't open a Procedure scope → their
-    // parameters are never parsed → varInfo lookup for struct params fails.
-    const procMatch = line.match(/^Procedure(?:C|DLL|CDLL)?(?:\.(\w+))?\s+(\w+)/i);
-    if (procMatch) {
-        return {
-            type: ScopeType.Procedure,
-            name: procMatch[2],
-            startLine: lineNumber
-        };
-    }
-
-    // Module start
-    const moduleMatch = line.match(/^Module\s+(\w+)/i);
-    if (moduleMatch) {
-        return {
-            type: ScopeType.Module,
-            name: moduleMatch[1],
-            startLine: lineNumber
-        };
-    }
-
-    // Structure start
-    const structMatch = line.match(/^Structure\s+(\w+)/i);
-    if (structMatch) {
-        return {
-            type: ScopeType.Structure,
-            name: structMatch[1],
-            startLine: lineNumber
-        };
+function findProcedureScope(scope: ScopeInfo | undefined): ScopeInfo | undefined {
+    while (scope && scope.type !== ScopeType.Procedure) {
+        scope = scope.parentScope;
     }
+    return scope;
+}
 
-    // If start
-    if (line.match(/^If\b/i)) {
-        return {
-            type: ScopeType.If,
-            startLine: lineNumber
-        };
-    }
+/**
+ * Create the scope opened by a block statement
+ */
+function createScope(stmt: Statement): ScopeInfo | null {
+    let type = scopeTypes[stmt.kind];
+    let name: string | undefined;
 
-    // For start
-    const forMatch = line.match(/^For\s+/i);
-    if (forMatch) {
-        return {
-            type: ScopeType.For,
-            startLine: lineNumber
-        };
+    if (stmt.kind === 'Module' && !stmt.declare) {
+        type = ScopeType.Module;
     }
-
-    // While start
-    if (line.match(/^While\b/i)) {
-        return {
-            type: ScopeType.While,
-            startLine: lineNumber
-        };
+    if (!type || !('headerRange' in stmt)) {
+        return null;
     }
-
-    // Repeat start
-    if (line.match(/^Repeat\b/i)) {
-        return {
-            type: ScopeType.Repeat,
-            startLine: lineNumber
-        };
+    if (stmt.kind === 'Procedure' || stmt.kind === 'Module' || stmt.kind === 'Structure') {
+        // Unnamed blocks are invalid syntax and do not open a scope
+        if (!stmt.name) return null;
+        name = stmt.name.name;
     }
 
-    // Select start
-    if (line.match(/^Select\b/i)) {
-        return {
-            type: ScopeType.Select,
-            startLine: lineNumber
-        };
-    }
-
-    return null;
-}
-
-/**
- * Detect scope end
- */
-function detectScopeEnd(line: string, scopeStack: ScopeInfo[]): boolean {
-    const currentScope = scopeStack[scopeStack.length - 1];
-    if (!currentScope) return false;
-
-    switch (currentScope.type) {
-        case ScopeType.Procedure:
-            return line.match(/^EndProcedure\b/i) !== null;
-        case ScopeType.Module:
-            return line.match(/^EndModule\b/i) !== null;
-        case ScopeType.Structure:
-            return line.match(/^EndStructure\b/i) !== null;
-        case ScopeType.If:
-            return line.match(/^EndIf\b/i) !== null;
-        case ScopeType.For:
-            return line.match(/^Next\b/i) !== null;
-        case ScopeType.While:
-            return line.match(/^Wend\b/i) !== null;
-        case ScopeType.Repeat:
-            return line.match(/^Until\b/i) !== null;
-        case ScopeType.Select:
-            return line.match(/^EndSelect\b/i) !== null;
-        default:
-            return false;
-    }
+    return {
+        type,
+        name,
+        startLine: stmt.headerRange.start.line,
+        endLine: stmt.end ? stmt.end.range.start.line : stmt.range.end.line
+    };
 }
 
 /**
- * Parse variable definitions in a line
+ * Parse the variables of a Global / Protected / Static / Define / Shared /
+ * Threaded / Dim / NewList / NewMap declaration
  */
-function parseVariablesInLine(line: string, lineNumber: number, currentScope: ScopeInfo): VariableInfo[] {
+function parseVariableDeclaration(stmt: VariableDeclarationStatement, currentScope: ScopeInfo): VariableInfo[] {
     const variables: VariableInfo[] = [];
 
-    // Match variable definition patterns
-    const patterns = [
-        // Global, Protected, Static, Define, Shared, Threaded variables
-        /^(Global|Protected|Static|Define|Shared|Threaded)\s+(\*?)(\w+)(?:\.(\w+))?(?:\(([^)]*)\))?/i,
-        // Dim array
-        /^Dim\s+(\w+)(?:\.(\w+))?(?:\(([^)]*)\))?/i,
-        // NewList declaration
-        /^(Global|Protected|Static|Define)?\s*NewList\s+(\w+)(?:\.(\w+))?/i,
-        // NewMap declaration
-        /^(Global|Protected|Static|Define)?\s*NewMap\s+(\w+)(?:\.(\w+))?/i,
-        // Local variable (simple variable declaration in procedure)
-        /^(\w+)(?:\.(\w+))?\s*=/i
-    ];
-
-    for (const pattern of patterns) {
-        const match = line.match(pattern);
-        if (match) {
-            let variableName: string;
-            let variableType: string = 'unknown';
-            let isGlobal = false;
-            let isProtected = false;
-            let isStatic = false;
-
-            if (pattern === patterns[0]) { // Global/Protected/Static等
-                const modifier = match[1];
-                const isPointer = match[2] === '*';
-                variableName = match[3];
-                variableType = match[4] || 'i';
-                const arraySize = match[5];
-
-                isGlobal = modifier?.toLowerCase() === 'global';
-                isProtected = modifier?.toLowerCase() === 'protected';
-                isStatic = modifier?.toLowerCase() === 'static';
-
-                if (arraySize) {
-                    variableType = `${variableType}[] (array)`;
-                } else if (isPointer) {
-                    variableType = `*${variableType} (pointer)`;
-                }
-            } else if (pattern === patterns[1]) { // Dim
-                variableName = match[1];
-                variableType = match[2] || 'i';
-                const arraySize = match[3];
-                if (arraySize) {
-                    variableType = `${variableType}[] (array)`;
-                }
-            } else if (pattern === patterns[2]) { // NewList
-                const modifier = match[1];
-                variableName = match[2];
-                variableType = `${match[3] || 'unknown'} (list)`;
-                isGlobal = modifier?.toLowerCase() === 'global';
-                isProtected = modifier?.toLowerCase() === 'protected';
-                isStatic = modifier?.toLowerCase() === 'static';
-            } else if (pattern === patterns[3]) { // NewMap
-                const modifier = match[1];
-                variableName = match[2];
-                variableType = `${match[3] || 'unknown'} (map)`;
-                isGlobal = modifier?.toLowerCase() === 'global';
-                isProtected = modifier?.toLowerCase() === 'protected';
-                isStatic = modifier?.toLowerCase() === 'static';
-            } else if (pattern === patterns[4]) { // 局部变量赋值
-                variableName = match[1];
-                variableType = match[2] || 'i';
-                // 只有在过程作用域内才考虑局部变量
-                if (currentScope.type !== ScopeType.Procedure) {
-                    continue;
-                }
-            } else {
-                continue;
-            }
+    // ReDim resizes an array that is already declared
+    if (stmt.keyword === 'ReDim') {
+        return variables;
+    }
 
-            variables.push({
-                name: variableName,
-                type: variableType,
-                scope: currentScope,
-                definitionLine: lineNumber,
-                isGlobal,
-                isProtected,
-                isStatic,
-                isParameter: false
-            });
+    for (const decl of stmt.declarators) {
+        const baseType = decl.type?.name || stmt.defaultType?.name;
+        let variableType: string;
+
+        switch (decl.collection) {
+            case 'array':
+                variableType = `${baseType || 'i'}[] (array)`;
+                break;
+            case 'list':
+                variableType = `${baseType || 'unknown'} (list)`;
+                break;
+            case 'map':
+                variableType = `${baseType || 'unknown'} (map)`;
+                break;
+            default:
+                variableType = decl.pointer ? `*${baseType || 'i'} (pointer)` : baseType || 'i';
         }
+
+        variables.push({
+            name: decl.name.name,
+            type: variableType,
+            scope: currentScope,
+            definitionLine: decl.name.range.start.line,
+            isGlobal: stmt.keyword === 'Global',
+            isProtected: stmt.keyword === 'Protected',
+            isStatic: stmt.keyword === 'Static',
+            isParameter: false
+        });
     }
 
     return variables;
@@ -316,39 +233,32 @@ function parseVariablesInLine(line: string, lineNumber: number, currentScope: Sc
 /**
  * Parse procedure parameters
  */
-function parseParameters(paramString: string, lineNumber: number, currentScope: ScopeInfo): VariableInfo[] {
+function parseParameters(params: Parameter[], currentScope: ScopeInfo): VariableInfo[] {
     const parameters: VariableInfo[] = [];
 
-    if (!paramString.trim()) {
-        return parameters;
-    }
-
-    const params = paramString.split(',');
     for (const param of params) {
-        const trimmedParam = param.trim();
-        const paramMatch = trimmedParam.match(/^(\*?)(\w+)(?:\.(\w+))?/);
-
-        if (paramMatch) {
-            const isPointer = paramMatch[1] === '*';
-            const paramName = paramMatch[2];
-            const paramType = paramMatch[3] || 'unknown';
-
-            let finalType = paramType;
-            if (isPointer) {
-                finalType = `*${paramType} (pointer)`;
-            }
-
-            parameters.push({
-                name: paramName,
-                type: finalType,
-                scope: currentScope,
-                definitionLine: lineNumber,
-                isGlobal: false,
-                isProtected: false,
-                isStatic: false,
-                isParameter: true
-            });
+        if (!param.name) continue;
+
+        const paramType = param.type?.name || 'unknown';
+        let finalType = paramType;
+        if (param.collection === 'array') {
+            finalType = `${paramType}[] (array)`;
+        } else if (param.collection) {
+            finalType = `${paramType} (${param.collection})`;
+        } else if (param.pointer) {
+            finalType = `*${paramType} (pointer)`;
         }
+
+        parameters.push({
+            name: param.name.name,
+            type: finalType,
+            scope: currentScope,
+            definitionLine: param.name.range.start.line,
+            isGlobal: false,
+            isProtected: false,
+            isStatic: false,
+            isParameter: true
+        });
     }
 
     return parameters;
@@ -452,29 +362,25 @@ function isVariableVisibleInScope(variable: VariableInfo, targetScope: ScopeInfo
 /**
  * Scan to current line, return list of currently active UseModule modules
  * - UseModule X makes X's exports visible in subsequent code until canceled by UnuseModule X or file end
- * - Simplified processing: does not consider conditional compilation and macros, only processes UseModule/UnuseModule in line order
+ * - Simplified processing: does not consider conditional compilation and macros, only processes UseModule/UnuseModule in source order
  */
 export function getActiveUsedModules(text: string, currentLine: number): string[] {
-    const lines = text.split(/\r?\n/);
+    const tree = getSyntaxTree(text);
     const used = new Set<string>();
 
-    const max = Math.min(currentLine, lines.length - 1);
-    for (let i = 0; i <= max; i++) {
-        const trimmed = lines[i].trim();
-        if (trimmed.startsWith(';') || trimmed === '') continue;
-
-        const useMatch = trimmed.match(/^UseModule\s+([a-zA-Z_][a-zA-Z0-9_]*)/i);
-        if (useMatch) {
-            used.add(useMatch[1]);
-            continue;
+    walkStatements(tree.body, stmt => {
+        if (stmt.range.start.line > currentLine) {
+            return false;
         }
-
-        const unuseMatch = trimmed.match(/^UnuseModule\s+([a-zA-Z_][a-zA-Z0-9_]*)/i);
-        if (unuseMatch) {
-            used.delete(unuseMatch[1]);
-            continue;
+        if (stmt.kind === 'UseModule' && stmt.name) {
+            if (stmt.keyword === 'UseModule') {
+                used.add(stmt.name.name);
+            } else {
+                used.delete(stmt.name.name);
+            }
         }
-    }
+        return undefined;
+    });
 
     return Array.from(used);
 }
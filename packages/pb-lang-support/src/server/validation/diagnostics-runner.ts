@@ -14,6 +14,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { PureBasicSettings } from '../config/settings';
 import { validateDocument } from './validator';
 import { validateIncludes } from './include-validator';
+import { validateUndeclaredVariables } from './undeclared-variable-validator';
 
 /**
  * Run all diagnostics for the given document and return the result.
@@ -21,11 +22,14 @@ import { validateIncludes } from './include-validator';
  * @param document      The document to validate.
  * @param settings      Document settings (controls limits and feature flags).
  * @param workspaceRoot Optional workspace root for path resolution.
+ * @param searchDocuments Documents visible from `document` (includes and
+ *                        project files), used to resolve declarations.
  */
 export function runDiagnostics(
     document: TextDocument,
     settings: PureBasicSettings,
-    workspaceRoot?: string
+    workspaceRoot?: string,
+    searchDocuments?: Map<string, TextDocument>
 ): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
 
@@ -38,6 +42,9 @@ export function runDiagnostics(
     // These require the TextDocument (URI) and may perform disk I/O.
     // Add new document-level validators here.
     diagnostics.push(...validateIncludes(document, workspaceRoot));
+    if (settings.linting?.checkUndefinedSymbols !== false) {
+        diagnostics.push(...validateUndeclaredVariables(document, searchDocuments));
+    }
 
     // --- 3. Apply problem limit -----------------------------------------
     const limit = settings.maxNumberOfProblems;
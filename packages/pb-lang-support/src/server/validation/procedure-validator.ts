@@ -4,94 +4,49 @@
  */
 
 import { DiagnosticSeverity } from 'vscode-languageserver/node';
-import { ValidationContext, ValidatorFunction } from './types';
-import { isValidType, DIAGNOSTIC_SOURCE } from '../utils/constants';
+import { ValidatorFunction } from './types';
+import { isValidType } from '../utils/constants';
 import { validateParameters } from './parameter-validator';
+import { lineRange, report } from './validation-utils';
 
 /**
  * Validate procedure related syntax
  */
-export const validateProcedure: ValidatorFunction = (
-    line: string,
-    lineNum: number,
-    originalLine: string,
-    context: ValidationContext,
-    diagnostics
-) => {
-    if (/^Procedure(?:C|DLL|CDLL)?\b/i.test(line) && !/^ProcedureReturn\b/i.test(line)) {
-        // Single-line Procedure ... : EndProcedure -> not pushed to stack
-        if (/\bEndProcedure\b/i.test(line)) {
-            return;
-        }
-
-        // Validate procedure header (calling convention, optional return type, name)
-        const headerMatch = line.match(/^Procedure(?:C|DLL|CDLL)?\s*(?:\.(\w+))?\s*([a-zA-Z_][a-zA-Z0-9_]*)/i);
-        if (!headerMatch) {
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: { line: lineNum, character: 0 },
-                    end: { line: lineNum, character: originalLine.length }
-                },
-                message: 'Invalid Procedure syntax. Expected: Procedure[.Type] Name([parameters])',
-                source: DIAGNOSTIC_SOURCE
-            });
-        } else {
-            const [, returnType, procName] = headerMatch;
-            context.procedureStack.push({ name: procName, line: lineNum });
+export const validateProcedure: ValidatorFunction = (statement, context, diagnostics) => {
+    switch (statement.kind) {
+        case 'Procedure': {
+            // Validate procedure header (calling convention, optional return type, name)
+            if (!statement.name) {
+                report(diagnostics, lineRange(context, statement.headerRange.start.line),
+                    'Invalid Procedure syntax. Expected: Procedure[.Type] Name([parameters])');
+                return;
+            }
 
             // Validate return type
-            if (returnType && !isValidType(returnType)) {
-                const typeStart = line.indexOf('.' + returnType);
-                diagnostics.push({
-                    severity: DiagnosticSeverity.Warning,
-                    range: {
-                        start: { line: lineNum, character: typeStart },
-                        end: { line: lineNum, character: typeStart + returnType.length + 1 }
-                    },
-                    message: `Unknown return type: ${returnType}`,
-                    source: DIAGNOSTIC_SOURCE
-                });
+            const returnType = statement.returnType;
+            if (returnType && !returnType.module && !isValidType(returnType.name)) {
+                report(diagnostics, returnType.range, `Unknown return type: ${returnType.name}`, DiagnosticSeverity.Warning);
             }
 
-            // `line` is already comment-stripped by the caller (validator.ts).
-            // Extract parameter list between the outermost parentheses.
-            const openIdx = line.indexOf('(');
-            const closeIdx = line.lastIndexOf(')');
-            if (openIdx !== -1 && closeIdx !== -1 && closeIdx > openIdx) {
-                const params = line.substring(openIdx + 1, closeIdx);
-                if (params.trim().length > 0) {
-                    validateParameters(params, lineNum, originalLine, diagnostics);
-                }
-            }
-        }
-    } else if (/^EndProcedure\b/i.test(line)) {
-        // Validate EndProcedure
-        if (context.procedureStack.length === 0) {
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: { line: lineNum, character: 0 },
-                    end: { line: lineNum, character: originalLine.length }
-                },
-                message: 'EndProcedure without matching Procedure',
-                source: DIAGNOSTIC_SOURCE
-            });
-        } else {
-            context.procedureStack.pop();
-        }
-    } else if (/^ProcedureReturn\b/i.test(line)) {
-        // Validate ProcedureReturn
-        if (context.procedureStack.length === 0) {
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: { line: lineNum, character: 0 },
-                    end: { line: lineNum, character: 12 }
-                },
-                message: 'ProcedureReturn used outside of procedure',
-                source: DIAGNOSTIC_SOURCE
-            });
+            validateParameters(statement.parameters, diagnostics);
+            break;
         }
+
+        case 'ProcedureReturn':
+            if (!context.parents.some(parent => parent.kind === 'Procedure')) {
+                const start = statement.range.start;
+                report(diagnostics, {
+                    start,
+                    end: { line: start.line, character: start.character + 'ProcedureReturn'.length }
+                }, 'ProcedureReturn used outside of procedure');
+            }
+            break;
+
+        case 'UnmatchedEnd':
+            if (statement.keyword === 'EndProcedure') {
+                report(diagnostics, lineRange(context, statement.range.start.line),
+                    'EndProcedure without matching Procedure');
+            }
+            break;
     }
 };
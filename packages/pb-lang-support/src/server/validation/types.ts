@@ -3,30 +3,19 @@
  */
 
 import { Diagnostic } from 'vscode-languageserver/node';
-
-export interface NamedBlock {
-    name: string;
-    line: number;
-}
+import { Statement, SyntaxTree } from '../parsers/pb-ast';
 
 export interface ValidationContext {
-    procedureStack: NamedBlock[];
-    structureStack: NamedBlock[];
-    ifStack: number[];
-    forStack: number[];
-    whileStack: number[];
-    repeatStack: number[];
-    selectStack: number[];
-    withStack: number[];
-    moduleStack: NamedBlock[];
-    declareModuleStack: NamedBlock[];
-    interfaceStack: number[];
+    /** Syntax tree of the validated document. */
+    tree: SyntaxTree;
+    /** Source lines, used for whole-line diagnostic ranges. */
+    lines: string[];
+    /** Block statements enclosing the current statement, outermost first. */
+    parents: readonly Statement[];
 }
 
 export type ValidatorFunction = (
-    line: string,
-    lineNum: number,
-    originalLine: string,
+    statement: Statement,
     context: ValidationContext,
     diagnostics: Diagnostic[]
 ) => void;
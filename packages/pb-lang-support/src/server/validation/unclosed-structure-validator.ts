@@ -1,77 +1,61 @@
 /**
  * Unclosed Structure Validator
- * Check unclosed structures at the end of document validation
+ * Reports block statements whose closing keyword is missing
  */
 
-import { DiagnosticSeverity, Diagnostic } from 'vscode-languageserver/node';
-import { ValidationContext } from './types';
-import { DIAGNOSTIC_SOURCE } from '../utils/constants';
+import { ValidatorFunction } from './types';
+import { lineRange, report } from './validation-utils';
+import { DiagnosticSeverity } from 'vscode-languageserver/node';
 
 /**
  * Validate unclosed structures
- * Temporarily disabled because it produces too many false positives on complex PureBasic code
+ * The parser closes a block implicitly when a keyword that cannot appear
+ * inside it (e.g. a nested Procedure) is reached, so a missing closer is
+ * reported on the opening line only.
  */
-export function validateUnclosedStructures(
-    context: ValidationContext,
-    lines: string[],
-    diagnostics: Diagnostic[]
-): void {
-    const addDiag = (line: number, message: string, severity: DiagnosticSeverity = DiagnosticSeverity.Warning) => {
-        const safeLine = Math.max(0, Math.min(line, Math.max(0, lines.length - 1)));
-        const text = lines[safeLine] || '';
-        diagnostics.push({
-            severity,
-            range: {
-                start: { line: safeLine, character: 0 },
-                end: { line: safeLine, character: text.length }
-            },
-            message,
-            source: DIAGNOSTIC_SOURCE
-        });
-    };
-
-    // Procedure blocks
-    for (const proc of context.procedureStack) {
-        addDiag(proc.line, `Unclosed Procedure '${proc.name}'. Missing EndProcedure.`);
-    }
-
-    // Modules
-    for (const mod of context.moduleStack) {
-        addDiag(mod.line, `Unclosed Module '${mod.name}'. Missing EndModule.`);
-    }
-
-    // DeclareModule
-    for (const mod of context.declareModuleStack) {
-        addDiag(mod.line, `Unclosed DeclareModule '${mod.name}'. Missing EndDeclareModule.`);
-    }
-
-    // Structures
-    for (const s of context.structureStack) {
-        addDiag(s.line, `Unclosed Structure '${s.name}'. Missing EndStructure.`);
-    }
-
-    // Interface
-    for (const line of context.interfaceStack) {
-        addDiag(line, 'Unclosed Interface. Missing EndInterface.');
-    }
-
-    // Control structures
-    for (const line of context.ifStack) {
-        addDiag(line, 'Unclosed If. Missing EndIf.');
-    }
-    for (const line of context.forStack) {
-        addDiag(line, 'Unclosed For/ForEach. Missing Next.');
-    }
-    for (const line of context.whileStack) {
-        addDiag(line, 'Unclosed While. Missing Wend.');
-    }
-    for (const line of context.repeatStack) {
-        addDiag(line, 'Unclosed Repeat. Missing Until/ForEver.');
-    }
-    for (const line of context.selectStack) {
-        addDiag(line, 'Unclosed Select. Missing EndSelect.');
-    }
-    for (const line of context.withStack) {
-        addDiag(line, 'Unclosed With. Missing EndWith.');
-    }
-}
+export const validateUnclosedStructures: ValidatorFunction = (statement, context, diagnostics) => {
+    let message: string | undefined;
+
+    switch (statement.kind) {
+        case 'Procedure':
+            if (statement.name) message = `Unclosed Procedure '${statement.name.name}'. Missing EndProcedure.`;
+            break;
+        case 'Module':
+            if (statement.name) {
+                message = statement.declare
+                    ? `Unclosed DeclareModule '${statement.name.name}'. Missing EndDeclareModule.`
+                    : `Unclosed Module '${statement.name.name}'. Missing EndModule.`;
+            }
+            break;
+        case 'Structure':
+            if (statement.name) message = `Unclosed Structure '${statement.name.name}'. Missing EndStructure.`;
+            break;
+        case 'Interface':
+            if (statement.name) message = 'Unclosed Interface. Missing EndInterface.';
+            break;
+        case 'If':
+            message = 'Unclosed If. Missing EndIf.';
+            break;
+        case 'For':
+            message = 'Unclosed For/ForEach. Missing Next.';
+            break;
+        case 'While':
+            message = 'Unclosed While. Missing Wend.';
+            break;
+        case 'Repeat':
+            message = 'Unclosed Repeat. Missing Until/ForEver.';
+            break;
+        case 'Select':
+            message = 'Unclosed Select. Missing EndSelect.';
+            break;
+        case 'With':
+            message = 'Unclosed With. Missing EndWith.';
+            break;
+        default:
+            return;
+    }
+
+    if (message && statement.end === undefined) {
+        report(diagnostics, lineRange(context, statement.headerRange.start.line), message, DiagnosticSeverity.Warning);
+    }
+};
@@ -0,0 +1,195 @@
+/**
+ * Undeclared Variable Validator
+ * Reports variables used without a declaration while EnableExplicit is active.
+ * Without EnableExplicit PureBasic creates such variables implicitly.
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { getStatementExpressions, walkExpression, walkStatements } from '../parsers/pb-ast-walker';
+import { IdentifierExpression, ProcedureStatement, Statement, SyntaxTree } from '../parsers/pb-ast';
+import { builtinFunctionMap } from '../../shared/builtin-functions';
+import { report } from './validation-utils';
+
+/** Compiler functions whose arguments are type, field or symbol names, not variables. */
+const NAME_ARGUMENT_FUNCTIONS = new Set([
+    'sizeof', 'offsetof', 'typeof', 'defined',
+    'initializestructure', 'clearstructure', 'resetstructure', 'copystructure'
+]);
+
+export interface VariableUse {
+    identifier: IdentifierExpression;
+    /** Statement the variable is used in. */
+    statement: Statement;
+    /** Procedure the variable is used in; undefined for the main code. */
+    procedure?: ProcedureStatement;
+}
+
+/** Lower-case names a variable use can resolve to. */
+interface DeclaredNames {
+    /** Globals, procedures, prototypes, macros, structures, interfaces, modules and labels. */
+    global: Set<string>;
+    /** Variables declared in the main code (reachable from procedures only with Shared). */
+    main: Set<string>;
+    /** Parameters and variables declared inside each procedure. */
+    procedures: Map<ProcedureStatement, Set<string>>;
+}
+
+/**
+ * Validate that every variable used under EnableExplicit is declared.
+ *
+ * @param document        The document being validated.
+ * @param searchDocuments Documents visible from `document` (its includes and
+ *                        project files, see collectSearchDocuments). Their
+ *                        globals, procedures and main code variables count
+ *                        as declared.
+ */
+export function validateUndeclaredVariables(
+    document: TextDocument,
+    searchDocuments?: Map<string, TextDocument>
+): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const tree = getSyntaxTree(document.getText());
+    const uses = findExplicitVariableUses(tree);
+    if (uses.length === 0) {
+        return diagnostics;
+    }
+
+    const names = createDeclaredNames();
+    collectDeclaredNames(tree, names);
+    for (const [uri, searchDocument] of searchDocuments ?? []) {
+        if (uri !== document.uri) {
+            collectDeclaredNames(getSyntaxTree(searchDocument.getText()), names);
+        }
+    }
+
+    for (const use of uses) {
+        const key = use.identifier.name.toLowerCase();
+        const local = use.procedure ? names.procedures.get(use.procedure) : names.main;
+        if (!builtinFunctionMap.has(key) && !names.global.has(key) && !local?.has(key)) {
+            report(diagnostics, use.identifier.nameRange,
+                `Variable not declared: ${use.identifier.name}`, DiagnosticSeverity.Warning);
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Find the variable use whose name covers exactly `range`, e.g. the range of
+ * a diagnostic reported by validateUndeclaredVariables().
+ */
+export function findVariableUse(tree: SyntaxTree, range: Range): VariableUse | undefined {
+    const sameRange = (a: Range) =>
+        a.start.line === range.start.line && a.start.character === range.start.character &&
+        a.end.line === range.end.line && a.end.character === range.end.character;
+
+    let found: VariableUse | undefined;
+    visitVariableUses(tree, use => {
+        if (!found && sameRange(use.identifier.nameRange)) {
+            found = use;
+        }
+    });
+    return found;
+}
+
+/**
+ * Variable uses in the parts of the document compiled with EnableExplicit.
+ */
+function findExplicitVariableUses(tree: SyntaxTree): VariableUse[] {
+    const uses: VariableUse[] = [];
+    let explicit = false;
+
+    visitVariableUses(tree, use => {
+        if (explicit) uses.push(use);
+    }, stmt => {
+        if (stmt.kind === 'Command' && (stmt.keyword === 'EnableExplicit' || stmt.keyword === 'DisableExplicit')) {
+            explicit = stmt.keyword === 'EnableExplicit';
+        }
+    });
+    return uses;
+}
+
+/**
+ * Call `visitor` for every plain identifier used as a variable: not called,
+ * not module-qualified and not the name argument of SizeOf() and friends.
+ */
+function visitVariableUses(
+    tree: SyntaxTree,
+    visitor: (use: VariableUse) => void,
+    onStatement?: (statement: Statement) => void
+): void {
+    walkStatements(tree.body, (stmt, parents) => {
+        onStatement?.(stmt);
+        // Macro bodies and the raw content of header sections are not parsed
+        if (stmt.kind === 'Macro' || stmt.kind === 'HeaderSection') return false;
+
+        const procedure = [...parents].reverse().find((p): p is ProcedureStatement => p.kind === 'Procedure');
+        const skipped = new Set<IdentifierExpression>();
+        for (const expression of getStatementExpressions(stmt)) {
+            walkExpression(expression, node => {
+                if (node.kind === 'Call') {
+                    skipped.add(node.callee);
+                    if (NAME_ARGUMENT_FUNCTIONS.has(node.callee.name.toLowerCase())) {
+                        node.args.forEach(arg => walkExpression(arg, inner => {
+                            if (inner.kind === 'Identifier') skipped.add(inner);
+                        }));
+                    }
+                } else if (node.kind === 'Identifier' && !node.module && !skipped.has(node)) {
+                    visitor({ identifier: node, statement: stmt, procedure });
+                }
+            });
+        }
+        return undefined;
+    });
+}
+
+function createDeclaredNames(): DeclaredNames {
+    return { global: new Set(), main: new Set(), procedures: new Map() };
+}
+
+function collectDeclaredNames(tree: SyntaxTree, names: DeclaredNames): void {
+    walkStatements(tree.body, (stmt, parents) => {
+        const procedure = [...parents].reverse().find((p): p is ProcedureStatement => p.kind === 'Procedure');
+        const scope = () => {
+            if (!procedure) return names.main;
+            let set = names.procedures.get(procedure);
+            if (!set) {
+                set = new Set();
+                names.procedures.set(procedure, set);
+            }
+            return set;
+        };
+
+        switch (stmt.kind) {
+            case 'VariableDeclaration': {
+                if (stmt.keyword === 'ReDim') break;
+                // Globals are visible everywhere, other declarations only in their own procedure
+                // (or in the main code, for declarations outside of procedures)
+                const target = stmt.keyword === 'Global' || stmt.keyword === 'Threaded' ? names.global : scope();
+                stmt.declarators.forEach(d => target.add(d.name.name.toLowerCase()));
+                break;
+            }
+            case 'Procedure': {
+                if (stmt.name) names.global.add(stmt.name.name.toLowerCase());
+                const parameters = new Set<string>();
+                stmt.parameters.forEach(p => {
+                    if (p.name) parameters.add(p.name.name.toLowerCase());
+                });
+                names.procedures.set(stmt, parameters);
+                break;
+            }
+            case 'Declare':
+            case 'Prototype':
+            case 'Macro':
+            case 'Structure':
+            case 'Interface':
+            case 'Module':
+            case 'Label':
+                if (stmt.name) names.global.add(stmt.name.name.toLowerCase());
+                break;
+        }
+        return undefined;
+    });
+}
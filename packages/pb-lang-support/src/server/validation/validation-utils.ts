@@ -0,0 +1,30 @@
+/**
+ * Shared helpers for the statement validators
+ */
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver/node';
+import { ValidationContext } from './types';
+import { DIAGNOSTIC_SOURCE } from '../utils/constants';
+
+/**
+ * Range covering the whole source line `line`.
+ */
+export function lineRange(context: ValidationContext, line: number): Range {
+    const safeLine = Math.max(0, Math.min(line, Math.max(0, context.lines.length - 1)));
+    return {
+        start: { line: safeLine, character: 0 },
+        end: { line: safeLine, character: (context.lines[safeLine] || '').length }
+    };
+}
+
+/**
+ * Push a diagnostic with the PureBasic diagnostic source.
+ */
+export function report(
+    diagnostics: Diagnostic[],
+    range: Range,
+    message: string,
+    severity: DiagnosticSeverity = DiagnosticSeverity.Error
+): void {
+    diagnostics.push({ severity, range, message, source: DIAGNOSTIC_SOURCE });
+}
@@ -12,7 +12,8 @@ import { validateDataStructures } from './data-structure-validator';
 import { validateModules } from './module-validator';
 import { validateGeneric } from './generic-validator';
 import { validateUnclosedStructures } from './unclosed-structure-validator';
-import { stripInlineComment } from '../utils/pb-lexer-utils';
+import { getSyntaxTree } from '../parsers/pb-parser';
+import { walkStatements } from '../parsers/pb-ast-walker';
 
 type LogFn = (message: string, err?: unknown) => void;
 
@@ -30,19 +31,11 @@ export function initValidator(logFn: LogFn): void {
 /**
  * Create a new validation context
  */
-export function createValidationContext(): ValidationContext {
+export function createValidationContext(text: string): ValidationContext {
     return {
-        procedureStack: [],
-        structureStack: [],
-        ifStack: [],
-        forStack: [],
-        whileStack: [],
-        repeatStack: [],
-        selectStack: [],
-        withStack: [],
-        moduleStack: [],
-        declareModuleStack: [],
-        interfaceStack: []
+        tree: getSyntaxTree(text),
+        lines: text.split(/\r?\n/),
+        parents: []
     };
 }
 
@@ -60,31 +53,20 @@ export function validateDocument(text: string): Diagnostic[] {
 
 function validateDocumentInternal(text: string): Diagnostic[] {
     const diagnostics: Diagnostic[] = [];
-    const context = createValidationContext();
-    const lines = text.split(/\r?\n/);
+    const context = createValidationContext(text);
 
-    for (let i = 0; i < lines.length; i++) {
-        const originalLine = lines[i];
-        const trimmedLine = originalLine.trim();
-
-        // Skip empty lines and comments
-        if (trimmedLine === '' || trimmedLine.startsWith(';')) {
-            continue;
-        }
+    walkStatements(context.tree.body, (statement, parents) => {
+        context.parents = parents;
 
         // Apply all validators
-        // Strip inline comments for validation, but keep originalLine for ranges
-        const line = stripInlineComment(trimmedLine).trimEnd();
-        validateProcedure(line, i, originalLine, context, diagnostics);
-        validateVariables(line, i, originalLine, context, diagnostics);
-        validateControlStructures(line, i, originalLine, context, diagnostics);
-        validateDataStructures(line, i, originalLine, context, diagnostics);
-        validateModules(line, i, originalLine, context, diagnostics);
-        validateGeneric(line, i, originalLine, context, diagnostics);
-    }
-
-    // Check unclosed structures
-    validateUnclosedStructures(context, lines, diagnostics);
+        validateProcedure(statement, context, diagnostics);
+        validateVariables(statement, context, diagnostics);
+        validateControlStructures(statement, context, diagnostics);
+        validateDataStructures(statement, context, diagnostics);
+        validateModules(statement, context, diagnostics);
+        validateGeneric(statement, context, diagnostics);
+        validateUnclosedStructures(statement, context, diagnostics);
+    });
 
     return diagnostics;
 }
@@ -0,0 +1,162 @@
+/**
+ * Workspace diagnostics
+ * Validates the files of the active .pbp project or the whole workspace in
+ * the background (opt-in via `purebasic.linting.diagnosticsScope`), so the
+ * Problems panel also lists problems of files nobody has opened yet.
+ *
+ * Open documents are left to the regular on-change validation.
+ */
+
+import * as fs from 'fs';
+import { Connection } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticsScope, PureBasicSettings } from '../config/settings';
+import { ProjectManager } from '../managers/project-manager';
+import { getWorkspaceFiles, getWorkspaceRootForUri, isSourceFile } from '../indexer/workspace-index';
+import { fsPathToUri } from '../utils/fs-utils';
+import { collectSearchDocuments } from '../utils/document-collector';
+import { LANGUAGE_ID } from '../utils/constants';
+import { runDiagnostics } from './diagnostics-runner';
+
+type LogFn = (message: string, err?: unknown) => void;
+
+export interface WorkspaceDiagnosticsOptions {
+    connection: Connection;
+    projectManager: ProjectManager;
+    /** Open documents, preferred over the disk content of included files. */
+    documents: Map<string, TextDocument>;
+    getSettings(): PureBasicSettings;
+    isDocumentOpen(uri: string): boolean;
+    logError: LogFn;
+}
+
+/** Delay before a (re)scheduled run starts, to coalesce bursts of triggers. */
+const START_DELAY_MS = 1000;
+/** Files validated between two pauses. */
+const BATCH_SIZE = 10;
+/** Pause between batches so that background validation never starves requests. */
+const THROTTLE_MS = 50;
+
+export class WorkspaceDiagnostics {
+    /** URIs of closed files with diagnostics published by this class. */
+    private readonly published = new Set<string>();
+    /** Incremented for every scheduled run; a running pass stops when it changes. */
+    private generation = 0;
+    private timer: NodeJS.Timeout | undefined;
+
+    public constructor(private readonly options: WorkspaceDiagnosticsOptions) {}
+
+    /**
+     * Validate all files in scope in the background. Cancels a run in progress.
+     */
+    public schedule(): void {
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.run().catch(err => this.options.logError('Workspace diagnostics failed', err));
+        }, START_DELAY_MS);
+    }
+
+    /**
+     * Re-validate single files (changed on disk or just closed). Files outside
+     * the scope lose the diagnostics published for them.
+     */
+    public validateFiles(fsPaths: string[]): void {
+        const settings = this.options.getSettings();
+        const scope = this.getScope(settings);
+        const inScope = new Set(scope === 'openFiles' ? [] : this.collectFiles(scope));
+
+        for (const fsPath of fsPaths) {
+            if (inScope.has(fsPath)) {
+                this.validateFile(fsPath, settings);
+            } else {
+                this.clear(fsPathToUri(fsPath));
+            }
+        }
+    }
+
+    private async run(): Promise<void> {
+        const generation = this.generation;
+        const settings = this.options.getSettings();
+        const scope = this.getScope(settings);
+        const files = scope === 'openFiles' ? [] : this.collectFiles(scope);
+
+        // Files that left the scope
+        const uris = new Set(files.map(fsPathToUri));
+        for (const uri of Array.from(this.published)) {
+            if (!uris.has(uri)) {
+                this.clear(uri);
+            }
+        }
+        if (files.length === 0) {
+            return;
+        }
+
+        const progress = await this.options.connection.window.createWorkDoneProgress();
+        progress.begin('PureBasic: validating files', 0, `0/${files.length}`, true);
+        try {
+            for (let i = 0; i < files.length; i++) {
+                if (generation !== this.generation || progress.token.isCancellationRequested) {
+                    return;
+                }
+                this.validateFile(files[i], settings);
+
+                if ((i + 1) % BATCH_SIZE === 0) {
+                    progress.report(Math.round((i + 1) * 100 / files.length), `${i + 1}/${files.length}`);
+                    await new Promise(resolve => setTimeout(resolve, THROTTLE_MS));
+                }
+            }
+        } finally {
+            progress.done();
+        }
+    }
+
+    private validateFile(fsPath: string, settings: PureBasicSettings): void {
+        const uri = fsPathToUri(fsPath);
+        // Open documents are validated from the editor content
+        if (this.options.isDocumentOpen(uri)) {
+            this.published.delete(uri);
+            return;
+        }
+
+        let content: string;
+        try {
+            content = fs.readFileSync(fsPath, 'utf8');
+        } catch {
+            this.clear(uri);
+            return;
+        }
+
+        try {
+            const document = TextDocument.create(uri, LANGUAGE_ID, 0, content);
+            const searchDocuments = collectSearchDocuments(document, this.options.documents, this.options.projectManager);
+            const diagnostics = runDiagnostics(document, settings, getWorkspaceRootForUri(uri), searchDocuments);
+            this.options.connection.sendDiagnostics({ uri, diagnostics });
+            this.published.add(uri);
+        } catch (err) {
+            this.options.logError('Workspace diagnostics failed for file', err);
+        }
+    }
+
+    private clear(uri: string): void {
+        if (this.published.delete(uri) && !this.options.isDocumentOpen(uri)) {
+            this.options.connection.sendDiagnostics({ uri, diagnostics: [] });
+        }
+    }
+
+    private getScope(settings: PureBasicSettings): DiagnosticsScope {
+        if (!settings.enableValidation) {
+            return 'openFiles';
+        }
+        return settings.linting?.diagnosticsScope ?? 'openFiles';
+    }
+
+    private collectFiles(scope: Exclude<DiagnosticsScope, 'openFiles'>): string[] {
+        return scope === 'project'
+            ? this.options.projectManager.getActiveProjectFiles().filter(isSourceFile)
+            : getWorkspaceFiles();
+    }
+}
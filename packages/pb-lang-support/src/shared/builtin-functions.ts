@@ -11,7 +11,7 @@
  * or maintaining separate hardcoded lists.
  */
 
-import builtinFunctions from '../../data/pb-builtin-functions.json';
+import builtinFunctions from '../data/pb-builtin-functions.json';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -0,0 +1,104 @@
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient, FakeDebuggee } from './fake-debuggee';
+
+const realPath = jest.requireActual('path') as typeof path;
+
+/** Expression result of a Quad value (Expression event, result type 2). */
+function quadResult(value: bigint): { command: number; value2: number; data: Buffer } {
+  const data = Buffer.alloc(8);
+  data.writeBigInt64LE(value);
+  return { command: 36, value2: 2, data };
+}
+
+describe('breakpoint conditions, hit counts and logpoints', () => {
+  const program = realPath.resolve('/tmp/main.pb');
+  let client: DebugClient;
+
+  beforeEach(() => {
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  /** Set one breakpoint on line 5 and let the program continue. */
+  const setBreakpoint = async (debuggee: FakeDebuggee, options: Omit<DebugProtocol.SourceBreakpoint, 'line'>) => {
+    client.request('setBreakpoints', { source: { path: program }, breakpoints: [{ line: 5, ...options }] });
+    const response = await client.waitForResponse<DebugProtocol.SetBreakpointsResponse>('setBreakpoints');
+    client.request('continue', { threadId: 1 });
+    await debuggee.waitForCommand(2);
+    client.messages.length = 0;
+    debuggee.received.length = 0;
+    return response.body.breakpoints[0];
+  };
+
+  /** The program reaches the breakpoint on line 5. */
+  const hitBreakpoint = (debuggee: FakeDebuggee) => {
+    debuggee.send({ command: 3, value1: 4, value2: 7 });  // Stopped: breakpoint
+  };
+
+  const isStopped = () => client.messages.some(msg => (msg as DebugProtocol.Event).event === 'stopped');
+
+  test('resumes until the hit condition is met', async () => {
+    const debuggee = await client.attachStopped({ program });
+    await setBreakpoint(debuggee, { hitCondition: '>=2' });
+
+    hitBreakpoint(debuggee);
+    await debuggee.waitForCommand(2);                      // resumed on the first hit
+    expect(isStopped()).toBe(false);
+
+    debuggee.received.length = 0;
+    hitBreakpoint(debuggee);
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body.reason).toBe('breakpoint');
+    expect(debuggee.received.map(msg => msg.command)).not.toContain(2);
+  });
+
+  test('does not set a breakpoint whose hit condition cannot be parsed', async () => {
+    const debuggee = await client.attachStopped({ program });
+
+    client.request('setBreakpoints', { source: { path: program }, breakpoints: [{ line: 5, hitCondition: 'often' }] });
+    const response = await client.waitForResponse<DebugProtocol.SetBreakpointsResponse>('setBreakpoints');
+    expect(response.body.breakpoints[0]).toMatchObject({ verified: false, message: expect.stringMatching(/^Invalid hit condition 'often'/) });
+    // Only the Clear (3) for file 0, no Add (1)
+    await debuggee.waitForCommand(3);
+    expect(debuggee.received.filter(msg => msg.command === 3).map(msg => msg.value1)).toEqual([3]);
+  });
+
+  test('stops only when the condition is true', async () => {
+    const debuggee = await client.attachStopped({ program });
+    await setBreakpoint(debuggee, { condition: 'Counter > 1' });
+
+    hitBreakpoint(debuggee);
+    const first = await debuggee.waitForCommand(34);       // EvaluateExpressionWithStruct
+    expect(first.data.toString('utf16le')).toBe('Counter > 1\0');
+    debuggee.received.length = 0;
+    debuggee.send(quadResult(0n));
+    await debuggee.waitForCommand(2);                      // resumed
+    expect(isStopped()).toBe(false);
+
+    debuggee.received.length = 0;
+    hitBreakpoint(debuggee);
+    await debuggee.waitForCommand(34);
+    debuggee.send(quadResult(1n));
+    expect((await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped')).body.reason).toBe('breakpoint');
+  });
+
+  test('logs the message of a logpoint and resumes', async () => {
+    const debuggee = await client.attachStopped({ program });
+    await setBreakpoint(debuggee, { logMessage: 'Counter = {Counter}' });
+
+    hitBreakpoint(debuggee);
+    await debuggee.waitForCommand(34);
+    debuggee.send(quadResult(42n));
+
+    const output = await client.waitFor(msg => (msg as DebugProtocol.OutputEvent).event === 'output'
+      && (msg as DebugProtocol.OutputEvent).body.output === 'Counter = 42\n');
+    expect(output).toBeDefined();
+    await debuggee.waitForCommand(2);
+    expect(isStopped()).toBe(false);
+  });
+});
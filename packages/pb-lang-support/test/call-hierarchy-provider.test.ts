@@ -0,0 +1,99 @@
+import * as path from 'path';
+import { CallHierarchyItem } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  handleIncomingCalls,
+  handleOutgoingCalls,
+  handlePrepareCallHierarchy,
+} from '../src/server/providers/call-hierarchy-provider';
+
+const realPath = jest.requireActual('path');
+
+const mainUri = 'file:///project/main.pb';
+const otherUri = 'file:///project/other.pb';
+
+const main = TextDocument.create(mainUri, 'purebasic', 1, [
+  'DeclareModule Math',
+  '  Declare Add(a, b)',
+  'EndDeclareModule',
+  'Module Math',
+  '  Procedure Add(a, b)',
+  '    ProcedureReturn a + b',
+  '  EndProcedure',
+  'EndModule',
+  'Declare Twice(x)',
+  'Procedure Main()',
+  '  Debug Math::Add(1, 2) + Twice(3)',
+  'EndProcedure',
+  'Procedure Twice(x)',
+  '  ProcedureReturn Math::Add(x, x)',
+  'EndProcedure',
+  'Main()',
+].join('\n'));
+
+const other = TextDocument.create(otherUri, 'purebasic', 1, [
+  'UseModule Math',
+  'Debug Add(4, 5)',
+].join('\n'));
+
+const documents = new Map([[mainUri, main], [otherUri, other]]);
+
+/** Prepare the call hierarchy at `character` of `line` in main.pb. */
+const prepare = (line: number, character: number): CallHierarchyItem[] | null =>
+  handlePrepareCallHierarchy({ textDocument: { uri: mainUri }, position: { line, character } }, main, documents);
+
+const lineOf = (item: CallHierarchyItem) => item.selectionRange.start.line;
+
+describe('call hierarchy', () => {
+  beforeEach(() => {
+    // test/setup.ts mocks path; file items are named after the file
+    for (const name of ['resolve', 'dirname', 'basename', 'extname', 'isAbsolute'] as const) {
+      (path[name] as jest.Mock).mockImplementation(realPath[name]);
+    }
+  });
+
+  test('prepares the procedure of a Module::Proc() call', () => {
+    const [item] = prepare(10, 15)!;
+    expect(item).toMatchObject({ name: 'Add', detail: 'Math::Add', uri: mainUri });
+    expect(lineOf(item)).toBe(4);
+  });
+
+  test('prepares the procedure of a Declare', () => {
+    expect(lineOf(prepare(8, 9)![0])).toBe(12);
+    expect(lineOf(prepare(1, 11)![0])).toBe(4);
+  });
+
+  test('returns nothing outside of procedure names and calls', () => {
+    expect(prepare(5, 20)).toBeNull();
+  });
+
+  test('lists incoming calls from procedures, the main code and other files', () => {
+    const [add] = prepare(4, 13)!;
+    const calls = handleIncomingCalls({ item: add }, documents);
+    expect(calls.map(call => `${call.from.name}@${call.from.uri}`).sort()).toEqual([
+      `Main@${mainUri}`,
+      `Twice@${mainUri}`,
+      `other.pb@${otherUri}`,
+    ]);
+    expect(calls.find(call => call.from.name === 'Twice')!.fromRanges).toEqual([
+      { start: { line: 13, character: 24 }, end: { line: 13, character: 27 } },
+    ]);
+  });
+
+  test('lists the main code of a file as caller', () => {
+    const [mainProc] = prepare(9, 11)!;
+    const calls = handleIncomingCalls({ item: mainProc }, documents);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].from).toMatchObject({ name: 'main.pb', uri: mainUri });
+  });
+
+  test('lists outgoing calls resolved through modules and Declare', () => {
+    const [mainProc] = prepare(9, 11)!;
+    const calls = handleOutgoingCalls({ item: mainProc }, documents);
+    expect(calls.map(call => [call.to.detail ?? call.to.name, lineOf(call.to)])).toEqual([
+      ['Math::Add', 4],
+      ['Twice', 12],
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { CodeAction, CodeActionKind, DiagnosticSeverity, TextEdit } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { handleCodeAction } from '../src/server/providers/code-action-provider';
+
+const uri = 'file:///test.pb';
+
+/**
+ * Code actions for the cursor at the last occurrence of `cursorAt`, with a
+ * diagnostic of `length` characters there when `message` is given.
+ */
+const codeActions = (text: string, cursorAt: string, message?: string, length = 0): CodeAction[] => {
+  const document = TextDocument.create(uri, 'purebasic', 1, text);
+  const position = document.positionAt(text.lastIndexOf(cursorAt));
+  const end = document.positionAt(text.lastIndexOf(cursorAt) + length);
+  const diagnostics = message
+    ? [{ range: { start: position, end }, message, severity: DiagnosticSeverity.Error, source: 'purebasic' }]
+    : [];
+  return handleCodeAction({ textDocument: { uri }, range: { start: position, end: position }, context: { diagnostics } }, document);
+};
+
+const editsOf = (action: CodeAction | undefined): TextEdit[] => action?.edit?.changes?.[uri] ?? [];
+
+describe('quick fixes', () => {
+  test('declares a main code variable before the statement it is used in', () => {
+    const text = 'EnableExplicit\nTotal = 1 +\n  Count\n';
+    const actions = codeActions(text, 'Count', 'Variable not declared: Count', 'Count'.length);
+    const declare = actions.find(action => action.title === "Declare 'Count' with Define");
+    expect(declare?.kind).toBe(CodeActionKind.QuickFix);
+    expect(declare?.diagnostics?.[0].message).toBe('Variable not declared: Count');
+    expect(editsOf(declare)).toEqual([TextEdit.insert({ line: 1, character: 0 }, 'Define Count\n')]);
+  });
+
+  test('declares a procedure variable with Protected and its type after the header', () => {
+    const text = 'EnableExplicit\nProcedure Foo()\n  Value.d = 2\nEndProcedure\n';
+    const actions = codeActions(text, 'Value', 'Variable not declared: Value', 'Value'.length);
+    const declare = actions.find(action => action.title === "Declare 'Value' with Protected");
+    expect(editsOf(declare)).toEqual([TextEdit.insert({ line: 1, character: 15 }, '\n  Protected Value.d')]);
+  });
+
+  test('offers no declaration without an undeclared variable diagnostic', () => {
+    const actions = codeActions('Count = 1\n', 'Count');
+    expect(actions.some(action => action.title.startsWith('Declare'))).toBe(false);
+  });
+
+  test('inserts the missing closing keyword of an unclosed block', () => {
+    const actions = codeActions('If a\n  b = 1\n', 'If', 'Unclosed If. Missing EndIf.');
+    const insert = actions.find(action => action.title === "Insert 'EndIf'");
+    expect(insert?.isPreferred).toBe(true);
+    expect(editsOf(insert)).toEqual([TextEdit.insert({ line: 1, character: 7 }, '\nEndIf')]);
+  });
+});
@@ -0,0 +1,72 @@
+import { CompletionItem } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { handleCompletion } from '../src/server/providers/completion-provider';
+
+const uri = 'file:///test.pb';
+
+/** Completion items at the `|` marker. */
+const complete = (lines: string[]): CompletionItem[] => {
+  const marked = lines.join('\n');
+  const text = marked.replace('|', '');
+  const document = TextDocument.create(uri, 'purebasic', 1, text);
+  const position = document.positionAt(marked.indexOf('|'));
+  return handleCompletion({ textDocument: { uri }, position }, document, new Map([[uri, document]])).items;
+};
+
+const labels = (items: CompletionItem[]) => items.map(item => item.label);
+
+const point = [
+  'Structure Point',
+  '  x.i',
+  '  *link.Point',
+  'EndStructure',
+];
+
+describe('completion', () => {
+  test('reads procedure headers continued over several lines', () => {
+    const items = complete([
+      'Procedure.i Add(a, _',
+      '                b.i)',
+      'EndProcedure',
+      'Ad|',
+    ]);
+    expect(items.find(item => item.label === 'Add')).toMatchObject({
+      detail: 'Procedure .i Add(a, b.i)',
+      insertText: 'Add(',
+    });
+  });
+
+  test('finds declarations after a colon and ignores keywords in strings', () => {
+    const items = complete([
+      'a = 1 : Procedure Real()',
+      'EndProcedure',
+      'Debug "Procedure Fake()"',
+      'Re|',
+    ]);
+    expect(labels(items)).toContain('Real');
+    expect(labels(complete(['Debug "Procedure Fake()"', 'Fa|']))).not.toContain('Fake');
+  });
+
+  test('offers no completions inside strings and comments', () => {
+    expect(complete(['Debug "Po|"'])).toEqual([]);
+    expect(complete(['Debug 1 ; Po|'])).toEqual([]);
+    expect(labels(complete(['Debug "a" + Po|']))).toContain('PokeS');
+  });
+
+  test('completes structure members after a colon and through member chains', () => {
+    expect(labels(complete([...point, 'Define p.Point', 'a = 1 : p\\|']))).toEqual(['x', 'link']);
+    expect(labels(complete([...point, 'Define p.Point', 'Debug p\\link\\l|']))).toEqual(['link']);
+    expect(labels(complete([...point, 'Define p.Point', 'Debug Str(1) + _', '  p\\|']))).toEqual(['x', 'link']);
+  });
+
+  test('completes members inside a With block', () => {
+    const items = complete([...point, 'Define p.Point', 'With p', '  \\|', 'EndWith']);
+    expect(labels(items)).toEqual(['x', 'link']);
+  });
+
+  test('completes types after a dot and constants after a hash', () => {
+    expect(labels(complete(['Define value.|']))).toEqual(expect.arrayContaining(['i', 'Integer']));
+    expect(labels(complete(['Enumeration', '  #First', 'EndEnumeration', 'Debug #Fi|']))).toEqual(['#First']);
+  });
+});
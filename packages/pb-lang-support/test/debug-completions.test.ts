@@ -0,0 +1,38 @@
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { PBDebugSession } from '../src/debug/session/PBDebugSession';
+
+describe('Debug Console completions', () => {
+  let session: PBDebugSession;
+  let messages: DebugProtocol.ProtocolMessage[];
+  let seq = 1;
+
+  const complete = async (text: string, column = text.length + 1): Promise<DebugProtocol.CompletionsResponse> => {
+    const requestSeq = seq++;
+    session.handleMessage({ seq: requestSeq, type: 'request', command: 'completions', arguments: { text, column } } as DebugProtocol.Request);
+    for (let i = 0; i < 100; i++) {
+      const found = messages.find(msg => msg.type === 'response' && (msg as DebugProtocol.Response).request_seq === requestSeq);
+      if (found) return found as DebugProtocol.CompletionsResponse;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Timed out waiting for completions response');
+  };
+
+  beforeEach(() => {
+    session = new PBDebugSession();
+    messages = [];
+    session.onDidSendMessage(msg => messages.push(msg as DebugProtocol.ProtocolMessage));
+  });
+
+  test('offers built-in functions for the word before the cursor', async () => {
+    const response = await complete('x = openwin');
+    const target = response.body.targets.find(t => t.label === 'OpenWindow');
+    expect(target).toMatchObject({ type: 'function', start: 5, length: 7 });
+    expect(response.body.targets.every(t => t.label.toLowerCase().startsWith('openwin'))).toBe(true);
+  });
+
+  test('offers nothing without a stopped program after a structure separator', async () => {
+    const response = await complete('MyStruct\\fi');
+    expect(response.body.targets).toEqual([]);
+  });
+});
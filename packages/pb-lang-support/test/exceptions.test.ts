@@ -0,0 +1,149 @@
+import { EventEmitter } from 'events';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient, FakeDebuggee, waitUntil } from './fake-debuggee';
+
+const mockPrograms: FakeDebuggee[] = [];
+const mockCallOnEnd: boolean[] = [];
+
+// Compiling and starting the program is replaced by a FakeDebuggee connecting
+jest.mock('../src/debug/compiler/CompilerLauncher', () => ({
+  CompilerLauncher: class {
+    static async findCompiler(): Promise<string> {
+      return 'pbcompiler';
+    }
+
+    generatePipeId(): string {
+      return 'test';
+    }
+
+    async compile(): Promise<{ executablePath: string }> {
+      return { executablePath: '/tmp/main' };
+    }
+
+    launch(_executablePath: string, communication: string, _stopOnEntry: boolean, callOnEnd: boolean): EventEmitter {
+      mockCallOnEnd.push(callOnEnd);
+      const program = new FakeDebuggee(Number(/:(\d+)/.exec(communication)![1]));
+      mockPrograms.push(program);
+      void program.start();
+      return Object.assign(new EventEmitter(), { kill: () => undefined });
+    }
+  },
+}));
+
+/** Runtime error on line 3 of the main file. */
+function runtimeError(text: string): { command: number; value1: number; data: Buffer } {
+  return { command: 8, value1: 2, data: Buffer.from(text + '\0', 'utf16le') };
+}
+
+describe('exceptions', () => {
+  let client: DebugClient;
+
+  beforeEach(() => {
+    mockPrograms.length = 0;
+    mockCallOnEnd.length = 0;
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    mockPrograms.forEach(program => program.close());
+    client.close();
+  });
+
+  const launch = async (filters?: string[]) => {
+    client.request('launch', { program: '/tmp/main.pb', transport: 'network', debugPort: 0 });
+    await client.waitForResponse('launch');
+    if (filters) client.request('setExceptionBreakpoints', { filters });
+    client.request('configurationDone');
+    const program = await waitUntil(() => mockPrograms[0]);
+    await program.waitForCommand(2);                       // Run
+    return program;
+  };
+
+  test('asks the program to stop before it ends while the filter is enabled', async () => {
+    await launch();
+    expect(mockCallOnEnd).toEqual([true]);
+  });
+
+  test('lets the program end without stopping when the filter is disabled', async () => {
+    await launch(['runtimeErrors', 'callDebugger', 'purifier']);
+    expect(mockCallOnEnd).toEqual([false]);
+  });
+
+  test('reports the first CallDebugger stop of a launched program as the entry stop', async () => {
+    const program = await launch();
+
+    program.send({ command: 3, value1: 0, value2: 3 });    // Stopped: CallDebuggerOnStart
+    expect((await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped')).body.reason).toBe('entry');
+
+    client.messages.length = 0;
+    program.send({ command: 3, value1: 4, value2: 3 });    // Stopped: CallDebugger
+    expect((await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped')).body.reason).toBe('exception');
+  });
+
+  test('stops on a runtime error and describes it', async () => {
+    const debuggee = await client.attachStopped({ program: '/tmp/main.pb' });
+
+    debuggee.send(runtimeError('Array index out of bounds'));
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body).toMatchObject({ reason: 'exception', text: 'Array index out of bounds' });
+
+    client.request('exceptionInfo', { threadId: 1 });
+    const info = await client.waitForResponse<DebugProtocol.ExceptionInfoResponse>('exceptionInfo');
+    expect(info.body).toMatchObject({
+      exceptionId: 'RuntimeError',
+      description: 'Array index out of bounds',
+      breakMode: 'always',
+      details: { stackTrace: expect.stringMatching(/main\.pb:3$/) },
+    });
+  });
+
+  test('reports purifier findings under their own filter', async () => {
+    const debuggee = await client.attachStopped();
+    client.request('setExceptionBreakpoints', { filters: ['purifier'] });
+
+    debuggee.send(runtimeError('The memory block has been overwritten'));
+    await client.waitForEvent('stopped');
+    client.request('exceptionInfo', { threadId: 1 });
+    const info = await client.waitForResponse<DebugProtocol.ExceptionInfoResponse>('exceptionInfo');
+    expect(info.body.exceptionId).toBe('PurifierError');
+  });
+
+  test('resumes after a runtime error when the filter is disabled', async () => {
+    const debuggee = await client.attachStopped();
+    client.request('setExceptionBreakpoints', { filters: ['purifier'] });
+
+    debuggee.send(runtimeError('Division by zero'));
+    await debuggee.waitForCommand(2);                      // Run
+    expect(client.messages.some(msg => (msg as DebugProtocol.Event).event === 'stopped')).toBe(false);
+  });
+
+  test('stops on CallDebugger only while its filter is enabled', async () => {
+    const debuggee = await client.attachStopped();
+
+    debuggee.send({ command: 3, value1: 4, value2: 3 });  // Stopped: CallDebugger
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body).toMatchObject({ reason: 'exception', text: 'CallDebugger' });
+
+    client.messages.length = 0;
+    client.request('setExceptionBreakpoints', { filters: [] });
+    debuggee.send({ command: 3, value1: 4, value2: 3 });
+    await debuggee.waitForCommand(2);
+    expect(client.messages.some(msg => (msg as DebugProtocol.Event).event === 'stopped')).toBe(false);
+  });
+
+  test('has no exception info for an ordinary stop', async () => {
+    const debuggee = await client.attachStopped();
+    client.request('continue', { threadId: 1 });
+    await debuggee.waitForCommand(2);
+    client.messages.length = 0;
+
+    debuggee.send({ command: 3, value1: 4, value2: 8 });  // Stopped: user stop
+    await client.waitForEvent('stopped');
+    client.request('exceptionInfo', { threadId: 1 });
+    expect(await client.waitForResponse('exceptionInfo')).toMatchObject({
+      success: false,
+      message: 'No exception at the current stop',
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import * as net from 'net';
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { PBDebugSession } from '../src/debug/session/PBDebugSession';
+import { deserialize, serialize, HEADER_SIZE } from '../src/debug/protocol/CommandInfo';
+import { CommandInfo } from '../src/debug/types/debugTypes';
+
+const realPath = jest.requireActual('path');
+
+/**
+ * Stands in for a PureBasic program compiled with `--debugger` and started
+ * with `PB_DEBUGGER_Communication=NetworkClient;host:port`.
+ */
+export class FakeDebuggee {
+  readonly received: CommandInfo[] = [];
+  private readonly socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private waiters: Array<() => void> = [];
+  private handshakeDone = false;
+
+  constructor(port: number) {
+    this.socket = net.connect(port, '127.0.0.1');
+    this.socket.write('CONNECT 12 DEBUGGER\n\n');
+    this.socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    this.socket.on('error', () => undefined);
+  }
+
+  /**
+   * Completes the handshake and sends Init and ExeMode, like a starting program.
+   * `files` is the Init file list: working directory, main file, included files.
+   */
+  async start(files: string[] = []): Promise<void> {
+    while (!this.handshakeDone) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    const data = files.length > 0 ? Buffer.from(files.map(file => `${file}\0`).join(''), 'utf8') : undefined;
+    this.send({ command: 0, value1: files.length, value2: 12, data });  // Init
+    this.send({ command: 2, value1: 1 | 4 });           // ExeMode: unicode, 64-bit
+  }
+
+  send(info: { command: number; value1?: number; value2?: number; data?: Buffer }): void {
+    this.socket.write(serialize(info));
+  }
+
+  async waitForCommand(command: number): Promise<CommandInfo> {
+    for (;;) {
+      const found = this.received.find(msg => msg.command === command);
+      if (found) return found;
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    // Text handshake reply: "<version>\n"
+    if (!this.handshakeDone) {
+      const end = this.buffer.indexOf('\n');
+      if (end === -1) return;
+      this.buffer = this.buffer.subarray(end + 1);
+      this.handshakeDone = true;
+    }
+    while (this.buffer.length >= HEADER_SIZE) {
+      const size = HEADER_SIZE + this.buffer.readUInt32LE(4);
+      if (this.buffer.length < size) break;
+      this.received.push(deserialize(this.buffer.subarray(0, size)));
+      this.buffer = this.buffer.subarray(size);
+    }
+    this.waiters.splice(0).forEach(resolve => resolve());
+  }
+}
+
+/** Port a program is told to connect to in the "Waiting for a PureBasic program" output. */
+export function debuggeePort(output: DebugProtocol.OutputEvent): number {
+  return Number(/:(\d+)\)/.exec(output.body.output)![1]);
+}
+
+/** Poll `check` until it returns a value. */
+export async function waitUntil<T>(check: () => T | undefined, what = 'condition'): Promise<T> {
+  for (let i = 0; i < 200; i++) {
+    const found = check();
+    if (found) return found;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Timed out waiting for ${what}`);
+}
+
+/**
+ * Drives a PBDebugSession with DAP requests and records what it sends back.
+ */
+export class DebugClient {
+  readonly session = new PBDebugSession();
+  readonly messages: DebugProtocol.ProtocolMessage[] = [];
+  debuggee: FakeDebuggee | undefined;
+  private seq = 1;
+
+  constructor() {
+    // test/setup.ts mocks path; the session maps real source paths
+    (path.resolve as jest.Mock).mockImplementation(realPath.resolve);
+    this.session.onDidSendMessage(msg => this.messages.push(msg as DebugProtocol.ProtocolMessage));
+  }
+
+  request(command: string, args: object = {}): void {
+    this.session.handleMessage({ seq: this.seq++, type: 'request', command, arguments: args } as DebugProtocol.Request);
+  }
+
+  async waitFor(predicate: (msg: DebugProtocol.ProtocolMessage) => boolean): Promise<DebugProtocol.ProtocolMessage> {
+    return waitUntil(() => this.messages.find(predicate), 'debug adapter message');
+  }
+
+  async waitForEvent<T extends DebugProtocol.Event = DebugProtocol.Event>(event: string): Promise<T> {
+    return await this.waitFor(msg => msg.type === 'event' && (msg as DebugProtocol.Event).event === event) as T;
+  }
+
+  async waitForResponse<T extends DebugProtocol.Response = DebugProtocol.Response>(command: string): Promise<T> {
+    return await this.waitFor(msg => msg.type === 'response' && (msg as DebugProtocol.Response).command === command) as T;
+  }
+
+  /**
+   * Attach, let a FakeDebuggee connect and wait until it stops on a CallDebugger.
+   * Messages and commands received so far are cleared.
+   */
+  async attachStopped(args: object = {}, files: string[] = []): Promise<FakeDebuggee> {
+    this.request('attach', { debugPort: 0, ...args });
+    const output = await this.waitForEvent<DebugProtocol.OutputEvent>('output');
+    this.request('configurationDone');
+
+    const program = new FakeDebuggee(debuggeePort(output));
+    this.debuggee = program;
+    await program.start(files);
+    await program.waitForCommand(2);                       // Run
+    program.send({ command: 3, value1: 0, value2: 3 });    // Stopped: CallDebugger
+    await this.waitForEvent('stopped');
+
+    this.messages.length = 0;
+    program.received.length = 0;
+    return program;
+  }
+
+  close(): void {
+    this.debuggee?.close();
+    this.debuggee = undefined;
+    this.request('disconnect', { terminateDebuggee: true });
+  }
+}
@@ -0,0 +1,29 @@
+import { FoldingRangeKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { handleFoldingRanges } from '../src/server/providers/folding-range-provider';
+
+const foldingRanges = (text: string) =>
+  handleFoldingRanges({ textDocument: { uri: 'file:///test.pb' } }, TextDocument.create('file:///test.pb', 'purebasic', 1, text));
+
+describe('folding ranges', () => {
+  test('folds a comment block at the start of the file', () => {
+    const ranges = foldingRanges('; Header\n; more header\n\nx = 1\n');
+    expect(ranges).toEqual([{ startLine: 0, endLine: 1, kind: FoldingRangeKind.Comment }]);
+  });
+
+  test('folds blocks up to the line before the closing keyword', () => {
+    const ranges = foldingRanges('Procedure Foo()\n  x = 1\n  y = 2\nEndProcedure\n');
+    expect(ranges).toEqual([{ startLine: 0, endLine: 2 }]);
+  });
+
+  test('does not fold trailing comments or single comment lines', () => {
+    const ranges = foldingRanges('x = 1 ; one\ny = 2 ; two\n; alone\nz = 3\n');
+    expect(ranges).toEqual([]);
+  });
+
+  test('folds IDE fold markers as regions', () => {
+    const ranges = foldingRanges(';{ Setup\nx = 1\n;}\n');
+    expect(ranges).toEqual([{ startLine: 0, endLine: 2, kind: FoldingRangeKind.Region }]);
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { makeDebuggerLine } from '../src/debug/protocol/commands';
+import { DebugClient, FakeDebuggee, waitUntil } from './fake-debuggee';
+
+const realPath = jest.requireActual('path') as typeof path;
+
+const workspace = realPath.resolve('/tmp/functions');
+const program = realPath.join(workspace, 'main.pb');
+const include = realPath.join(workspace, 'shapes.pbi');
+/** Init file list of the program: working directory, main file, included files. */
+const initFiles = [workspace, 'main.pb', 'shapes.pbi'];
+
+/** Source files by path; test/setup.ts mocks fs, so nothing touches the disk. */
+const files = new Map<string, string>([
+  [program, [
+    'XIncludeFile "shapes.pbi"',
+    'Procedure Start()',
+    '  Protected count',
+    '  ; count the shapes',
+    '',
+    '  count = Shapes::Count()',
+    'EndProcedure',
+    'Start()',
+  ].join('\n')],
+  [include, [
+    'Module Shapes',
+    '  Procedure Count()',
+    '    Define total = 2',
+    '    ProcedureReturn total',
+    '  EndProcedure',
+    'EndModule',
+  ].join('\n')],
+]);
+
+describe('function breakpoints', () => {
+  let client: DebugClient;
+
+  beforeEach(() => {
+    (fs.readFileSync as jest.Mock).mockImplementation((fsPath: string) => {
+      const content = files.get(fsPath);
+      if (content === undefined) throw new Error(`ENOENT: ${fsPath}`);
+      return content;
+    });
+    for (const name of ['dirname', 'basename', 'isAbsolute'] as const) {
+      (path[name] as jest.Mock).mockImplementation(realPath[name]);
+    }
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  /** Set function breakpoints and return the breakpoints of the response. */
+  const setFunctionBreakpoints = async (...names: string[]) => {
+    client.request('setFunctionBreakpoints', { breakpoints: names.map(name => ({ name })) });
+    const response = await client.waitForResponse<DebugProtocol.SetFunctionBreakpointsResponse>('setFunctionBreakpoints');
+    return response.body.breakpoints;
+  };
+
+  /** The Clear and Add breakpoint commands (action, packed line) the debuggee received. */
+  const breakpointCommands = (debuggee: FakeDebuggee) => waitUntil(() => {
+    const commands = debuggee.received.filter(msg => msg.command === 3).map(msg => [msg.value1, msg.value2]);
+    return commands.length >= 2 ? commands : undefined;
+  }, 'breakpoint commands');
+
+  test('breaks on the first executable line of a procedure', async () => {
+    const debuggee = await client.attachStopped({ program }, initFiles);
+
+    const [breakpoint] = await setFunctionBreakpoints('Start');
+    // Skips the declaration, the comment and the blank line
+    expect(breakpoint).toMatchObject({ verified: true, line: 6, source: { path: program } });
+    expect(await breakpointCommands(debuggee)).toEqual([[3, makeDebuggerLine(0, 0)], [1, makeDebuggerLine(0, 5)]]);
+
+    client.request('continue', { threadId: 1 });
+    await debuggee.waitForCommand(2);
+    client.messages.length = 0;
+    debuggee.send({ command: 3, value1: makeDebuggerLine(0, 5), value2: 7 });  // Stopped: breakpoint
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body.reason).toBe('function breakpoint');
+  });
+
+  test('finds Module::Proc in an included file', async () => {
+    const debuggee = await client.attachStopped({ program }, initFiles);
+
+    // A declaration with an assignment produces code
+    const [breakpoint] = await setFunctionBreakpoints('Shapes::Count()');
+    expect(breakpoint).toMatchObject({ verified: true, line: 3, source: { path: include } });
+    expect(await breakpointCommands(debuggee)).toEqual([[3, makeDebuggerLine(1, 0)], [1, makeDebuggerLine(1, 2)]]);
+  });
+
+  test('reports procedures that are not found', async () => {
+    await client.attachStopped({ program }, initFiles);
+
+    const breakpoints = await setFunctionBreakpoints('Missing', 'Other::Count');
+    expect(breakpoints).toMatchObject([
+      { verified: false, message: 'Procedure Missing not found' },
+      { verified: false, message: 'Procedure Other::Count not found' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { InlayHintsSettings } from '../src/server/config/settings';
+import { handleInlayHints } from '../src/server/providers/inlay-hint-provider';
+import { ApiFunctionListing } from '../src/shared/api-function-listing';
+
+const realFs = jest.requireActual('fs');
+
+const uri = 'file:///test.pb';
+const allHints: InlayHintsSettings = { parameterNames: true, variableTypes: true };
+
+/** Hints as `line:character label`, in the order they are returned. */
+const hintsOf = (lines: string[], settings = allHints, apiFunctionListing?: ApiFunctionListing): string[] => {
+  const document = TextDocument.create(uri, 'purebasic', 1, lines.join('\n'));
+  const range = { start: { line: 0, character: 0 }, end: document.positionAt(document.getText().length) };
+  return handleInlayHints({ textDocument: { uri }, range }, document, new Map([[uri, document]]), settings, undefined, apiFunctionListing)
+    .map(hint => `${hint.position.line}:${hint.position.character} ${hint.label}`);
+};
+
+describe('inlay hints', () => {
+  test('names the parameters of built-in functions', () => {
+    // `Length` already names its parameter
+    expect(hintsOf(['Debug Mid("abc", 2, Length)'])).toEqual(['0:10 String$:', '0:17 StartPosition:']);
+  });
+
+  test('names the parameters of user procedures', () => {
+    const lines = [
+      'DeclareModule Geo',
+      '  Declare Area(Width, *Height)',
+      'EndDeclareModule',
+      'Declare Scale(f)',
+      'Debug Geo::Area(1, 2) + Scale(3)',
+      'Procedure Scale(Factor)',
+      'EndProcedure',
+      'UseModule Geo',
+      'Debug Area(4, 5)',
+    ];
+    expect(hintsOf(lines, { parameterNames: true, variableTypes: false })).toEqual([
+      '4:16 Width:',
+      '4:19 *Height:',
+      '4:30 Factor:',
+      '8:11 Width:',
+      '8:14 *Height:',
+    ]);
+  });
+
+  test('names the parameters of OS API functions from APIFunctionListing.txt', () => {
+    const dir = realFs.mkdtempSync(path.join(os.tmpdir(), 'pb-inlay-hints-'));
+    try {
+      const listingPath = path.join(dir, 'APIFunctionListing.txt');
+      realFs.writeFileSync(listingPath, '1\nMessageBox (HWND hWnd, LPCTSTR lpText, LPCTSTR lpCaption, UINT uType)\n');
+      (fs.readFileSync as jest.Mock).mockImplementation(realFs.readFileSync);
+      const listing = new ApiFunctionListing();
+      expect(listing.load(listingPath).loaded).toBe(true);
+
+      expect(hintsOf(['MessageBox_(0, "Hi", "Title", 0)'], allHints, listing)).toEqual([
+        '0:12 hWnd:',
+        '0:15 lpText:',
+        '0:21 lpCaption:',
+        '0:30 uType:',
+      ]);
+      expect(hintsOf(['MessageBox_(0, "Hi", "Title", 0)'])).toEqual([]);
+    } finally {
+      realFs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('shows the implicit type of untyped variables', () => {
+    const lines = [
+      'Define count, typed.l, label$, *ptr',
+      'Define.s',
+      'Define title',
+      'Global.d ratio',
+      'Procedure Foo()',
+      '  Protected local',
+      'EndProcedure',
+    ];
+    expect(hintsOf(lines, { parameterNames: false, variableTypes: true })).toEqual([
+      '0:12 .i',
+      '2:12 .s',
+      '3:14 .d',
+      '5:17 .s',
+    ]);
+  });
+
+  test('follows the settings switches', () => {
+    const lines = ['Define count', 'Debug Left("abc", count)'];
+    expect(hintsOf(lines)).toEqual(['0:12 .i', '1:11 String$:', '1:18 Length:']);
+    expect(hintsOf(lines, { parameterNames: true, variableTypes: false })).toEqual(['1:11 String$:', '1:18 Length:']);
+    expect(hintsOf(lines, { parameterNames: false, variableTypes: true })).toEqual(['0:12 .i']);
+    expect(hintsOf(lines, { parameterNames: false, variableTypes: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient } from './fake-debuggee';
+
+const realPath = jest.requireActual('path') as typeof path;
+
+describe('loaded sources', () => {
+  const workspace = realPath.resolve('/tmp/loaded');
+  const program = realPath.join(workspace, 'main.pb');
+  const library = realPath.resolve('/opt/purebasic/lib/strings.pbi');
+  let client: DebugClient;
+
+  beforeEach(() => {
+    for (const name of ['dirname', 'basename', 'isAbsolute'] as const) {
+      (path[name] as jest.Mock).mockImplementation(realPath[name]);
+    }
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  const loadedSources = async () => {
+    client.request('loadedSources');
+    const response = await client.waitForResponse<DebugProtocol.LoadedSourcesResponse>('loadedSources');
+    return response.body.sources.map(source => [source.name, source.path]);
+  };
+
+  test('lists the main file before the program starts', async () => {
+    client.request('attach', { debugPort: 0, program });
+    await client.waitForEvent('output');
+
+    expect(await loadedSources()).toEqual([['main.pb', program]]);
+  });
+
+  test('lists the main file and every included file once, inside the workspace or not', async () => {
+    await client.attachStopped({ program }, [
+      workspace,
+      'main.pb',
+      'include/window.pbi',
+      library,
+      'include/../include/window.pbi',
+    ]);
+
+    expect(await loadedSources()).toEqual([
+      ['main.pb', program],
+      ['window.pbi', realPath.join(workspace, 'include', 'window.pbi')],
+      ['strings.pbi', library],
+    ]);
+  });
+});
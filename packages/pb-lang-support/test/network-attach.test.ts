@@ -0,0 +1,54 @@
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient, FakeDebuggee, debuggeePort } from './fake-debuggee';
+
+describe('debugger attach', () => {
+  let client: DebugClient;
+
+  beforeEach(() => {
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  test('waits for the program to connect and runs it', async () => {
+    client.request('attach', { debugPort: 0 });
+    const output = await client.waitForEvent<DebugProtocol.OutputEvent>('output');
+    expect(output.body.output).toMatch(/NetworkClient;127\.0\.0\.1:\d+/);
+    expect(await client.waitForResponse('attach')).toMatchObject({ success: true });
+
+    client.request('configurationDone');
+    const program = new FakeDebuggee(debuggeePort(output));
+    client.debuggee = program;
+    await program.start();
+
+    await program.waitForCommand(2);                       // Run
+    // The adapter did not set CallDebuggerOnStart: the first stop is a CallDebugger statement
+    program.send({ command: 3, value1: 0, value2: 3 });    // Stopped: CallDebugger
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body).toMatchObject({ reason: 'exception', text: 'CallDebugger' });
+    expect(program.received.filter(msg => msg.command === 2)).toHaveLength(1);
+  });
+
+  test('detaching leaves the program running', async () => {
+    const program = await client.attachStopped();
+
+    client.request('disconnect', {});
+    await program.waitForCommand(2);                       // resumed, not killed
+    expect(program.received.map(msg => msg.command)).not.toContain(37);
+  });
+
+  test('fails when no program connects in time', async () => {
+    client.request('attach', { debugPort: 0, timeout: 100 });
+    await client.waitForResponse('attach');
+    client.request('configurationDone');
+
+    const error = await client.waitFor(msg => msg.type === 'event'
+      && (msg as DebugProtocol.OutputEvent).event === 'output'
+      && (msg as DebugProtocol.OutputEvent).body.category === 'stderr') as DebugProtocol.OutputEvent;
+    expect(error.body.output).toMatch(/Timed out/);
+    await client.waitForEvent('terminated');
+  });
+});
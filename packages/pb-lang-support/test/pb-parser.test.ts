@@ -0,0 +1,69 @@
+import { parseSyntaxTree } from '../src/server/parsers/pb-parser';
+import { TokenKind, tokenize } from '../src/server/parsers/pb-lexer';
+
+describe('pb-lexer', () => {
+  test('keywords inside strings and comments are not tokens', () => {
+    const { tokens, comments } = tokenize('x$ = "EndIf ; no comment" ; EndProcedure');
+    expect(tokens.filter(t => t.kind === TokenKind.Keyword)).toHaveLength(0);
+    expect(tokens[0].text).toBe('x$');
+    expect(comments).toHaveLength(1);
+  });
+
+  test('continued lines do not produce statement separators', () => {
+    const { tokens } = tokenize('a = 1 +\n  2 _\n  + 3\nb = 4');
+    expect(tokens.filter(t => t.kind === TokenKind.Newline)).toHaveLength(1);
+  });
+});
+
+describe('pb-parser', () => {
+  test('parses colon separated statements', () => {
+    const tree = parseSyntaxTree('If a : b = 1 : Else : b = 2 : EndIf');
+    expect(tree.body).toHaveLength(1);
+    const stmt = tree.body[0];
+    expect(stmt.kind).toBe('If');
+    if (stmt.kind === 'If') {
+      expect(stmt.branches.map(b => b.keyword)).toEqual(['If', 'Else']);
+      expect(stmt.branches[0].body[0].kind).toBe('Assignment');
+      expect(stmt.end?.keyword).toBe('EndIf');
+    }
+  });
+
+  test('parses procedure headers across continuation lines', () => {
+    const tree = parseSyntaxTree('Procedure.i Add(a.i,\n               *b.Point = 0)\n  ProcedureReturn a\nEndProcedure');
+    const proc = tree.body[0];
+    expect(proc.kind).toBe('Procedure');
+    if (proc.kind === 'Procedure') {
+      expect(proc.name?.name).toBe('Add');
+      expect(proc.returnType?.name).toBe('i');
+      expect(proc.parameters.map(p => p.name?.name)).toEqual(['a', 'b']);
+      expect(proc.parameters[1].pointer).toBe(true);
+      expect(proc.body[0].kind).toBe('ProcedureReturn');
+      expect(proc.end).toBeDefined();
+    }
+  });
+
+  test('reports unclosed and unmatched blocks structurally', () => {
+    const tree = parseSyntaxTree('Procedure A()\n  While x\nEndProcedure\nWend');
+    const proc = tree.body[0];
+    expect(proc.kind).toBe('Procedure');
+    if (proc.kind === 'Procedure') {
+      expect(proc.end).toBeDefined();
+      const loop = proc.body[0];
+      expect(loop.kind === 'While' && loop.end).toBeUndefined();
+    }
+    expect(tree.body[1]).toMatchObject({ kind: 'UnmatchedEnd', keyword: 'Wend' });
+  });
+
+  test('parses module qualified declarations and structure fields', () => {
+    const tree = parseSyntaxTree(
+      'Structure Node Extends Base::Item\n  *link.Node\n  List children.s()\n  name.s{32}\nEndStructure'
+    );
+    const struct = tree.body[0];
+    expect(struct.kind).toBe('Structure');
+    if (struct.kind === 'Structure') {
+      expect(struct.extends).toMatchObject({ module: 'Base', name: 'Item' });
+      const names = struct.body.flatMap(s => (s.kind === 'Field' ? s.declarators.map(d => d.name.name) : []));
+      expect(names).toEqual(['link', 'children', 'name']);
+    }
+  });
+});
@@ -0,0 +1,81 @@
+import * as os from 'os';
+import * as path from 'path';
+
+import { parsePbCompilerCheckOutput, runPbCompilerCheck } from '../src/host/pbcompiler/pbcompiler-check';
+
+const realFs = jest.requireActual('fs');
+const realPath = jest.requireActual('path');
+
+beforeEach(() => {
+  // test/setup.ts mocks path; the check resolves real file paths
+  (path.isAbsolute as jest.Mock).mockImplementation(realPath.isAbsolute);
+  (path.resolve as jest.Mock).mockImplementation(realPath.resolve);
+});
+
+/** Writes an executable script that prints `output` like pbcompiler and exits with `exitCode`. */
+function writeFakeCompiler(dir: string, output: string, exitCode: number, delayMs = 0): string {
+  const script = realPath.join(dir, 'fake-pbcompiler.js');
+  realFs.writeFileSync(script, [
+    `#!${process.execPath}`,
+    `setTimeout(() => { process.stdout.write(${JSON.stringify(output)}); process.exit(${exitCode}); }, ${delayMs});`,
+  ].join('\n'));
+  realFs.chmodSync(script, 0o755);
+  return script;
+}
+
+describe('pbcompiler --check', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = realFs.mkdtempSync(realPath.join(os.tmpdir(), 'pb-check-'));
+  });
+
+  afterEach(() => {
+    realFs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('parses errors of the main file and of included files', () => {
+    const main = realPath.join(dir, 'main.pb');
+    const output = [
+      'PureBasic 6.10 LTS (Linux - x64)',
+      'Starting compilation...',
+      'Error: Line 12 - Syntax error.',
+      '',
+      'Error: Line 3 - Procedure not found: Foo().',
+      'Error in included file: "inc/helpers.pbi"',
+      '',
+      'Warning: Line 7 in file \'other.pbi\' - Variable already declared.',
+    ].join('\n');
+
+    expect(parsePbCompilerCheckOutput(output, main, dir)).toEqual([
+      { file: main, line: 12, message: 'Syntax error.', severity: 'error' },
+      { file: realPath.join(dir, 'inc/helpers.pbi'), line: 3, message: 'Procedure not found: Foo().', severity: 'error' },
+      { file: realPath.join(dir, 'other.pbi'), line: 7, message: 'Variable already declared.', severity: 'warning' },
+    ]);
+  });
+
+  test('runs the compiler and collects its problems', async () => {
+    if (process.platform === 'win32') return;
+    const main = realPath.join(dir, 'main.pb');
+    const compiler = writeFakeCompiler(dir, 'Line 5: Garbage at the end of the line.\n', 1);
+
+    const result = await runPbCompilerCheck({ compiler, args: [main, '--check'], cwd: dir, inputFile: main });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.problems).toEqual([
+      { file: main, line: 5, message: 'Garbage at the end of the line.', severity: 'error' },
+    ]);
+  });
+
+  test('cancels an in-flight run', async () => {
+    if (process.platform === 'win32') return;
+    const main = realPath.join(dir, 'main.pb');
+    const compiler = writeFakeCompiler(dir, 'Line 1: Syntax error.\n', 1, 5000);
+    const controller = new AbortController();
+
+    const run = runPbCompilerCheck({ compiler, args: [main, '--check'], cwd: dir, inputFile: main, signal: controller.signal });
+    controller.abort();
+
+    await expect(run).rejects.toThrow('cancelled');
+  });
+});
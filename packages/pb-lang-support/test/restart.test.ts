@@ -0,0 +1,77 @@
+import { EventEmitter } from 'events';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient, FakeDebuggee, waitUntil } from './fake-debuggee';
+
+const mockCompiles: string[] = [];
+const mockPrograms: FakeDebuggee[] = [];
+const mockKilled: FakeDebuggee[] = [];
+
+// Compiling and starting the program is replaced by a FakeDebuggee connecting
+jest.mock('../src/debug/compiler/CompilerLauncher', () => ({
+  CompilerLauncher: class {
+    static async findCompiler(): Promise<string> {
+      return 'pbcompiler';
+    }
+
+    generatePipeId(): string {
+      return 'test';
+    }
+
+    async compile(sourcePath: string): Promise<{ executablePath: string }> {
+      mockCompiles.push(sourcePath);
+      return { executablePath: '/tmp/main' };
+    }
+
+    launch(_executablePath: string, communication: string): EventEmitter {
+      const program = new FakeDebuggee(Number(/:(\d+)/.exec(communication)![1]));
+      mockPrograms.push(program);
+      void program.start();
+      return Object.assign(new EventEmitter(), { kill: () => mockKilled.push(program) });
+    }
+  },
+}));
+
+describe('restart', () => {
+  let client: DebugClient;
+
+  beforeEach(() => {
+    mockCompiles.length = 0;
+    mockPrograms.length = 0;
+    mockKilled.length = 0;
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    mockPrograms.forEach(program => program.close());
+    client.close();
+  });
+
+  test('recompiles and starts the program again in the same session', async () => {
+    client.request('launch', { program: '/tmp/main.pb', transport: 'network', debugPort: 0 });
+    expect(await client.waitForResponse('launch')).toMatchObject({ success: true });
+    client.request('configurationDone');
+    const first = await waitUntil(() => mockPrograms[0]);
+    await first.waitForCommand(2);                         // Run
+
+    client.messages.length = 0;
+    client.request('restart', {});
+    expect(await client.waitForResponse('restart')).toMatchObject({ success: true });
+    const second = await waitUntil(() => mockPrograms[1]);
+    await second.waitForCommand(2);
+
+    expect(mockKilled).toEqual([first]);
+    expect(mockCompiles).toEqual(['/tmp/main.pb', '/tmp/main.pb']);
+    expect(client.messages.some(msg => (msg as DebugProtocol.Event).event === 'terminated')).toBe(false);
+  });
+
+  test('is refused for attached programs', async () => {
+    await client.attachStopped();
+
+    client.request('restart', {});
+    expect(await client.waitForResponse('restart')).toMatchObject({
+      success: false,
+      message: 'Restart is only supported for launched programs',
+    });
+  });
+});
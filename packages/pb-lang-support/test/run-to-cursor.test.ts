@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient } from './fake-debuggee';
+
+const realPath = jest.requireActual('path') as typeof path;
+
+describe('run to cursor and stepping', () => {
+  const program = realPath.resolve('/tmp/main.pb');
+  let client: DebugClient;
+
+  beforeEach(() => {
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  test('does not offer Jump to Cursor', async () => {
+    client.request('initialize', { adapterID: 'purebasic', pathFormat: 'path' });
+    const response = await client.waitForResponse<DebugProtocol.InitializeResponse>('initialize');
+    expect(response.body?.supportsGotoTargetsRequest).toBeFalsy();
+    expect(response.body?.supportsSteppingGranularity).toBe(true);
+  });
+
+  test('runs to a line with a temporary breakpoint', async () => {
+    const debuggee = await client.attachStopped({ program });
+
+    client.request('runToLine', { source: { path: program }, line: 5 });
+    await debuggee.waitForCommand(2);
+    // Clear (3) for file 0, then Add (1) for line 5
+    expect(debuggee.received.filter(msg => msg.command === 3).map(msg => [msg.value1, msg.value2]))
+      .toEqual([[3, 0], [1, 4]]);
+    expect(await client.waitForResponse('runToLine')).toMatchObject({ success: true });
+
+    client.messages.length = 0;
+    debuggee.received.length = 0;
+    debuggee.send({ command: 3, value1: 4, value2: 7 });  // Stopped: breakpoint at line 5
+    const stopped = await client.waitForEvent<DebugProtocol.StoppedEvent>('stopped');
+    expect(stopped.body.reason).toBe('step');
+    await debuggee.waitForCommand(3);
+    expect(debuggee.received.map(msg => [msg.command, msg.value1])).toEqual([[3, 3]]);
+  });
+
+  test('drops the temporary breakpoint when a runtime error stops the program', async () => {
+    const debuggee = await client.attachStopped({ program });
+    client.request('runToLine', { source: { path: program }, line: 5 });
+    await debuggee.waitForCommand(2);
+
+    debuggee.received.length = 0;
+    debuggee.send({ command: 8, value1: 2, data: Buffer.from('Division by zero\0', 'utf16le') });  // Error at line 3
+    await client.waitForEvent('stopped');
+    await debuggee.waitForCommand(3);
+    expect(debuggee.received.map(msg => [msg.command, msg.value1])).toEqual([[3, 3]]);
+  });
+
+  test('refuses to run to a file that is not part of the program', async () => {
+    await client.attachStopped({ program });
+
+    client.request('runToLine', { source: { path: realPath.resolve('/tmp/other.pb') }, line: 5 });
+    expect(await client.waitForResponse('runToLine')).toMatchObject({ success: false, message: 'Cannot run to this line' });
+  });
+
+  test('steps by line and statement but not by instruction', async () => {
+    const debuggee = await client.attachStopped({ program });
+
+    client.request('next', { threadId: 1, granularity: 'instruction' });
+    expect(await client.waitForResponse('next')).toMatchObject({ success: false });
+
+    client.messages.length = 0;
+    client.request('next', { threadId: 1, granularity: 'statement' });
+    const step = await debuggee.waitForCommand(1);
+    expect(step.value2).toBe(1);  // StepType.Over
+    expect(await client.waitForResponse('next')).toMatchObject({ success: true });
+  });
+});
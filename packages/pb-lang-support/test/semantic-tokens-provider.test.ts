@@ -0,0 +1,100 @@
+import { SemanticTokens, SemanticTokensDelta } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  clearSemanticTokens,
+  handleSemanticTokens,
+  handleSemanticTokensDelta,
+  semanticTokensLegend,
+} from '../src/server/providers/semantic-tokens-provider';
+
+const uri = 'file:///test.pb';
+
+/** Decoded tokens as `text: type [modifiers]`, in source order. */
+const decode = (document: TextDocument, data: number[]): string[] => {
+  const result: string[] = [];
+  let line = 0;
+  let character = 0;
+  for (let i = 0; i < data.length; i += 5) {
+    line += data[i];
+    character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+    const start = document.offsetAt({ line, character });
+    const text = document.getText().substring(start, start + data[i + 2]);
+    const modifiers = semanticTokensLegend.tokenModifiers.filter((_, bit) => data[i + 4] & (1 << bit));
+    result.push(`${text}: ${[semanticTokensLegend.tokenTypes[data[i + 3]], ...modifiers].join(' ')}`);
+  }
+  return result;
+};
+
+const tokensOf = (lines: string[]): string[] => {
+  const document = TextDocument.create(uri, 'purebasic', 1, lines.join('\n'));
+  return decode(document, handleSemanticTokens({ textDocument: { uri } }, document).data);
+};
+
+describe('semantic tokens', () => {
+  afterEach(() => clearSemanticTokens(uri));
+
+  test('classifies module qualified procedures', () => {
+    const tokens = tokensOf([
+      'DeclareModule Mod',
+      '  Declare Func()',
+      'EndDeclareModule',
+      'Mod::Func()',
+    ]);
+    expect(tokens).toEqual([
+      'Mod: namespace declaration',
+      'Func: function declaration',
+      'Mod: namespace',
+      'Func: function',
+    ]);
+  });
+
+  test('classifies labels', () => {
+    expect(tokensOf(['Goto Done', 'Done:'])).toEqual(['Done: label', 'Done: label declaration']);
+  });
+
+  test('tells user constants from PureBasic constants', () => {
+    expect(tokensOf(['#Max = 10', 'Debug #Max + #PB_Any'])).toEqual([
+      '#Max: variable declaration readonly',
+      '#Max: variable readonly',
+      '#PB_Any: variable readonly defaultLibrary',
+    ]);
+  });
+
+  test('classifies parameters and globals', () => {
+    const tokens = tokensOf([
+      'Global Count',
+      'Procedure Add(Value)',
+      '  Count + Value',
+      'EndProcedure',
+      'Debug Value',
+    ]);
+    expect(tokens).toEqual([
+      'Count: variable declaration global',
+      'Add: function declaration',
+      'Value: parameter declaration',
+      'Count: variable global',
+      'Value: parameter',
+    ]);
+  });
+
+  test('returns edits against the previous result', () => {
+    const before = TextDocument.create(uri, 'purebasic', 1, 'Global Count\nDebug Count\n');
+    const full = handleSemanticTokens({ textDocument: { uri } }, before);
+    expect(full.resultId).toBeDefined();
+
+    const unchanged = handleSemanticTokensDelta({ textDocument: { uri }, previousResultId: full.resultId! }, before) as SemanticTokensDelta;
+    expect(unchanged.edits).toEqual([]);
+
+    const after = TextDocument.create(uri, 'purebasic', 2, 'Global Count\nDebug Count\nDebug Count\n');
+    const delta = handleSemanticTokensDelta({ textDocument: { uri }, previousResultId: unchanged.resultId! }, after) as SemanticTokensDelta;
+    expect(delta.edits).toHaveLength(1);
+    expect(delta.edits[0].data).toEqual([1, 6, 5, semanticTokensLegend.tokenTypes.indexOf('variable'), 1 << 4]);
+  });
+
+  test('returns full tokens for an unknown previous result', () => {
+    const document = TextDocument.create(uri, 'purebasic', 1, 'Global Count\n');
+    const result = handleSemanticTokensDelta({ textDocument: { uri }, previousResultId: 'stale' }, document) as SemanticTokens;
+    expect(decode(document, result.data)).toEqual(['Count: variable declaration global']);
+  });
+});
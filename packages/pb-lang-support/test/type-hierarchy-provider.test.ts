@@ -0,0 +1,97 @@
+import { SymbolKind, TypeHierarchyItem } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import {
+  handleImplementation,
+  handlePrepareTypeHierarchy,
+  handleTypeHierarchySubtypes,
+  handleTypeHierarchySupertypes,
+} from '../src/server/providers/type-hierarchy-provider';
+
+const uri = 'file:///project/types.pb';
+
+const document = TextDocument.create(uri, 'purebasic', 1, [
+  'Interface IShape',
+  '  Draw()',
+  '  Area.d()',
+  'EndInterface',
+  'Interface IShape3D Extends IShape',
+  '  Volume.d()',
+  'EndInterface',
+  'Structure Point',
+  '  x.i',
+  'EndStructure',
+  'Structure Point3D Extends Point',
+  '  z.i',
+  'EndStructure',
+  'Structure Point4D Extends Point3D',
+  '  w.i',
+  'EndStructure',
+  'DeclareModule Shapes',
+  '  Structure Base',
+  '    id.i',
+  '  EndStructure',
+  'EndDeclareModule',
+  'Structure Derived Extends Shapes::Base',
+  'EndStructure',
+  'Define p.Point3D',
+  'DataSection',
+  '  CircleVT:',
+  '  Data.i @Circle_Draw(), @Circle_Area()',
+  '  VTable_IShape3D:',
+  '  Data.i @Cube_Draw()',
+  '  Unrelated:',
+  '  Data.i @Other()',
+  'EndDataSection',
+].join('\n'));
+
+const documents = new Map([[uri, document]]);
+
+/** The type hierarchy item at `character` of `line`. */
+const prepare = (line: number, character: number): TypeHierarchyItem =>
+  handlePrepareTypeHierarchy({ textDocument: { uri }, position: { line, character } }, document, documents)![0];
+
+const names = (items: TypeHierarchyItem[]) => items.map(item => item.name);
+
+/** Implementations of the type at `character` of `line`, as the source lines they start on. */
+const implementations = (line: number, character: number): number[] =>
+  handleImplementation({ textDocument: { uri }, position: { line, character } }, document, documents)
+    .map(location => location.range.start.line);
+
+describe('type hierarchy', () => {
+  test('prepares the type of a definition or a type annotation', () => {
+    expect(prepare(23, 11)).toMatchObject({ name: 'Point3D', kind: SymbolKind.Struct, detail: 'Extends Point' });
+    expect(prepare(0, 12)).toMatchObject({ name: 'IShape', kind: SymbolKind.Interface });
+    expect(handlePrepareTypeHierarchy({ textDocument: { uri }, position: { line: 8, character: 2 } }, document, documents)).toBeNull();
+  });
+
+  test('lists supertypes through Extends', () => {
+    expect(names(handleTypeHierarchySupertypes({ item: prepare(13, 11) }, documents))).toEqual(['Point3D']);
+    expect(names(handleTypeHierarchySupertypes({ item: prepare(4, 12) }, documents))).toEqual(['IShape']);
+    expect(handleTypeHierarchySupertypes({ item: prepare(7, 11) }, documents)).toEqual([]);
+  });
+
+  test('lists direct subtypes', () => {
+    expect(names(handleTypeHierarchySubtypes({ item: prepare(7, 11) }, documents))).toEqual(['Point3D']);
+    expect(handleTypeHierarchySubtypes({ item: prepare(13, 11) }, documents)).toEqual([]);
+  });
+
+  test('resolves Module::Type base types', () => {
+    const base = prepare(21, 36);
+    expect(base).toMatchObject({ name: 'Base', detail: 'Shapes' });
+    expect(base.selectionRange.start.line).toBe(17);
+    expect(names(handleTypeHierarchySubtypes({ item: base }, documents))).toEqual(['Derived']);
+  });
+});
+
+describe('implementation', () => {
+  test('finds structures extending a structure indirectly', () => {
+    expect(implementations(7, 11)).toEqual([10, 13]);
+  });
+
+  test('finds derived interfaces and the DataSection vtables implementing them', () => {
+    // CircleVT matches the methods by name, VTable_IShape3D names the derived interface
+    expect(implementations(0, 12)).toEqual([4, 25, 27]);
+    expect(implementations(4, 12)).toEqual([27]);
+  });
+});
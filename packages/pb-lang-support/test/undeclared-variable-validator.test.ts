@@ -0,0 +1,69 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { validateUndeclaredVariables } from '../src/server/validation/undeclared-variable-validator';
+
+const document = (uri: string, lines: string[]) => TextDocument.create(uri, 'purebasic', 1, lines.join('\n'));
+
+const messages = (lines: string[], others: TextDocument[] = []) => {
+  const main = document('file:///main.pb', lines);
+  const searchDocuments = new Map([main, ...others].map(doc => [doc.uri, doc] as const));
+  return validateUndeclaredVariables(main, searchDocuments).map(diagnostic => diagnostic.message);
+};
+
+describe('undeclared variable validator', () => {
+  test('reports variables used without a declaration only under EnableExplicit', () => {
+    const text = [
+      'Before = 1',
+      'EnableExplicit',
+      'Define Count',
+      'Count = Total + 1',
+      'DisableExplicit',
+      'After = 2',
+    ];
+    expect(messages(text)).toEqual(['Variable not declared: Total']);
+  });
+
+  test('reports the exact name range', () => {
+    const main = document('file:///main.pb', ['EnableExplicit', 'Debug *Buffer']);
+    expect(validateUndeclaredVariables(main)[0].range).toEqual({
+      start: { line: 1, character: 7 },
+      end: { line: 1, character: 13 },
+    });
+  });
+
+  test('resolves parameters, procedure locals, globals and procedure names', () => {
+    const text = [
+      'EnableExplicit',
+      'Global Total',
+      'Procedure Add(Value)',
+      '  Protected Sum = Value + Total',
+      '  Debug @Add()',
+      '  Debug Count',
+      'EndProcedure',
+      'Define Count',
+      'Debug Count + Sum + SizeOf(Point)',
+    ];
+    expect(messages(text)).toEqual(['Variable not declared: Count', 'Variable not declared: Sum']);
+  });
+
+  test('uses the declarations of visible files', () => {
+    const include = document('file:///include.pbi', [
+      'Global Shared1',
+      'Define MainOnly',
+      'Procedure Helper()',
+      '  Protected HelperLocal',
+      'EndProcedure',
+    ]);
+    const text = [
+      'EnableExplicit',
+      'Debug Shared1 + MainOnly + HelperLocal',
+      'Procedure Foo()',
+      '  Debug Shared1 + MainOnly',
+      'EndProcedure',
+    ];
+    expect(messages(text, [include])).toEqual([
+      'Variable not declared: HelperLocal',
+      'Variable not declared: MainOnly',
+    ]);
+  });
+});
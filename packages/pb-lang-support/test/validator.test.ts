@@ -0,0 +1,58 @@
+import { validateDocument } from '../src/server/validation/validator';
+
+const messages = (text: string) => validateDocument(text).map(diagnostic => diagnostic.message);
+
+describe('validator', () => {
+  test('accepts alternative procedure headers chosen by CompilerIf', () => {
+    const text = [
+      'CompilerIf #PB_Compiler_Unicode',
+      '  Procedure.i Length(Text$, CharSize = 2)',
+      'CompilerElse',
+      '  Procedure.i Length(Text$, CharSize = 1)',
+      'CompilerEndIf',
+      '  ProcedureReturn Len(Text$) * CharSize',
+      'EndProcedure',
+      '',
+      'Debug Length("abc")',
+    ].join('\n');
+    expect(messages(text)).toEqual([]);
+  });
+
+  test('accepts continued lines, colon separated statements and keywords in strings', () => {
+    const text = [
+      'Procedure Add(a, _',
+      '             b)',
+      '  ProcedureReturn a + b',
+      'EndProcedure',
+      '',
+      'If Add(1, 2) = 3 : Debug "EndIf ; EndProcedure" : EndIf',
+      'For i = 1 To 3',
+      '  Select i',
+      '    Case 1 : Debug "one"',
+      '    Default',
+      '      Debug "other"',
+      '  EndSelect',
+      'Next',
+    ].join('\n');
+    expect(messages(text)).toEqual([]);
+  });
+
+  test('reports a procedure without EndProcedure once', () => {
+    const text = 'Procedure Foo()\n  Debug 1\n';
+    expect(messages(text)).toEqual(["Unclosed Procedure 'Foo'. Missing EndProcedure."]);
+  });
+
+  test('still reports unclosed headers when no EndProcedure follows', () => {
+    const text = [
+      'CompilerIf #PB_Compiler_Unicode',
+      '  Procedure Foo()',
+      'CompilerElse',
+      '  Procedure Foo()',
+      'CompilerEndIf',
+    ].join('\n');
+    expect(messages(text)).toEqual([
+      "Unclosed Procedure 'Foo'. Missing EndProcedure.",
+      "Unclosed Procedure 'Foo'. Missing EndProcedure.",
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  decodePBValue,
+  parseStructureMembers,
+  PBRawType,
+} from '../src/debug/protocol/variableParser';
+
+function pbString(text: string): Buffer {
+  return Buffer.from(text + '\0', 'utf16le');
+}
+
+function long(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeInt32LE(value, 0);
+  return buf;
+}
+
+describe('debugger variable parser', () => {
+  test('decodes list and map sizes', () => {
+    const list = decodePBValue(PBRawType.List, Buffer.concat([long(3), long(1)]), 0, false);
+    expect(list).toMatchObject({ value: 'size=3 current=1', typeName: 'List', bytesRead: 8 });
+
+    const map = decodePBValue(PBRawType.Map, Buffer.concat([long(2), Buffer.from([0])]), 0, false);
+    expect(map).toMatchObject({ value: 'size=2', typeName: 'Map', bytesRead: 5 });
+  });
+
+  test('decodes characters as unsigned 2-byte values', () => {
+    const data = Buffer.concat([Buffer.from([0x41, 0x00]), long(7)]);
+    expect(decodePBValue(11, data, 0, true)).toMatchObject({ value: '65', typeName: 'Character', bytesRead: 2 });
+    expect(decodePBValue(11, Buffer.from([0xFF, 0xFF]), 0, true).value).toBe('65535');
+  });
+
+  test('decodes ascii and unicode values as unsigned', () => {
+    expect(decodePBValue(24, Buffer.from([0xE9]), 0, true)).toMatchObject({ value: '233', typeName: 'Ascii', bytesRead: 1 });
+    expect(decodePBValue(25, Buffer.from([0x00, 0xF0]), 0, true)).toMatchObject({ value: '61440', typeName: 'Unicode', bytesRead: 2 });
+  });
+
+  test('keeps the entries after a character in place', () => {
+    const data = Buffer.concat([
+      pbString('c'), Buffer.from([11]), Buffer.from([0x42, 0x00]),
+      pbString('n'), Buffer.from([5]), long(42),
+    ]);
+
+    expect(parseStructureMembers(data, false, true).map(m => `${m.label}=${m.value}`)).toEqual(['c=66', 'n=42']);
+  });
+
+  test('parses nested structure members without a value', () => {
+    const data = Buffer.concat([
+      pbString('inner'), Buffer.from([PBRawType.Structure]),
+      pbString('n'), Buffer.from([8]), pbString('abc'),
+    ]);
+
+    expect(parseStructureMembers(data, false, true)).toEqual([
+      { label: 'inner', rawType: PBRawType.Structure, value: '<structure>', typeName: 'Structure' },
+      { label: 'n', rawType: 8, value: 'abc', typeName: 'String' },
+    ]);
+  });
+
+  test('parses structure members until the data ends', () => {
+    const data = Buffer.concat([
+      pbString('x'), Buffer.from([5]), long(1),
+      pbString('y'), Buffer.from([5]), long(-2),
+    ]);
+
+    expect(parseStructureMembers(data, false, true).map(m => `${m.label}=${m.value}`)).toEqual(['x=1', 'y=-2']);
+  });
+});
@@ -0,0 +1,77 @@
+import * as path from 'path';
+import { DebugProtocol } from '@vscode/debugprotocol';
+
+import { DebugClient, FakeDebuggee, waitUntil } from './fake-debuggee';
+
+const realPath = jest.requireActual('path') as typeof path;
+
+/** Expression result of a Quad value (Expression event, result type 2). */
+function quadResult(value: bigint): { command: number; value2: number; data: Buffer } {
+  const data = Buffer.alloc(8);
+  data.writeBigInt64LE(value);
+  return { command: 36, value2: 2, data };
+}
+
+describe('watch expressions', () => {
+  const program = realPath.resolve('/tmp/main.pb');
+  let client: DebugClient;
+
+  beforeEach(() => {
+    client = new DebugClient();
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  /** Evaluate `expression` in the Watch view and wait for the response. */
+  const watch = async (expression: string) => {
+    client.request('evaluate', { expression, context: 'watch', frameId: 0 });
+    const response = await client.waitForResponse<DebugProtocol.EvaluateResponse>('evaluate');
+    client.messages.length = 0;
+    return response.body;
+  };
+
+  const evaluations = (debuggee: FakeDebuggee) => debuggee.received.filter(msg => msg.command === 34).length;
+
+  test('evaluates a watch once per stop', async () => {
+    const debuggee = await client.attachStopped({ program });
+
+    const first = watch('count');
+    await debuggee.waitForCommand(34);                     // EvaluateExpressionWithStruct
+    debuggee.send(quadResult(1n));
+    expect(await first).toMatchObject({ result: '1', type: 'Integer' });
+    expect(await watch('count')).toMatchObject({ result: '1' });
+    expect(evaluations(debuggee)).toBe(1);
+
+    client.request('continue', { threadId: 1 });
+    await debuggee.waitForCommand(2);
+    debuggee.send({ command: 3, value1: 4, value2: 7 });  // Stopped: breakpoint
+    await client.waitForEvent('stopped');
+    client.messages.length = 0;
+
+    const second = watch('count');
+    await waitUntil(() => evaluations(debuggee) === 2 || undefined, 'second evaluation');
+    debuggee.send(quadResult(2n));
+    expect(await second).toMatchObject({ result: '2' });
+  });
+
+  test('shows names the frame does not know as not in scope', async () => {
+    const debuggee = await client.attachStopped({ program });
+
+    const result = watch('missing');
+    await debuggee.waitForCommand(34);
+    debuggee.send({ command: 36, value2: 0, data: Buffer.from('Variable not found\0', 'utf8') });
+    // Not a local or a global either
+    await debuggee.waitForCommand(11);                     // GetLocals
+    debuggee.send({ command: 15, value2: 0 });
+    await debuggee.waitForCommand(9);                      // GetGlobalNames
+    debuggee.send({ command: 13, data: Buffer.alloc(4) });
+
+    expect(await result).toMatchObject({
+      result: '<not in scope>',
+      variablesReference: 0,
+      presentationHint: { attributes: ['failedEvaluation'] },
+    });
+  });
+});
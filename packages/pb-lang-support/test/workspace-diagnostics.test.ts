@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection, PublishDiagnosticsParams } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { defaultSettings, DiagnosticsScope, PureBasicSettings } from '../src/server/config/settings';
+import { ProjectManager } from '../src/server/managers/project-manager';
+import { fsPathToUri } from '../src/server/utils/fs-utils';
+import { WorkspaceDiagnostics } from '../src/server/validation/workspace-diagnostics';
+
+const realFs = jest.requireActual('fs');
+const realPath = jest.requireActual('path');
+
+/** File contents by path; test/setup.ts mocks fs, so nothing touches the disk. */
+const files = new Map<string, string>();
+const openDocuments = new Map<string, TextDocument>();
+let projectFiles: string[] = [];
+let scope: DiagnosticsScope = 'project';
+let cancelAfterFirstBatch = false;
+let published: PublishDiagnosticsParams[] = [];
+
+const progress = {
+  token: { isCancellationRequested: false },
+  begin: jest.fn(),
+  report: jest.fn(() => {
+    progress.token.isCancellationRequested = cancelAfterFirstBatch;
+  }),
+  done: jest.fn(),
+};
+
+const connection = {
+  sendDiagnostics: (params: PublishDiagnosticsParams) => published.push(params),
+  window: { createWorkDoneProgress: async () => progress },
+} as unknown as Connection;
+
+const projectManager = {
+  getActiveProjectFiles: () => projectFiles,
+  getActiveTarget: () => undefined,
+  getAllProjectFilesForDocument: () => [],
+} as unknown as ProjectManager;
+
+const settings = (): PureBasicSettings => ({
+  ...defaultSettings,
+  linting: { ...defaultSettings.linting!, diagnosticsScope: scope },
+});
+
+/** Project file `name`, using a variable nobody declared. */
+const addFile = (name: string): string => {
+  const fsPath = `/project/${name}`;
+  files.set(fsPath, 'EnableExplicit\nDebug Missing\n');
+  projectFiles.push(fsPath);
+  return fsPath;
+};
+
+const publishedUris = () => published.map(params => params.uri);
+
+describe('workspace diagnostics', () => {
+  let workspaceDiagnostics: WorkspaceDiagnostics;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (fs.readFileSync as jest.Mock).mockImplementation((fsPath: string) => {
+      const content = files.get(fsPath);
+      if (content === undefined) throw new Error(`ENOENT: ${fsPath}`);
+      return content;
+    });
+    (fs.existsSync as jest.Mock).mockImplementation((fsPath: string) => files.has(fsPath) || realFs.existsSync(fsPath));
+    for (const name of ['resolve', 'dirname', 'basename', 'extname', 'isAbsolute'] as const) {
+      (path[name] as jest.Mock).mockImplementation(realPath[name]);
+    }
+
+    files.clear();
+    openDocuments.clear();
+    projectFiles = [];
+    scope = 'project';
+    cancelAfterFirstBatch = false;
+    published = [];
+    progress.token.isCancellationRequested = false;
+    workspaceDiagnostics = new WorkspaceDiagnostics({
+      connection,
+      projectManager,
+      documents: openDocuments,
+      getSettings: settings,
+      isDocumentOpen: () => false,
+      logError: () => undefined,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const run = async () => {
+    workspaceDiagnostics.schedule();
+    await jest.advanceTimersByTimeAsync(5000);
+  };
+
+  test('validates the source files of the active project', async () => {
+    const main = addFile('main.pb');
+    projectFiles.push('/project/logo.png');
+
+    await run();
+    expect(publishedUris()).toEqual([fsPathToUri(main)]);
+    expect(published[0].diagnostics.map(diagnostic => diagnostic.message)).toEqual(['Variable not declared: Missing']);
+  });
+
+  test('resolves variables declared in included files', async () => {
+    // Include paths are resolved on disk
+    const dir = realFs.realpathSync(realFs.mkdtempSync(path.join(os.tmpdir(), 'pb-workspace-diagnostics-')));
+    try {
+      const main = path.join(dir, 'main.pb');
+      const globals = path.join(dir, 'globals.pbi');
+      realFs.writeFileSync(main, 'XIncludeFile "globals.pbi"\nEnableExplicit\nDebug Missing\n');
+      realFs.writeFileSync(globals, '');
+      files.set(main, realFs.readFileSync(main, 'utf8'));
+      projectFiles = [main];
+      // The open editor content wins over the file on disk
+      openDocuments.set(fsPathToUri(globals), TextDocument.create(fsPathToUri(globals), 'purebasic', 2, 'Global Missing\n'));
+
+      await run();
+      expect(published).toEqual([{ uri: fsPathToUri(main), diagnostics: [] }]);
+    } finally {
+      realFs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('validates nothing for the open files scope', async () => {
+    addFile('main.pb');
+    scope = 'openFiles';
+
+    await run();
+    expect(published).toEqual([]);
+    expect(progress.begin).not.toHaveBeenCalled();
+  });
+
+  test('clears the diagnostics of files that left the scope', async () => {
+    const main = addFile('main.pb');
+    const removed = addFile('removed.pbi');
+    await run();
+
+    published = [];
+    projectFiles = [main];
+    await run();
+    expect(published).toContainEqual({ uri: fsPathToUri(removed), diagnostics: [] });
+    expect(publishedUris().filter(uri => uri === fsPathToUri(removed))).toHaveLength(1);
+  });
+
+  test('stops between batches when the progress is cancelled', async () => {
+    for (let i = 0; i < 25; i++) addFile(`file${i}.pb`);
+    cancelAfterFirstBatch = true;
+
+    await run();
+    expect(published).toHaveLength(10);
+    expect(progress.done).toHaveBeenCalled();
+  });
+
+  test('restarts a run that is rescheduled', async () => {
+    for (let i = 0; i < 25; i++) addFile(`file${i}.pb`);
+
+    workspaceDiagnostics.schedule();
+    await jest.advanceTimersByTimeAsync(1000);             // start delay: first batch is validated
+    expect(published).toHaveLength(10);
+
+    workspaceDiagnostics.schedule();                       // cancels the pass in progress
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(published).toHaveLength(10 + 25);
+  });
+});
@@ -0,0 +1,119 @@
+import * as os from 'os';
+
+import type * as IndexStore from '../src/server/indexer/symbol-index-store';
+import type * as WorkspaceIndexer from '../src/server/indexer/workspace-indexer';
+import type * as WorkspaceIndex from '../src/server/indexer/workspace-index';
+import type * as SymbolParser from '../src/server/symbols/optimized-symbol-parser';
+import type * as SymbolCache from '../src/server/symbols/symbol-cache';
+
+const realFs = jest.requireActual('fs');
+const realPath = jest.requireActual('path');
+
+interface Server {
+  store: typeof IndexStore;
+  indexer: typeof WorkspaceIndexer;
+  workspace: typeof WorkspaceIndex;
+  parser: typeof SymbolParser;
+  cache: typeof SymbolCache;
+}
+
+/** Loads fresh copies of the indexer modules, like a server restart. */
+function startServer(storageDir: string, root: string): Server {
+  let server!: Server;
+  jest.isolateModules(() => {
+    // test/setup.ts mocks fs and path; the index works on real files
+    const fs = require('fs');
+    for (const name of ['existsSync', 'readFileSync', 'writeFileSync']) {
+      fs[name].mockImplementation(realFs[name]);
+    }
+    const path = require('path');
+    for (const name of ['resolve', 'dirname', 'basename', 'extname', 'isAbsolute']) {
+      path[name].mockImplementation(realPath[name]);
+    }
+
+    server = {
+      store: require('../src/server/indexer/symbol-index-store'),
+      indexer: require('../src/server/indexer/workspace-indexer'),
+      workspace: require('../src/server/indexer/workspace-index'),
+      parser: require('../src/server/symbols/optimized-symbol-parser'),
+      cache: require('../src/server/symbols/symbol-cache'),
+    };
+  });
+
+  server.store.setSymbolIndexStorage(storageDir);
+  server.workspace.setWorkspaceRoots([`file://${root}`]);
+  return server;
+}
+
+function symbolNames(server: Server): string[] {
+  return server.cache.symbolCache.getAllSymbols().map(entry => entry.symbol.name).sort();
+}
+
+describe('workspace symbol index', () => {
+  let dir: string;
+  let root: string;
+  let storage: string;
+
+  beforeEach(() => {
+    dir = realFs.mkdtempSync(realPath.join(os.tmpdir(), 'pb-index-'));
+    root = realPath.join(dir, 'workspace');
+    storage = realPath.join(dir, 'storage');
+    realFs.mkdirSync(realPath.join(root, 'inc'), { recursive: true });
+    realFs.writeFileSync(realPath.join(root, 'main.pb'), 'XIncludeFile "inc/a.pbi"\nProcedure Main()\nEndProcedure\n');
+    realFs.writeFileSync(realPath.join(root, 'inc', 'a.pbi'), 'Procedure Helper()\nEndProcedure\n');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    realFs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reuses unchanged files after a restart and re-parses modified ones', async () => {
+    const first = startServer(storage, root);
+    await first.indexer.indexWorkspace();
+    expect(symbolNames(first)).toEqual(['Helper', 'Main']);
+    expect(realFs.existsSync(realPath.join(storage, 'symbol-index.json'))).toBe(true);
+
+    const helper = realPath.join(root, 'inc', 'a.pbi');
+    realFs.writeFileSync(helper, 'Procedure Helper2()\nEndProcedure\n');
+    // Make sure the mtime differs even on coarse file systems
+    realFs.utimesSync(helper, new Date(), new Date(Date.now() + 10000));
+
+    const second = startServer(storage, root);
+    const extract = jest.spyOn(second.parser.optimizedSymbolParser, 'extractSymbols');
+    await second.indexer.indexWorkspace();
+
+    expect(symbolNames(second)).toEqual(['Helper2', 'Main']);
+    expect(extract).toHaveBeenCalledTimes(1);
+  });
+
+  test('drops files removed from the workspace', async () => {
+    const first = startServer(storage, root);
+    await first.indexer.indexWorkspace();
+
+    realFs.rmSync(realPath.join(root, 'inc', 'a.pbi'));
+
+    const second = startServer(storage, root);
+    await second.indexer.indexWorkspace();
+    expect(symbolNames(second)).toEqual(['Main']);
+    expect(second.store.getIndexedPaths()).toEqual([realPath.join(root, 'main.pb')]);
+  });
+
+  test('updates files created outside the editor and finds the files including them', async () => {
+    const server = startServer(storage, root);
+    await server.indexer.indexWorkspace();
+
+    const generated = realPath.join(root, 'inc', 'generated.pbi');
+    realFs.writeFileSync(generated, 'Procedure Generated()\nEndProcedure\n');
+    // Single-file updates save the index after a delay
+    jest.useFakeTimers();
+    server.workspace.addWorkspaceFile(generated);
+    server.indexer.indexFile(generated);
+    jest.runOnlyPendingTimers();
+
+    expect(symbolNames(server)).toEqual(['Generated', 'Helper', 'Main']);
+    expect(server.workspace.getWorkspaceFiles()).toContain(generated);
+    expect(server.indexer.getDependentFiles(realPath.join(root, 'inc', 'a.pbi'))).toEqual([realPath.join(root, 'main.pb')]);
+    expect(server.indexer.getDependentFiles(generated)).toEqual([]);
+  });
+});